@@ -0,0 +1,190 @@
+/**
+ * Audit Log
+ *
+ * Records every call of a tool that changes Bugsink data: when it was made,
+ * the tool and its arguments, the instance, the object's state before and
+ * after, and the outcome. Entries are appended to a JSONL file when one is
+ * configured (so they outlive the process) and kept in memory otherwise.
+ *
+ * For project and team updates, an entry can be turned into an undo payload:
+ * the same update tool with the previous values of the changed fields.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { appendFileSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { BugsinkClient, Issue, Project } from './bugsink-client.js';
+
+export const AUDIT_OUTCOMES = ['success', 'error', 'denied'] as const;
+
+export type AuditOutcome = (typeof AUDIT_OUTCOMES)[number];
+
+/** Entries kept when there is no audit file; older ones are dropped first */
+const MAX_MEMORY_ENTRIES = 1000;
+
+/** Update tools that can be undone, with the argument naming the updated object */
+const UNDOABLE_TOOLS: Record<string, string> = {
+  update_project: 'project_id',
+  update_team: 'team_id',
+};
+
+/** Arguments that only affect how the result is presented */
+const PRESENTATION_ARGS = ['format', 'instance'];
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  instance: string;
+  arguments: Record<string, unknown>;
+  /** Project the call changed, when it concerns one */
+  project_id: number | null;
+  outcome: AuditOutcome;
+  error: string | null;
+  /** State of the object before the call; null for creations and bulk changes */
+  before: unknown;
+  /** Result of the call; null when it failed */
+  after: unknown;
+}
+
+export interface UndoPayload {
+  tool: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  limit: number;
+  tool?: string;
+  /** Only entries at or after this time (epoch milliseconds) */
+  since?: number;
+  /** Only entries of these instances */
+  instances: string[];
+  /** Only entries of these projects, by instance; entries without a project are left out */
+  allowedProjects?: (instance: string) => number[] | undefined;
+}
+
+export class AuditLog {
+  private entries: AuditEntry[] = [];
+
+  constructor(readonly file: string | null) {}
+
+  /**
+   * Record a call. Returns the entry as written.
+   */
+  record(call: Omit<AuditEntry, 'id' | 'timestamp' | 'project_id'>): AuditEntry {
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      tool: call.tool,
+      instance: call.instance,
+      arguments: Object.fromEntries(
+        Object.entries(call.arguments).filter(
+          ([name, value]) => value !== undefined && !PRESENTATION_ARGS.includes(name)
+        )
+      ),
+      project_id: projectOf(call),
+      outcome: call.outcome,
+      error: call.error,
+      before: call.before,
+      after: call.after,
+    };
+
+    if (this.file) {
+      mkdirSync(dirname(this.file), { recursive: true });
+      appendFileSync(this.file, `${JSON.stringify(entry)}\n`);
+    } else {
+      this.entries.push(entry);
+      if (this.entries.length > MAX_MEMORY_ENTRIES) this.entries.shift();
+    }
+    return entry;
+  }
+
+  /**
+   * The most recent entries matching a query, newest first
+   */
+  query(query: AuditQuery): AuditEntry[] {
+    return this.readAll()
+      .filter((entry) => {
+        if (!query.instances.includes(entry.instance)) return false;
+        if (query.tool && entry.tool !== query.tool) return false;
+        if (query.since !== undefined && Date.parse(entry.timestamp) < query.since) return false;
+
+        const allowed = query.allowedProjects?.(entry.instance);
+        return !allowed || (entry.project_id !== null && allowed.includes(entry.project_id));
+      })
+      .reverse()
+      .slice(0, query.limit);
+  }
+
+  private readAll(): AuditEntry[] {
+    if (!this.file) return this.entries;
+
+    let content: string;
+    try {
+      content = readFileSync(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // A partly written line (e.g. after a crash) must not hide the rest of the log
+      }
+    }
+    return entries;
+  }
+}
+
+/**
+ * Fetch the state of the object a mutating tool is about to change, or null
+ * when the call creates an object or changes many at once. Read past the
+ * cache, since a cached copy may predate changes made outside the server.
+ */
+export async function stateBefore(
+  tool: string,
+  args: Record<string, unknown>,
+  client: BugsinkClient
+): Promise<unknown> {
+  if (tool === 'update_project' && typeof args.project_id === 'number') {
+    return client.getProject(args.project_id, { fresh: true });
+  }
+  if (tool === 'update_team' && typeof args.team_id === 'string') {
+    return client.getTeam(args.team_id, { fresh: true });
+  }
+  if (tool !== 'bulk_update_issues' && typeof args.issue_id === 'string') {
+    return client.getIssue(args.issue_id, { fresh: true });
+  }
+  return null;
+}
+
+/**
+ * The call that reverts a successful project or team update: the same tool
+ * with the previous values of the fields it changed. Null for other entries.
+ */
+export function undoPayload(entry: AuditEntry): UndoPayload | null {
+  const idArg = UNDOABLE_TOOLS[entry.tool];
+  if (!idArg || entry.outcome !== 'success' || !entry.before) return null;
+
+  const before = entry.before as Record<string, unknown>;
+  const revert: Record<string, unknown> = { [idArg]: entry.arguments[idArg] };
+  for (const field of Object.keys(entry.arguments)) {
+    if (field !== idArg && before[field] !== undefined) revert[field] = before[field];
+  }
+  return { tool: entry.tool, arguments: { ...revert, instance: entry.instance } };
+}
+
+function projectOf(
+  call: Pick<AuditEntry, 'tool' | 'arguments' | 'before' | 'after'>
+): number | null {
+  if (typeof call.arguments.project_id === 'number') return call.arguments.project_id;
+  if (call.tool === 'create_project') return (call.after as Project | null)?.id ?? null;
+
+  // Issues carry their project
+  const issue = call.before as Issue | null;
+  return issue?.project ?? null;
+}
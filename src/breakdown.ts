@@ -0,0 +1,152 @@
+/**
+ * Issue Breakdown
+ *
+ * Aggregates how often each value of a tag, browser, OS, request path, level
+ * or context key occurs across a sample of an issue's events, to show at a
+ * glance whether an issue is limited to one browser, release or tenant.
+ */
+
+import type { Event, EventData } from './bugsink-client.js';
+
+/**
+ * Fields broken down by default. `tags` covers every tag; context keys must
+ * be named individually since most contexts hold per-event noise (trace IDs,
+ * memory figures) that would only produce unique values.
+ */
+export const DEFAULT_BREAKDOWN_KEYS = [
+  'tags',
+  'browser',
+  'os',
+  'url',
+  'level',
+  'contexts.browser.name',
+  'contexts.os.name',
+  'contexts.runtime.name',
+  'contexts.device.model',
+];
+
+export interface BreakdownValue {
+  value: string;
+  count: number;
+  /** Share of the sampled events, 0-100 */
+  percent: number;
+}
+
+export interface FieldBreakdown {
+  field: string;
+  /** Number of sampled events that have the field */
+  events: number;
+  /** Number of distinct values */
+  distinct: number;
+  /** Most frequent values first */
+  values: BreakdownValue[];
+  /** Events whose value was cut off by the top-N limit */
+  other: number;
+}
+
+export interface IssueBreakdown {
+  issue_id: string;
+  sampled: number;
+  fields: FieldBreakdown[];
+}
+
+export interface BreakdownOptions {
+  /** Fields to include; `tags` and `contexts` also select all their subkeys */
+  keys?: string[];
+  /** Maximum number of values listed per field (default: 10) */
+  top?: number;
+}
+
+/**
+ * Count value frequencies per field across the events. Percentages are of all
+ * sampled events, so a field missing from some events adds up to less than 100.
+ */
+export function breakdownEvents(
+  issueId: string,
+  events: Event[],
+  options: BreakdownOptions = {}
+): IssueBreakdown {
+  const keys = options.keys?.length ? options.keys : DEFAULT_BREAKDOWN_KEYS;
+  const top = Math.max(1, options.top ?? 10);
+  const counts = new Map<string, Map<string, number>>();
+
+  for (const event of events) {
+    for (const [field, value] of eventFields(event.data)) {
+      if (!keys.some((key) => field === key || field.startsWith(`${key}.`))) continue;
+
+      const values = counts.get(field) ?? new Map<string, number>();
+      values.set(value, (values.get(value) ?? 0) + 1);
+      counts.set(field, values);
+    }
+  }
+
+  const percent = (count: number) => Math.round((count / events.length) * 1000) / 10;
+  const fields = [...counts].map(([field, values]) => {
+    const ranked = [...values]
+      .sort(([va, a], [vb, b]) => b - a || va.localeCompare(vb))
+      .map(([value, count]) => ({ value, count, percent: percent(count) }));
+    const total = ranked.reduce((sum, v) => sum + v.count, 0);
+    const shown = ranked.slice(0, top);
+
+    return {
+      field,
+      events: total,
+      distinct: ranked.length,
+      values: shown,
+      other: total - shown.reduce((sum, v) => sum + v.count, 0),
+    };
+  });
+
+  // Keep the requested order of keys, then alphabetical within a key
+  const rank = (field: string) =>
+    keys.findIndex((key) => field === key || field.startsWith(`${key}.`));
+  fields.sort((a, b) => rank(a.field) - rank(b.field) || a.field.localeCompare(b.field));
+
+  return { issue_id: issueId, sampled: events.length, fields };
+}
+
+/**
+ * The values of an event that can be broken down, as [field, value] pairs
+ */
+function eventFields(data: EventData | undefined): [string, string][] {
+  if (!data) return [];
+
+  const fields: [string, string][] = [];
+  const add = (field: string, value: unknown) => {
+    if (value === undefined || value === null || value === '') return;
+    fields.push([field, typeof value === 'string' ? value : JSON.stringify(value)]);
+  };
+
+  for (const [key, value] of Object.entries(data.tags ?? {})) {
+    add(`tags.${key}`, value);
+  }
+  add('browser', data.browser?.name);
+  add('browser.version', [data.browser?.name, data.browser?.version].filter(Boolean).join(' '));
+  add('os', data.os?.name);
+  add('os.version', [data.os?.name, data.os?.version].filter(Boolean).join(' '));
+  add('url', urlPath(data.request?.url));
+  add('level', data.level);
+
+  for (const [name, context] of Object.entries(data.contexts ?? {})) {
+    if (context && typeof context === 'object' && !Array.isArray(context)) {
+      for (const [key, value] of Object.entries(context)) {
+        add(`contexts.${name}.${key}`, value);
+      }
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Path of a request URL without host, query or fragment, so requests to the
+ * same endpoint are counted together
+ */
+function urlPath(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url.split(/[?#]/)[0];
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Output Budget
+ *
+ * Keeps rendered tool output within a character budget, so a large event or
+ * a long list does not flood the agent's context window while a small one is
+ * shown in full. Content is split into parts with a priority; parts are kept
+ * in order of priority until the budget runs out, then rendered in their
+ * original order with markers saying what was left out and how to fetch it.
+ */
+
+/**
+ * How much of an event to render: `brief` keeps the summary and in-app
+ * frames, `normal` everything within the budget, `full` everything
+ */
+export const DETAIL_LEVELS = ['brief', 'normal', 'full'] as const;
+
+export type DetailLevel = (typeof DETAIL_LEVELS)[number];
+
+/** Default budget, roughly 5k tokens */
+export const DEFAULT_MAX_CHARS = 20_000;
+
+export interface OutputBudget {
+  /** Maximum length of the rendered text; null for no limit */
+  maxChars: number | null;
+  detail: DetailLevel;
+}
+
+export const DEFAULT_BUDGET: OutputBudget = { maxChars: DEFAULT_MAX_CHARS, detail: 'normal' };
+
+export interface BudgetPart {
+  text: string;
+  /** Parts with a lower priority are kept first; equal priorities keep their order */
+  priority: number;
+}
+
+/**
+ * Resolve the budget of a call from its arguments and the server default.
+ * `detail: 'full'` lifts the default limit, but not one given with the call.
+ */
+export function resolveBudget(
+  defaults: OutputBudget,
+  maxChars: number | undefined,
+  detail: DetailLevel | undefined
+): OutputBudget {
+  const level = detail ?? defaults.detail;
+  return {
+    maxChars: maxChars ?? (level === 'full' ? null : defaults.maxChars),
+    detail: level,
+  };
+}
+
+/**
+ * Choose the parts that fit in `maxChars` characters, counting a line break
+ * after each. Parts are taken in order of priority and the first one that
+ * does not fit ends the selection, so a shown frame is never followed by a
+ * gap of more important ones. Returns whether each part is kept.
+ */
+export function selectParts(parts: BudgetPart[], maxChars: number | null): boolean[] {
+  if (maxChars === null) return parts.map(() => true);
+
+  const kept = parts.map(() => false);
+  const order = parts
+    .map((_, i) => i)
+    .sort((a, b) => parts[a].priority - parts[b].priority || a - b);
+  let remaining = maxChars;
+  for (const i of order) {
+    const size = parts[i].text.length + 1;
+    if (size > remaining) break;
+    kept[i] = true;
+    remaining -= size;
+  }
+  return kept;
+}
+
+/**
+ * Find how much to leave out of some output for it to fit in `maxChars`
+ * characters: the fewest steps, from 0 to `max`, at which `size(steps)`
+ * fits. Leaving out more must never make the output longer. Returns `max`
+ * when even that does not fit.
+ */
+export function fitSteps(
+  max: number,
+  maxChars: number | null,
+  size: (steps: number) => number
+): number {
+  if (maxChars === null || max <= 0 || size(0) <= maxChars) return 0;
+  if (size(max) > maxChars) return max;
+
+  let low = 1;
+  let high = max;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (size(mid) <= maxChars) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+}
+
+/**
+ * Cut text at a line break so that, with a marker saying how much was left
+ * out and how to get it, it fits in `maxChars` characters. `reserved`
+ * characters are kept free for what the caller appends (e.g. a redaction
+ * note). When not even the marker fits, the text is cut short without one.
+ */
+export function truncateText(
+  text: string,
+  maxChars: number | null,
+  hint: string,
+  reserved = 0
+): string {
+  const limit = maxChars === null ? null : Math.max(0, maxChars - reserved);
+  if (limit === null || text.length <= limit) return text;
+
+  const marker = (omitted: number) =>
+    `\n\n… ${omitted} more character(s) omitted to stay within max_chars (${maxChars}); ${hint}.`;
+  // The omitted count never has more digits than the whole text's length
+  const room = limit - marker(text.length).length;
+  if (room <= 0) return text.slice(0, limit);
+
+  const cut = text.lastIndexOf('\n', room);
+  const kept = text.slice(0, cut > 0 ? cut : room);
+  return `${kept}${marker(text.length - kept.length)}`;
+}
@@ -5,17 +5,89 @@
  * API docs: https://www.bugsink.com/blog/bugsink-2.0-api/
  */
 
+import { ResponseCache, type CacheOptions, type CacheResource, type CacheStats } from './cache.js';
+import { Cassette, type CassetteOptions } from './cassette.js';
+import {
+  BugsinkError,
+  BugsinkNetworkError,
+  BugsinkServerError,
+  errorForStatus,
+} from './errors.js';
+import { RateLimiter, sleep } from './rate-limiter.js';
+
 export interface BugsinkConfig {
   baseUrl: string;
   apiToken: string;
+  /** Per-attempt request timeout in milliseconds (default: 30000) */
+  timeoutMs?: number;
+  /** Retries for 429, 5xx and network failures (default: 3) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff in milliseconds (default: 500) */
+  retryBaseDelayMs?: number;
+  /** Maximum number of concurrent requests (default: 4) */
+  maxConcurrency?: number;
+  /** Maximum request starts per second; 0 disables spacing (default: 0) */
+  requestsPerSecond?: number;
+  /** Response cache settings (default: in-memory with per-resource TTLs) */
+  cache?: CacheOptions;
+  /** Record responses to, or replay them from, a cassette file (default: off) */
+  cassette?: CassetteOptions;
 }
 
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+// Methods that are safe to repeat after a server or network failure; POST is
+// only retried on 429, where the server has explicitly not processed it
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'PATCH', 'DELETE']);
+
 export interface PaginatedResponse<T> {
   next: string | null;
   previous: string | null;
   results: T[];
 }
 
+export interface PageOptions {
+  cursor?: string;
+}
+
+export interface ReadOptions {
+  /** Bypass the response cache, e.g. when polling for changes (default: false) */
+  fresh?: boolean;
+}
+
+export interface IterateOptions extends ReadOptions {
+  /** Stop after yielding this many items (default: unlimited) */
+  maxItems?: number;
+}
+
+export interface ListIssuesOptions extends PageOptions {
+  status?: string;
+  limit?: number;
+  sort?: 'digest_order' | 'last_seen';
+  order?: 'asc' | 'desc';
+}
+
+export interface ListEventsOptions extends PageOptions {
+  limit?: number;
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * Extract the opaque cursor from a pagination link, so callers can resume
+ * a listing with `{ cursor }` instead of holding on to the full URL.
+ */
+export function getCursor(link: string | null): string | null {
+  if (!link) return null;
+  try {
+    return new URL(link).searchParams.get('cursor');
+  } catch {
+    return null;
+  }
+}
+
 export interface Project {
   id: number;
   team: string;
@@ -51,6 +123,9 @@ export interface Issue {
   is_resolved: boolean;
   is_resolved_by_next_release: boolean;
   is_muted: boolean;
+  fixed_at?: string[];
+  unmute_after?: string | null;
+  unmute_on_volume_based_conditions?: string;
 }
 
 export interface StackFrame {
@@ -64,23 +139,95 @@ export interface StackFrame {
   post_context?: string[];
 }
 
+export interface Stacktrace {
+  frames: StackFrame[];
+}
+
+/**
+ * How an exception was captured. In chained exceptions and exception groups,
+ * `exception_id` and `parent_id` link each exception to the one it caused.
+ */
+export interface ExceptionMechanism {
+  type?: string;
+  handled?: boolean;
+  description?: string;
+  source?: string;
+  exception_id?: number;
+  parent_id?: number;
+  is_exception_group?: boolean;
+}
+
 export interface ExceptionValue {
   type: string;
   value: string;
-  stacktrace?: {
-    frames: StackFrame[];
-  };
+  module?: string;
+  thread_id?: number | string;
+  mechanism?: ExceptionMechanism;
+  stacktrace?: Stacktrace;
+}
+
+export interface Breadcrumb {
+  /** ISO 8601 string or seconds since the epoch */
+  timestamp?: string | number;
+  type?: string;
+  category?: string;
+  level?: string;
+  message?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface Thread {
+  id?: number | string;
+  name?: string;
+  crashed?: boolean;
+  current?: boolean;
+  main?: boolean;
+  stacktrace?: Stacktrace;
+}
+
+export interface EventUser {
+  id?: string | number;
+  email?: string;
+  username?: string;
+  ip_address?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A message with its parameters, as sent by logging integrations
+ */
+export interface LogEntry {
+  message?: string;
+  formatted?: string;
+  params?: unknown[];
 }
 
 export interface EventData {
+  /** Exceptions of the chain, the root cause first and the raised exception last */
   exception?: {
     values?: ExceptionValue[];
   };
-  message?: string;
+  message?: string | LogEntry;
+  logentry?: LogEntry;
   level?: string;
   platform?: string;
+  release?: string;
+  dist?: string;
+  environment?: string;
+  server_name?: string;
+  transaction?: string;
+  fingerprint?: string[];
+  user?: EventUser;
+  /** Events recorded before the event, oldest first */
+  breadcrumbs?: {
+    values?: Breadcrumb[];
+  };
+  threads?: {
+    values?: Thread[];
+  };
   tags?: Record<string, string>;
   contexts?: Record<string, unknown>;
+  extra?: Record<string, unknown>;
   request?: {
     url?: string;
     method?: string;
@@ -149,111 +296,389 @@ export interface UpdateTeamInput {
   visibility?: 'joinable' | 'discoverable' | 'hidden';
 }
 
+export interface UpdateIssueStateInput {
+  is_resolved?: boolean;
+  is_resolved_by_next_release?: boolean;
+  fixed_at?: string[];
+  is_muted?: boolean;
+  unmute_after?: string | null;
+  unmute_on_volume_based_conditions?: string;
+}
+
+/**
+ * Unmute automatically once the issue receives `volume` events within
+ * `nr_of_periods` periods (e.g. 5 events in 1 day)
+ */
+export interface UnmuteVolumeCondition {
+  period: 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+  nr_of_periods: number;
+  volume: number;
+}
+
+export interface MuteIssueOptions {
+  /** ISO 8601 timestamp after which the issue is unmuted */
+  until?: string;
+  /** Event volume that unmutes the issue */
+  volume?: UnmuteVolumeCondition;
+}
+
 export interface CreateReleaseInput {
   project: number;
   version: string;
   timestamp?: string;
 }
 
+/**
+ * Build a query string from defined params, appending the page cursor if any.
+ */
+function buildQuery(
+  params: Record<string, string | number | undefined>,
+  page?: PageOptions
+): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') {
+      search.set(key, String(value));
+    }
+  }
+  if (page?.cursor) {
+    search.set('cursor', page.cursor);
+  }
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
+function issueQuery(projectId: number, options?: ListIssuesOptions): string {
+  return buildQuery(
+    {
+      project: projectId,
+      status: options?.status,
+      limit: options?.limit || undefined,
+      sort: options?.sort,
+      order: options?.order,
+    },
+    options
+  );
+}
+
+function eventQuery(issueId: string, options?: ListEventsOptions): string {
+  return buildQuery(
+    { issue: issueId, limit: options?.limit || undefined, order: options?.order },
+    options
+  );
+}
+
+/**
+ * Describe a request for error messages, e.g. "GET /api/canonical/0/issues/"
+ */
+function describeRequest(url: string, options: RequestInit = {}): string {
+  return `${(options.method ?? 'GET').toUpperCase()} ${new URL(url).pathname}`;
+}
+
+/**
+ * Classify a GET URL by the kind of resource it returns, to pick its cache TTL
+ */
+function cacheResource(url: string): CacheResource | null {
+  const match = /\/api\/canonical\/0\/(\w+)\/(?:([^/?]+)\/)?(stacktrace\/)?/.exec(new URL(url).pathname);
+  if (!match) return null;
+
+  const [, collection, id, stacktrace] = match;
+  switch (collection) {
+    case 'projects':
+    case 'teams':
+    case 'releases':
+      return collection;
+    case 'issues':
+      return id ? 'issues' : 'issue_lists';
+    case 'events':
+      return stacktrace ? 'stacktraces' : id ? 'events' : 'event_lists';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
 export class BugsinkClient {
   private baseUrl: string;
   private apiToken: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private limiter: RateLimiter;
+  private cache: ResponseCache;
+  private cassette: Cassette | null;
 
   constructor(config: BugsinkConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, '');
     this.apiToken = config.apiToken;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    this.limiter = new RateLimiter({
+      maxConcurrency: config.maxConcurrency,
+      requestsPerSecond: config.requestsPerSecond,
+    });
+    this.cache = new ResponseCache(config.cache);
+    this.cassette = config.cassette ? new Cassette(config.cassette) : null;
+  }
+
+  /**
+   * Hit/miss counters and entry counts of the response cache
+   */
+  cacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  /**
+   * Drop all cached responses so the next reads go to Bugsink
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Drop cached copies of issues known to have changed, and the issue listings
+   */
+  forgetIssues(issueIds: string[]): void {
+    this.invalidate(...issueIds.map((id) => `/issues/${id}/`), '/issues/?');
+  }
+
+  /**
+   * Perform an authenticated request with timeout, rate limiting and retries.
+   * Resolves only with a successful response; failures become typed errors.
+   */
+  private async request(url: string, options: RequestInit = {}): Promise<Response> {
+    const method = (options.method ?? 'GET').toUpperCase();
+    const context = describeRequest(url, options);
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.maxRetries;
+      let response: Response;
+
+      try {
+        response = await this.limiter.schedule(() =>
+          this.send(url, {
+            ...options,
+            headers: {
+              'Authorization': `Bearer ${this.apiToken}`,
+              ...options.headers,
+            },
+            signal: AbortSignal.timeout(this.timeoutMs),
+          })
+        );
+      } catch (error) {
+        // A request missing from the cassette will not be there on retry either
+        if (error instanceof BugsinkError) throw error;
+        if (canRetry && IDEMPOTENT_METHODS.has(method)) {
+          await sleep(this.backoffDelay(attempt));
+          continue;
+        }
+        throw this.networkError(error, context);
+      }
+
+      if (response.ok) {
+        return response;
+      }
+
+      const retryable =
+        response.status === 429 || (response.status >= 500 && IDEMPOTENT_METHODS.has(method));
+
+      if (retryable && canRetry) {
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+        await response.body?.cancel();
+        await sleep(Math.min(retryAfter ?? this.backoffDelay(attempt), MAX_RETRY_DELAY_MS));
+        continue;
+      }
+
+      throw errorForStatus(response.status, await response.text(), context);
+    }
+  }
+
+  /**
+   * Send a request over the network, or answer it from the cassette in replay mode
+   */
+  private async send(url: string, init: RequestInit): Promise<Response> {
+    if (this.cassette?.mode === 'replay') {
+      return this.cassette.replay(url, init);
+    }
+
+    const response = await fetch(url, init);
+    if (this.cassette) {
+      await this.cassette.record(url, init, response);
+    }
+    return response;
+  }
+
+  private backoffDelay(attempt: number): number {
+    const delay = this.retryBaseDelayMs * 2 ** attempt;
+    // Full jitter keeps parallel callers from retrying in lockstep
+    return Math.min(MAX_RETRY_DELAY_MS, delay / 2 + Math.random() * (delay / 2));
+  }
+
+  private networkError(error: unknown, context: string): BugsinkError {
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      return new BugsinkNetworkError(`Bugsink request timed out after ${this.timeoutMs}ms for ${context}`);
+    }
+    // fetch() wraps the underlying socket error (ECONNREFUSED, ENOTFOUND...) in `cause`
+    const cause = error instanceof Error ? error.cause : undefined;
+    const reason =
+      cause instanceof Error ? cause.message : error instanceof Error ? error.message : String(error);
+    return new BugsinkNetworkError(`Could not reach Bugsink for ${context}: ${reason}`, undefined, reason);
+  }
+
+  private async fetch<T>(endpoint: string, options: RequestInit = {}, useCache = true): Promise<T> {
+    return this.fetchUrl<T>(this.apiUrl(endpoint), options, useCache);
+  }
+
+  private apiUrl(endpoint: string): string {
+    return `${this.baseUrl}/api/canonical/0${endpoint}`;
   }
 
-  private async fetch<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const url = `${this.baseUrl}/api/canonical/0${endpoint}`;
+  /**
+   * Fetch and parse a JSON response. GET responses are served from and stored
+   * in the cache unless `useCache` is false.
+   */
+  private async fetchUrl<T>(url: string, options: RequestInit = {}, useCache = true): Promise<T> {
+    const resource = cacheResource(url);
+    if (useCache && resource && (options.method ?? 'GET').toUpperCase() === 'GET') {
+      return this.cache.getOrLoad(resource, url, () => this.fetchUrl<T>(url, options, false));
+    }
 
-    const response = await fetch(url, {
+    const response = await this.request(url, {
       ...options,
       headers: {
-        'Authorization': `Bearer ${this.apiToken}`,
         'Content-Type': 'application/json',
         ...options.headers,
       },
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Bugsink API error (${response.status}): ${errorText}`);
+    const context = describeRequest(url, options);
+    const body = await this.readBody(response, context);
+    try {
+      return JSON.parse(body) as T;
+    } catch {
+      throw new BugsinkServerError(`Bugsink returned a non-JSON response for ${context}`, response.status);
+    }
+  }
+
+  private async readBody(response: Response, context: string): Promise<string> {
+    try {
+      return await response.text();
+    } catch (error) {
+      throw this.networkError(error, context);
     }
+  }
 
-    return response.json() as Promise<T>;
+  /**
+   * Iterate over every item of a paginated endpoint, following `next` links
+   * until the listing is exhausted or `maxItems` have been yielded.
+   */
+  private async *paginate<T>(endpoint: string, options?: IterateOptions): AsyncGenerator<T> {
+    const maxItems = options?.maxItems ?? Infinity;
+    if (maxItems <= 0) return;
+
+    let yielded = 0;
+    const useCache = !options?.fresh;
+    let page = await this.fetchUrl<PaginatedResponse<T>>(this.apiUrl(endpoint), {}, useCache);
+
+    while (true) {
+      for (const item of page.results) {
+        yield item;
+        if (++yielded >= maxItems) return;
+      }
+      if (!page.next) return;
+      page = await this.fetchUrl<PaginatedResponse<T>>(page.next, {}, useCache);
+    }
   }
 
   /**
    * List all projects
    */
-  async listProjects(): Promise<PaginatedResponse<Project>> {
-    return this.fetch<PaginatedResponse<Project>>('/projects/');
+  async listProjects(options?: PageOptions): Promise<PaginatedResponse<Project>> {
+    return this.fetch<PaginatedResponse<Project>>(`/projects/${buildQuery({}, options)}`);
+  }
+
+  /**
+   * Iterate over all projects across pages
+   */
+  iterateProjects(options?: IterateOptions): AsyncGenerator<Project> {
+    return this.paginate<Project>('/projects/', options);
   }
 
   /**
    * Get a specific project by ID
    */
-  async getProject(projectId: number): Promise<Project> {
-    return this.fetch<Project>(`/projects/${projectId}/`);
+  async getProject(projectId: number, options?: ReadOptions): Promise<Project> {
+    return this.fetch<Project>(`/projects/${projectId}/`, {}, !options?.fresh);
   }
 
   /**
    * List all teams
    */
-  async listTeams(): Promise<PaginatedResponse<Team>> {
-    return this.fetch<PaginatedResponse<Team>>('/teams/');
+  async listTeams(options?: PageOptions): Promise<PaginatedResponse<Team>> {
+    return this.fetch<PaginatedResponse<Team>>(`/teams/${buildQuery({}, options)}`);
+  }
+
+  /**
+   * Iterate over all teams across pages
+   */
+  iterateTeams(options?: IterateOptions): AsyncGenerator<Team> {
+    return this.paginate<Team>('/teams/', options);
   }
 
   /**
    * List issues for a project
    */
-  async listIssues(projectId: number, options?: {
-    status?: string;
-    limit?: number;
-    sort?: 'digest_order' | 'last_seen';
-    order?: 'asc' | 'desc';
-  }): Promise<PaginatedResponse<Issue>> {
-    const params = new URLSearchParams();
-    params.set('project', projectId.toString());
-
-    if (options?.status) {
-      params.set('status', options.status);
-    }
-    if (options?.limit) {
-      params.set('limit', options.limit.toString());
-    }
-    if (options?.sort) {
-      params.set('sort', options.sort);
-    }
-    if (options?.order) {
-      params.set('order', options.order);
-    }
+  async listIssues(projectId: number, options?: ListIssuesOptions): Promise<PaginatedResponse<Issue>> {
+    return this.fetch<PaginatedResponse<Issue>>(`/issues/${issueQuery(projectId, options)}`);
+  }
 
-    return this.fetch<PaginatedResponse<Issue>>(`/issues/?${params.toString()}`);
+  /**
+   * Iterate over all issues for a project across pages
+   */
+  iterateIssues(
+    projectId: number,
+    options?: Omit<ListIssuesOptions, 'cursor'> & IterateOptions
+  ): AsyncGenerator<Issue> {
+    return this.paginate<Issue>(`/issues/${issueQuery(projectId, options)}`, options);
   }
 
   /**
    * Get a specific issue by ID
    */
-  async getIssue(issueId: string): Promise<Issue> {
-    return this.fetch<Issue>(`/issues/${issueId}/`);
+  async getIssue(issueId: string, options?: ReadOptions): Promise<Issue> {
+    return this.fetch<Issue>(`/issues/${issueId}/`, {}, !options?.fresh);
   }
 
   /**
    * List events for an issue
    */
-  async listEvents(issueId: string, options?: {
-    limit?: number;
-  }): Promise<PaginatedResponse<Event>> {
-    const params = new URLSearchParams();
-    params.set('issue', issueId);
-
-    if (options?.limit) {
-      params.set('limit', options.limit.toString());
-    }
+  async listEvents(issueId: string, options?: ListEventsOptions): Promise<PaginatedResponse<Event>> {
+    return this.fetch<PaginatedResponse<Event>>(`/events/${eventQuery(issueId, options)}`);
+  }
 
-    return this.fetch<PaginatedResponse<Event>>(`/events/?${params.toString()}`);
+  /**
+   * Iterate over all events for an issue across pages
+   */
+  iterateEvents(
+    issueId: string,
+    options?: Omit<ListEventsOptions, 'cursor'> & IterateOptions
+  ): AsyncGenerator<Event> {
+    return this.paginate<Event>(`/events/${eventQuery(issueId, options)}`, options);
   }
 
   /**
@@ -264,11 +689,11 @@ export class BugsinkClient {
   }
 
   /**
-   * Test connection to Bugsink instance
+   * Test connection to Bugsink instance, bypassing the cache
    */
   async testConnection(): Promise<{ success: boolean; message: string }> {
     try {
-      const projects = await this.listProjects();
+      const projects = await this.fetchUrl<PaginatedResponse<Project>>(this.apiUrl('/projects/'), {}, false);
       return {
         success: true,
         message: `Connected successfully. Found ${projects.results.length} project(s).`,
@@ -289,47 +714,125 @@ export class BugsinkClient {
    * Create a new project
    */
   async createProject(input: CreateProjectInput): Promise<Project> {
-    return this.fetch<Project>('/projects/', {
+    const project = await this.fetch<Project>('/projects/', {
       method: 'POST',
       body: JSON.stringify(input),
     });
+    this.invalidate('/projects/');
+    return project;
   }
 
   /**
    * Update an existing project
    */
   async updateProject(projectId: number, input: UpdateProjectInput): Promise<Project> {
-    return this.fetch<Project>(`/projects/${projectId}/`, {
+    const project = await this.fetch<Project>(`/projects/${projectId}/`, {
       method: 'PATCH',
       body: JSON.stringify(input),
     });
+    this.invalidate('/projects/');
+    return project;
   }
 
   /**
    * Get a specific team by ID
    */
-  async getTeam(teamId: string): Promise<Team> {
-    return this.fetch<Team>(`/teams/${teamId}/`);
+  async getTeam(teamId: string, options?: ReadOptions): Promise<Team> {
+    return this.fetch<Team>(`/teams/${teamId}/`, {}, !options?.fresh);
   }
 
   /**
    * Create a new team
    */
   async createTeam(input: CreateTeamInput): Promise<Team> {
-    return this.fetch<Team>('/teams/', {
+    const team = await this.fetch<Team>('/teams/', {
       method: 'POST',
       body: JSON.stringify(input),
     });
+    this.invalidate('/teams/');
+    return team;
   }
 
   /**
    * Update an existing team
    */
   async updateTeam(teamId: string, input: UpdateTeamInput): Promise<Team> {
-    return this.fetch<Team>(`/teams/${teamId}/`, {
+    const team = await this.fetch<Team>(`/teams/${teamId}/`, {
       method: 'PATCH',
       body: JSON.stringify(input),
     });
+    this.invalidate('/teams/');
+    return team;
+  }
+
+  // ============================================================================
+  // Issue State Methods
+  // ============================================================================
+
+  /**
+   * Update an issue's resolve/mute state
+   */
+  async updateIssueState(issueId: string, input: UpdateIssueStateInput): Promise<Issue> {
+    const issue = await this.fetch<Issue>(`/issues/${issueId}/`, {
+      method: 'PATCH',
+      body: JSON.stringify(input),
+    });
+    // Issue lists filter and sort on state, so they are stale as well
+    this.invalidate('/issues/');
+    return issue;
+  }
+
+  /**
+   * Resolve an issue, optionally as fixed in a named release
+   */
+  async resolveIssue(issueId: string, options?: { release?: string }): Promise<Issue> {
+    return this.updateIssueState(issueId, {
+      is_resolved: true,
+      is_resolved_by_next_release: false,
+      ...(options?.release ? { fixed_at: [options.release] } : {}),
+    });
+  }
+
+  /**
+   * Mark an issue as resolved by whichever release is created next
+   */
+  async resolveIssueByNextRelease(issueId: string): Promise<Issue> {
+    return this.updateIssueState(issueId, {
+      is_resolved: false,
+      is_resolved_by_next_release: true,
+    });
+  }
+
+  /**
+   * Mute an issue indefinitely, until a point in time, or until a volume threshold
+   */
+  async muteIssue(issueId: string, options?: MuteIssueOptions): Promise<Issue> {
+    return this.updateIssueState(issueId, {
+      is_muted: true,
+      unmute_after: options?.until ?? null,
+      unmute_on_volume_based_conditions: JSON.stringify(options?.volume ? [options.volume] : []),
+    });
+  }
+
+  /**
+   * Unmute an issue and clear any automatic unmute conditions
+   */
+  async unmuteIssue(issueId: string): Promise<Issue> {
+    return this.updateIssueState(issueId, {
+      is_muted: false,
+      unmute_after: null,
+      unmute_on_volume_based_conditions: '[]',
+    });
+  }
+
+  /**
+   * Reopen a resolved issue
+   */
+  async reopenIssue(issueId: string): Promise<Issue> {
+    return this.updateIssueState(issueId, {
+      is_resolved: false,
+      is_resolved_by_next_release: false,
+    });
   }
 
   // ============================================================================
@@ -340,20 +843,12 @@ export class BugsinkClient {
    * Get event stacktrace as pre-rendered Markdown
    */
   async getEventStacktrace(eventId: string): Promise<string> {
-    const url = `${this.baseUrl}/api/canonical/0/events/${eventId}/stacktrace/`;
+    const url = this.apiUrl(`/events/${eventId}/stacktrace/`);
 
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${this.apiToken}`,
-      },
+    return this.cache.getOrLoad('stacktraces', url, async () => {
+      const response = await this.request(url);
+      return this.readBody(response, describeRequest(url));
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Bugsink API error (${response.status}): ${errorText}`);
-    }
-
-    return response.text();
   }
 
   // ============================================================================
@@ -363,8 +858,17 @@ export class BugsinkClient {
   /**
    * List releases for a project
    */
-  async listReleases(projectId: number): Promise<PaginatedResponse<Release>> {
-    return this.fetch<PaginatedResponse<Release>>(`/releases/?project=${projectId}`);
+  async listReleases(projectId: number, options?: PageOptions): Promise<PaginatedResponse<Release>> {
+    return this.fetch<PaginatedResponse<Release>>(
+      `/releases/${buildQuery({ project: projectId }, options)}`
+    );
+  }
+
+  /**
+   * Iterate over all releases for a project across pages
+   */
+  iterateReleases(projectId: number, options?: IterateOptions): AsyncGenerator<Release> {
+    return this.paginate<Release>(`/releases/${buildQuery({ project: projectId })}`, options);
   }
 
   /**
@@ -378,9 +882,19 @@ export class BugsinkClient {
    * Create a new release
    */
   async createRelease(input: CreateReleaseInput): Promise<Release> {
-    return this.fetch<Release>('/releases/', {
+    const release = await this.fetch<Release>('/releases/', {
       method: 'POST',
       body: JSON.stringify(input),
     });
+    // Issues marked as resolved by the next release are resolved by this one
+    this.invalidate('/releases/', '/issues/');
+    return release;
+  }
+
+  /**
+   * Drop cached responses under the given endpoint prefixes after a mutation
+   */
+  private invalidate(...endpoints: string[]): void {
+    this.cache.invalidate(...endpoints.map((endpoint) => this.apiUrl(endpoint)));
   }
 }
@@ -0,0 +1,228 @@
+/**
+ * Bulk Triage
+ *
+ * Selects a project's issues with a field filter and applies one state
+ * change to all of them. Selection is previewed first: the preview returns a
+ * confirmation token derived from the exact selection, and the change is only
+ * applied when the same token comes back while the selection is unchanged.
+ */
+
+import { createHash } from 'node:crypto';
+import type { BugsinkClient, Issue } from './bugsink-client.js';
+import { parseTimeBound } from './time.js';
+
+export const BULK_ACTIONS = ['resolve', 'resolve_next_release', 'mute', 'unmute', 'reopen'] as const;
+
+export type BulkAction = (typeof BULK_ACTIONS)[number];
+
+export interface IssueFilter {
+  /** Exact match on the exception type, e.g. "ConnectionResetError" */
+  calculated_type?: string;
+  /** Case-insensitive substring of the exception value */
+  value_contains?: string;
+  /** Case-insensitive substring of the transaction */
+  transaction_contains?: string;
+  status?: 'unresolved' | 'resolved' | 'muted';
+  /** ISO 8601 timestamp or duration ("30d" = 30 days ago) */
+  last_seen_before?: string;
+  last_seen_after?: string;
+  first_seen_before?: string;
+  first_seen_after?: string;
+  min_events?: number;
+  max_events?: number;
+}
+
+export interface BulkActionOptions {
+  /** Release version for `resolve` */
+  release?: string;
+  /** ISO 8601 timestamp for `mute` */
+  until?: string;
+}
+
+export interface BulkSelection {
+  issues: Issue[];
+  /** True when more issues matched than `maxIssues` allowed */
+  truncated: boolean;
+  scanned: number;
+  token: string;
+}
+
+export interface BulkResult {
+  issue: Issue;
+  ok: boolean;
+  error?: string;
+}
+
+export const TIME_BOUNDS = [
+  'last_seen_before',
+  'last_seen_after',
+  'first_seen_before',
+  'first_seen_after',
+] as const;
+
+/**
+ * Check whether an issue matches every condition of a filter
+ */
+export function matchesFilter(issue: Issue, filter: IssueFilter, now: number = Date.now()): boolean {
+  if (filter.calculated_type && issue.calculated_type !== filter.calculated_type) {
+    return false;
+  }
+  if (filter.value_contains && !containsIgnoreCase(issue.calculated_value, filter.value_contains)) {
+    return false;
+  }
+  if (
+    filter.transaction_contains &&
+    !containsIgnoreCase(issue.transaction, filter.transaction_contains)
+  ) {
+    return false;
+  }
+  if (filter.status && issueStatus(issue) !== filter.status) {
+    return false;
+  }
+
+  const lastSeen = Date.parse(issue.last_seen);
+  const firstSeen = Date.parse(issue.first_seen);
+  if (filter.last_seen_before && !(lastSeen < parseTimeBound(filter.last_seen_before, now))) {
+    return false;
+  }
+  if (filter.last_seen_after && !(lastSeen >= parseTimeBound(filter.last_seen_after, now))) {
+    return false;
+  }
+  if (filter.first_seen_before && !(firstSeen < parseTimeBound(filter.first_seen_before, now))) {
+    return false;
+  }
+  if (filter.first_seen_after && !(firstSeen >= parseTimeBound(filter.first_seen_after, now))) {
+    return false;
+  }
+
+  if (filter.min_events !== undefined && issue.digested_event_count < filter.min_events) {
+    return false;
+  }
+  if (filter.max_events !== undefined && issue.digested_event_count > filter.max_events) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Scan a project's issues and select those matching the filter
+ */
+export async function selectIssues(
+  client: BugsinkClient,
+  projectId: number,
+  filter: IssueFilter,
+  action: BulkAction,
+  options: BulkActionOptions,
+  limits: { maxIssues: number; maxScan: number }
+): Promise<BulkSelection> {
+  // Resolve relative bounds once so the whole scan uses the same cutoffs,
+  // and reject invalid ones before scanning
+  const now = Date.now();
+  for (const bound of TIME_BOUNDS) {
+    const value = filter[bound];
+    if (value) parseTimeBound(value, now);
+  }
+
+  const issues: Issue[] = [];
+  let scanned = 0;
+  let truncated = false;
+
+  for await (const issue of client.iterateIssues(projectId, { maxItems: limits.maxScan })) {
+    scanned++;
+    if (!matchesFilter(issue, filter, now)) continue;
+    if (issues.length >= limits.maxIssues) {
+      truncated = true;
+      break;
+    }
+    issues.push(issue);
+  }
+
+  return {
+    issues,
+    truncated,
+    scanned,
+    token: confirmationToken(projectId, action, options, issues),
+  };
+}
+
+/**
+ * Derive the confirmation token for a selection. It changes whenever the
+ * action, its options or the set of selected issues change, so a stale
+ * preview can never be applied to a different set of issues.
+ */
+export function confirmationToken(
+  projectId: number,
+  action: BulkAction,
+  options: BulkActionOptions,
+  issues: Issue[]
+): string {
+  const payload = JSON.stringify({
+    projectId,
+    action,
+    release: options.release ?? null,
+    until: options.until ?? null,
+    issues: issues.map((issue) => issue.id).sort(),
+  });
+  return createHash('sha256').update(payload).digest('hex').slice(0, 16);
+}
+
+/**
+ * Apply an action to each selected issue, reporting progress after each one.
+ * Failures are collected per issue instead of aborting the run.
+ */
+export async function applyBulkAction(
+  client: BugsinkClient,
+  issues: Issue[],
+  action: BulkAction,
+  options: BulkActionOptions,
+  onProgress?: (done: number, total: number) => Promise<void>
+): Promise<BulkResult[]> {
+  const results: BulkResult[] = [];
+
+  for (const issue of issues) {
+    try {
+      const updated = await applyAction(client, issue.id, action, options);
+      results.push({ issue: updated, ok: true });
+    } catch (error) {
+      results.push({
+        issue,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    await onProgress?.(results.length, issues.length);
+  }
+
+  return results;
+}
+
+function applyAction(
+  client: BugsinkClient,
+  issueId: string,
+  action: BulkAction,
+  options: BulkActionOptions
+): Promise<Issue> {
+  switch (action) {
+    case 'resolve':
+      return client.resolveIssue(issueId, { release: options.release });
+    case 'resolve_next_release':
+      return client.resolveIssueByNextRelease(issueId);
+    case 'mute':
+      return client.muteIssue(issueId, { until: options.until });
+    case 'unmute':
+      return client.unmuteIssue(issueId);
+    case 'reopen':
+      return client.reopenIssue(issueId);
+  }
+}
+
+function issueStatus(issue: Issue): 'unresolved' | 'resolved' | 'muted' {
+  if (issue.is_resolved) return 'resolved';
+  if (issue.is_muted) return 'muted';
+  return 'unresolved';
+}
+
+function containsIgnoreCase(haystack: string | undefined, needle: string): boolean {
+  return (haystack ?? '').toLowerCase().includes(needle.toLowerCase());
+}
@@ -0,0 +1,257 @@
+/**
+ * Response Cache
+ *
+ * In-memory cache of GET responses with a TTL per kind of resource, so an
+ * investigation that reads the same issue, events and project list several
+ * times only hits Bugsink once. Optionally persisted to a JSON file so the
+ * cache survives restarts.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+export const CACHE_RESOURCES = [
+  'projects',
+  'teams',
+  'issues',
+  'issue_lists',
+  'events',
+  'event_lists',
+  'stacktraces',
+  'releases',
+] as const;
+
+export type CacheResource = (typeof CACHE_RESOURCES)[number];
+
+/**
+ * Default TTLs: events and their stacktraces never change once ingested,
+ * while issue state and listings move constantly
+ */
+export const DEFAULT_CACHE_TTLS_MS: Record<CacheResource, number> = {
+  projects: 300_000,
+  teams: 300_000,
+  issues: 30_000,
+  issue_lists: 15_000,
+  events: 86_400_000,
+  event_lists: 30_000,
+  stacktraces: 86_400_000,
+  releases: 60_000,
+};
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const PERSIST_DELAY_MS = 1000;
+
+export interface CacheOptions {
+  /** Cache responses at all (default: true) */
+  enabled?: boolean;
+  /** TTL overrides per resource in milliseconds; 0 disables caching of that resource */
+  ttlMs?: Partial<Record<CacheResource, number>>;
+  /** Maximum number of cached responses; the oldest are evicted first (default: 1000) */
+  maxEntries?: number;
+  /** JSON file to persist the cache to (default: memory only) */
+  file?: string;
+}
+
+interface CacheEntry {
+  resource: CacheResource;
+  expiresAt: number;
+  value: unknown;
+}
+
+export interface ResourceStats {
+  resource: CacheResource;
+  ttl_ms: number;
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  file: string | null;
+  entries: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+  resources: ResourceStats[];
+}
+
+export class ResponseCache {
+  private readonly enabled: boolean;
+  private readonly ttlMs: Record<CacheResource, number>;
+  private readonly maxEntries: number;
+  private readonly file: string | undefined;
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<unknown>>();
+  private hits = new Map<CacheResource, number>();
+  private misses = new Map<CacheResource, number>();
+  private invalidations = 0;
+  private persistTimer: NodeJS.Timeout | undefined;
+
+  constructor(options: CacheOptions = {}) {
+    this.enabled = options.enabled ?? true;
+    this.ttlMs = { ...DEFAULT_CACHE_TTLS_MS, ...options.ttlMs };
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    this.file = options.file;
+    if (this.enabled && this.file) this.load(this.file);
+  }
+
+  /**
+   * Return a cached value, or load, cache and return it. Concurrent misses
+   * for the same key share a single load. A load that an invalidation
+   * overtakes still answers its callers but is not cached, since it may have
+   * read the state from before the change.
+   */
+  async getOrLoad<T>(resource: CacheResource, key: string, load: () => Promise<T>): Promise<T> {
+    if (!this.enabled || this.ttlMs[resource] <= 0) {
+      return load();
+    }
+
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.count(this.hits, resource);
+      return entry.value as T;
+    }
+
+    const pending = this.pending.get(key);
+    if (pending) {
+      this.count(this.hits, resource);
+      return pending as Promise<T>;
+    }
+
+    this.count(this.misses, resource);
+    const loading: Promise<T> = load().then((value) => {
+      if (this.pending.get(key) === loading) this.set(resource, key, value);
+      return value;
+    });
+    this.pending.set(key, loading);
+    try {
+      return await loading;
+    } finally {
+      if (this.pending.get(key) === loading) this.pending.delete(key);
+    }
+  }
+
+  /**
+   * Drop every entry whose key starts with one of the prefixes, and detach
+   * loads in flight for those keys so their results are not cached
+   */
+  invalidate(...prefixes: string[]): void {
+    for (const key of this.pending.keys()) {
+      if (prefixes.some((prefix) => key.startsWith(prefix))) this.pending.delete(key);
+    }
+
+    let removed = 0;
+    for (const key of this.entries.keys()) {
+      if (prefixes.some((prefix) => key.startsWith(prefix))) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.invalidations += removed;
+      this.schedulePersist();
+    }
+  }
+
+  /**
+   * Drop all entries, keeping the hit/miss counters
+   */
+  clear(): void {
+    this.pending.clear();
+    this.invalidations += this.entries.size;
+    this.entries.clear();
+    this.schedulePersist();
+  }
+
+  stats(): CacheStats {
+    this.evictExpired();
+
+    const resources = CACHE_RESOURCES.map((resource) => ({
+      resource,
+      ttl_ms: this.ttlMs[resource],
+      entries: [...this.entries.values()].filter((entry) => entry.resource === resource).length,
+      hits: this.hits.get(resource) ?? 0,
+      misses: this.misses.get(resource) ?? 0,
+    }));
+
+    return {
+      enabled: this.enabled,
+      file: this.file ?? null,
+      entries: this.entries.size,
+      hits: resources.reduce((sum, r) => sum + r.hits, 0),
+      misses: resources.reduce((sum, r) => sum + r.misses, 0),
+      invalidations: this.invalidations,
+      resources,
+    };
+  }
+
+  private set(resource: CacheResource, key: string, value: unknown): void {
+    // Re-inserting moves the key to the end, so eviction order stays oldest-first
+    this.entries.delete(key);
+    this.entries.set(key, { resource, expiresAt: Date.now() + this.ttlMs[resource], value });
+
+    if (this.entries.size > this.maxEntries) {
+      this.evictExpired();
+      for (const oldest of this.entries.keys()) {
+        if (this.entries.size <= this.maxEntries) break;
+        this.entries.delete(oldest);
+      }
+    }
+    this.schedulePersist();
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+
+  private count(counter: Map<CacheResource, number>, resource: CacheResource): void {
+    counter.set(resource, (counter.get(resource) ?? 0) + 1);
+  }
+
+  /**
+   * Restore unexpired entries from the cache file; a missing or corrupt file starts empty
+   */
+  private load(file: string): void {
+    let stored: Record<string, CacheEntry>;
+    try {
+      stored = JSON.parse(readFileSync(file, 'utf8'));
+    } catch {
+      return;
+    }
+
+    const now = Date.now();
+    for (const [key, entry] of Object.entries(stored)) {
+      if (entry.expiresAt > now && (CACHE_RESOURCES as readonly string[]).includes(entry.resource)) {
+        this.entries.set(key, entry);
+      }
+    }
+  }
+
+  /**
+   * Write the cache file shortly after changes, batching bursts of writes
+   */
+  private schedulePersist(): void {
+    if (!this.file || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = undefined;
+      this.persist();
+    }, PERSIST_DELAY_MS);
+  }
+
+  private persist(): void {
+    if (!this.file) return;
+
+    this.evictExpired();
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(this.file, JSON.stringify(Object.fromEntries(this.entries)), { mode: 0o600 });
+    } catch (error) {
+      console.error(`Could not write cache file ${this.file}: ${(error as Error).message}`);
+    }
+  }
+}
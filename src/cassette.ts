@@ -0,0 +1,157 @@
+/**
+ * Cassettes
+ *
+ * Record-and-replay of Bugsink HTTP traffic, for offline development and
+ * deterministic tests. In record mode every response the client receives is
+ * appended to a JSONL cassette file along with its request; in replay mode
+ * requests are answered from the cassette without touching the network.
+ *
+ * Requests are matched by method, API path, query and body, never by host or
+ * by the path the instance is served under, so a cassette recorded against
+ * one instance replays against any base URL. When
+ * the same request was recorded several times (e.g. an issue read before and
+ * after resolving it), the responses are replayed in order and the last one
+ * is repeated. The API token is never written to a cassette; response bodies
+ * are stored as received, without redaction.
+ */
+
+import { appendFileSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { BugsinkError } from './errors.js';
+
+export const CASSETTE_MODES = ['record', 'replay'] as const;
+
+/** Root of the Bugsink API below the instance's base URL */
+const API_ROOT = '/api/canonical/0';
+
+export type CassetteMode = (typeof CASSETTE_MODES)[number];
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** JSONL file interactions are recorded to or replayed from */
+  file: string;
+}
+
+export interface Interaction {
+  request: {
+    method: string;
+    /** Path below the API root and query string, e.g. "/issues/?project=2" */
+    path: string;
+    body: string | null;
+  };
+  response: {
+    status: number;
+    content_type: string | null;
+    retry_after: string | null;
+    body: string;
+  };
+}
+
+export class Cassette {
+  /** Recorded interactions by request key, in recorded order */
+  private readonly recorded = new Map<string, Interaction[]>();
+  /** Number of times each request key has been replayed */
+  private readonly replayed = new Map<string, number>();
+
+  constructor(private options: CassetteOptions) {
+    if (options.mode === 'replay') {
+      for (const interaction of readInteractions(options.file)) {
+        const key = requestKey(interaction.request);
+        this.recorded.set(key, [...(this.recorded.get(key) ?? []), interaction]);
+      }
+    }
+  }
+
+  get mode(): CassetteMode {
+    return this.options.mode;
+  }
+
+  get file(): string {
+    return this.options.file;
+  }
+
+  /**
+   * Answer a request with its next recorded response
+   */
+  replay(url: string, init: RequestInit = {}): Response {
+    const request = describe(url, init);
+    const key = requestKey(request);
+    const interactions = this.recorded.get(key);
+    if (!interactions) {
+      const detail = `no recorded response for ${request.method} ${request.path}`;
+      throw new BugsinkError(
+        `Cassette ${this.options.file} has ${detail}; record it with BUGSINK_CASSETTE_MODE=record`,
+        undefined,
+        detail
+      );
+    }
+
+    const count = this.replayed.get(key) ?? 0;
+    this.replayed.set(key, count + 1);
+    const { response } = interactions[Math.min(count, interactions.length - 1)];
+
+    const headers = new Headers();
+    if (response.content_type) headers.set('content-type', response.content_type);
+    if (response.retry_after) headers.set('retry-after', response.retry_after);
+    // 204 and 304 responses cannot carry a body
+    const body = [204, 304].includes(response.status) ? null : response.body;
+    return new Response(body, { status: response.status, headers });
+  }
+
+  /**
+   * Append a request and the response it got to the cassette. Reads a copy
+   * of the response, so the caller can still consume it.
+   */
+  async record(url: string, init: RequestInit, response: Response): Promise<void> {
+    const interaction: Interaction = {
+      request: describe(url, init),
+      response: {
+        status: response.status,
+        content_type: response.headers.get('content-type'),
+        retry_after: response.headers.get('retry-after'),
+        body: await response.clone().text(),
+      },
+    };
+
+    mkdirSync(dirname(this.options.file), { recursive: true });
+    appendFileSync(this.options.file, `${JSON.stringify(interaction)}\n`);
+  }
+}
+
+function describe(url: string, init: RequestInit): Interaction['request'] {
+  const { pathname, search } = new URL(url);
+  // Drop the base URL's own path along with the API root
+  const root = pathname.indexOf(API_ROOT);
+  const path = root === -1 ? pathname : pathname.slice(root + API_ROOT.length);
+  return {
+    method: (init.method ?? 'GET').toUpperCase(),
+    path: `${path}${search}`,
+    body: typeof init.body === 'string' ? init.body : null,
+  };
+}
+
+function requestKey(request: Interaction['request']): string {
+  return `${request.method} ${request.path} ${request.body ?? ''}`;
+}
+
+function readInteractions(file: string): Interaction[] {
+  let content: string;
+  try {
+    content = readFileSync(file, 'utf8');
+  } catch (error) {
+    // A missing cassette replays nothing; every request reports what to record
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const interactions: Interaction[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      interactions.push(JSON.parse(line) as Interaction);
+    } catch {
+      // A partly written line (e.g. after a crash while recording) must not hide the rest
+    }
+  }
+  return interactions;
+}
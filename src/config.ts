@@ -0,0 +1,819 @@
+/**
+ * Server Configuration
+ *
+ * Loads the set of Bugsink instances to connect to, either from a JSON/YAML
+ * config file with named profiles or from the BUGSINK_URL/BUGSINK_TOKEN
+ * environment variables (a single instance named "default"), plus the
+ * transport settings from CLI flags, environment variables and the file.
+ *
+ * Example config file:
+ *
+ *   default: production
+ *   max_chars: 30000
+ *   instances:
+ *     production:
+ *       url: https://bugsink.example.com
+ *       token_env: BUGSINK_PROD_TOKEN
+ *       source_maps:
+ *         "3": ../frontend/dist
+ *       path_rewrites:
+ *         "4":
+ *           - from: /app/
+ *             to: ../backend
+ *       watch_projects: [3, 4]
+ *       read_only_projects: [4]
+ *     staging:
+ *       url: https://bugsink.staging.example.com
+ *       token: abc123
+ *   cache:
+ *     dir: /var/cache/bugsink-mcp
+ *     ttl_ms:
+ *       issue_lists: 5000
+ *   watch:
+ *     interval_ms: 30000
+ *   permissions:
+ *     deny_tools: [create_project, update_project]
+ *   audit:
+ *     file: ./bugsink-audit.jsonl
+ *   redaction:
+ *     keys: [ssn, phone]
+ *     patterns:
+ *       - name: customer_id
+ *         regex: "CUS-[0-9]{8}"
+ *   cassette:
+ *     mode: replay
+ *     dir: ./cassettes
+ */
+
+import { readFileSync } from 'node:fs';
+import { dirname, extname, join, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { BugsinkConfig } from './bugsink-client.js';
+import { DEFAULT_BUDGET, DETAIL_LEVELS, type DetailLevel, type OutputBudget } from './budget.js';
+import { CACHE_RESOURCES, type CacheOptions } from './cache.js';
+import { CASSETTE_MODES, type CassetteMode, type CassetteOptions } from './cassette.js';
+import { OUTPUT_FORMATS, type OutputFormat } from './formatters.js';
+import { isToolName } from './permissions.js';
+import type { PathRewrite } from './workspace.js';
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+const instanceSchema = z
+  .object({
+    url: z.string().url(),
+    token: z.string().min(1).optional(),
+    token_env: z.string().min(1).optional(),
+    timeout_ms: z.number().positive().optional(),
+    max_retries: z.number().int().min(0).optional(),
+    max_concurrency: z.number().int().positive().optional(),
+    requests_per_second: z.number().positive().optional(),
+    source_maps: z
+      .record(z.string().regex(/^\d+$/, 'source_maps keys must be project IDs'), z.string().min(1))
+      .optional(),
+    path_rewrites: z
+      .record(
+        z.string().regex(/^\d+$/, 'path_rewrites keys must be project IDs'),
+        z.array(z.object({ from: z.string().min(1), to: z.string().min(1) }).strict())
+      )
+      .optional(),
+    watch_projects: z.array(z.number().int().positive()).optional(),
+    allowed_projects: z.array(z.number().int().positive()).optional(),
+    read_only_projects: z.array(z.number().int().positive()).optional(),
+  })
+  .strict()
+  .refine((instance) => instance.token || instance.token_env, {
+    message: 'either token or token_env is required',
+  });
+
+const apiKeySchema = z
+  .object({
+    name: z.string().min(1),
+    key: z.string().min(1).optional(),
+    key_env: z.string().min(1).optional(),
+    instances: z.array(z.string()).nonempty().optional(),
+  })
+  .strict()
+  .refine((apiKey) => apiKey.key || apiKey.key_env, {
+    message: 'either key or key_env is required',
+  });
+
+const httpSchema = z
+  .object({
+    host: z.string().min(1).optional(),
+    port: z.number().int().min(0).max(65535).optional(),
+    api_keys: z.array(apiKeySchema).optional(),
+  })
+  .strict();
+
+const cacheSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    dir: z.string().min(1).optional(),
+    max_entries: z.number().int().positive().optional(),
+    ttl_ms: z.record(z.enum(CACHE_RESOURCES), z.number().min(0)).optional(),
+  })
+  .strict();
+
+const MIN_WATCH_INTERVAL_MS = 5_000;
+
+const watchSchema = z
+  .object({
+    interval_ms: z.number().int().min(MIN_WATCH_INTERVAL_MS).optional(),
+  })
+  .strict();
+
+const toolNameSchema = z
+  .string()
+  .refine(isToolName, (name) => ({ message: `unknown tool "${name}"` }));
+
+const permissionsSchema = z
+  .object({
+    read_only: z.boolean().optional(),
+    allow_tools: z.array(toolNameSchema).optional(),
+    deny_tools: z.array(toolNameSchema).optional(),
+  })
+  .strict();
+
+const auditSchema = z
+  .object({
+    file: z.string().min(1).optional(),
+  })
+  .strict();
+
+const redactionSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    keys: z.array(z.string().min(1)).optional(),
+    patterns: z
+      .array(
+        z
+          .object({
+            name: z
+              .string()
+              .regex(/^[A-Za-z0-9_-]+$/, 'pattern names may only contain letters, digits, _ and -'),
+            regex: z.string().min(1),
+          })
+          .strict()
+      )
+      .optional(),
+  })
+  .strict();
+
+const cassetteSchema = z
+  .object({
+    mode: z.enum(CASSETTE_MODES),
+    dir: z.string().min(1),
+  })
+  .strict();
+
+const configFileSchema = z
+  .object({
+    default: z.string().optional(),
+    output_format: z.enum(OUTPUT_FORMATS).optional(),
+    max_chars: z.number().int().min(0).optional(),
+    detail: z.enum(DETAIL_LEVELS).optional(),
+    cache: cacheSchema.optional(),
+    watch: watchSchema.optional(),
+    permissions: permissionsSchema.optional(),
+    audit: auditSchema.optional(),
+    redaction: redactionSchema.optional(),
+    cassette: cassetteSchema.optional(),
+    http: httpSchema.optional(),
+    instances: z
+      .record(
+        z.string().regex(/^[A-Za-z0-9_-]+$/, 'instance names may only contain letters, digits, _ and -'),
+        instanceSchema
+      )
+      .refine((instances) => Object.keys(instances).length > 0, {
+        message: 'at least one instance is required',
+      }),
+  })
+  .strict();
+
+export interface ApiKeyConfig {
+  name: string;
+  key: string;
+  /** Instances this key may use; all instances when omitted */
+  instances?: string[];
+}
+
+export interface HttpConfig {
+  host: string;
+  port: number;
+  apiKeys: ApiKeyConfig[];
+}
+
+export interface WatchConfig {
+  /** How often watched projects are polled */
+  intervalMs: number;
+  /** Watched project IDs by instance name; watch mode is off when empty */
+  projects: Record<string, number[]>;
+}
+
+export interface ProjectRestrictions {
+  /** The only projects that can be accessed; all projects when omitted */
+  allowed?: number[];
+  /** Projects that cannot be changed */
+  readOnly: number[];
+}
+
+export interface PermissionsConfig {
+  /** Leave out every tool that changes data in Bugsink */
+  readOnly: boolean;
+  /** Register only these tools; all tools when omitted */
+  allowTools?: string[];
+  /** Never register these tools */
+  denyTools: string[];
+  /** Project restrictions by instance name */
+  projects: Record<string, ProjectRestrictions>;
+}
+
+export interface RedactionPattern {
+  /** Shown in place of a match, as `[REDACTED:<name>]` */
+  name: string;
+  regex: string;
+}
+
+export interface RedactionConfig {
+  /** Redact event output; on by default */
+  enabled: boolean;
+  /** Key names whose values are redacted, in addition to the built-in ones */
+  keys: string[];
+  /** Patterns masked in string values, in addition to the built-in ones */
+  patterns: RedactionPattern[];
+}
+
+export interface ServerConfig {
+  defaultInstance: string;
+  instances: Record<string, BugsinkConfig>;
+  transport: 'stdio' | 'http';
+  http: HttpConfig;
+  /** Default representation of tool results, overridable per call */
+  outputFormat: OutputFormat;
+  /** Default size limit and detail level of event and list output, overridable per call */
+  budget: OutputBudget;
+  /** Source map directories by instance name, then project ID */
+  sourceMaps: Record<string, Record<string, string>>;
+  /** Rules mapping frame paths to a local checkout, by instance name, then project ID */
+  pathRewrites: Record<string, Record<string, PathRewrite[]>>;
+  watch: WatchConfig;
+  permissions: PermissionsConfig;
+  /** JSONL file mutating tool calls are recorded in; kept in memory when null */
+  auditLog: string | null;
+  redaction: RedactionConfig;
+  /** Where the configuration came from, for startup logging */
+  source: string;
+}
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_WATCH_INTERVAL_MS = 60_000;
+
+/**
+ * Read a CLI flag given as `--name <value>` or `--name=<value>`
+ */
+export function getFlag(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) return argv[i + 1];
+    if (argv[i].startsWith(`--${name}=`)) return argv[i].slice(name.length + 3);
+  }
+  return undefined;
+}
+
+/**
+ * Find the config file path from `--config <path>` or BUGSINK_CONFIG
+ */
+export function getConfigPath(argv: string[], env: NodeJS.ProcessEnv): string | undefined {
+  return getFlag(argv, 'config') ?? (env.BUGSINK_CONFIG || undefined);
+}
+
+/**
+ * Load the server configuration from a config file if one is given,
+ * otherwise from environment variables. Transport flags (`--http`,
+ * `--transport`, `--host`, `--port`), `--output-format` and `--read-only`
+ * override both, as do BUGSINK_MAX_CHARS and BUGSINK_DETAIL.
+ */
+export function loadConfig(argv: string[], env: NodeJS.ProcessEnv): ServerConfig {
+  const path = getConfigPath(argv, env);
+  const config = path ? loadConfigFile(path, env) : loadEnvConfig(env);
+
+  const transport = argv.includes('--http')
+    ? 'http'
+    : (getFlag(argv, 'transport') ?? env.BUGSINK_MCP_TRANSPORT ?? config.transport);
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new ConfigError(`Unknown transport "${transport}" (expected "stdio" or "http")`);
+  }
+
+  const outputFormat =
+    getFlag(argv, 'output-format') ?? (env.BUGSINK_OUTPUT_FORMAT || config.outputFormat);
+  if (!isOutputFormat(outputFormat)) {
+    throw new ConfigError(
+      `Unknown output format "${outputFormat}" (expected ${OUTPUT_FORMATS.map((f) => `"${f}"`).join(', ')})`
+    );
+  }
+
+  const detail = env.BUGSINK_DETAIL || config.budget.detail;
+  if (!isDetailLevel(detail)) {
+    throw new ConfigError(
+      `Unknown detail level "${detail}" (expected ${DETAIL_LEVELS.map((d) => `"${d}"`).join(', ')})`
+    );
+  }
+  const maxChars = numberFromEnv(env, 'BUGSINK_MAX_CHARS');
+
+  const port = getFlag(argv, 'port');
+  return {
+    ...config,
+    transport,
+    outputFormat,
+    budget: {
+      maxChars: maxChars === undefined ? config.budget.maxChars : Math.floor(maxChars) || null,
+      detail,
+    },
+    http: {
+      ...config.http,
+      host: getFlag(argv, 'host') ?? config.http.host,
+      port: port !== undefined ? parsePort(port, '--port') : config.http.port,
+    },
+    permissions: {
+      ...config.permissions,
+      readOnly: argv.includes('--read-only') || config.permissions.readOnly,
+    },
+  };
+}
+
+/**
+ * Read and validate a JSON or YAML config file
+ */
+export function loadConfigFile(path: string, env: NodeJS.ProcessEnv): ServerConfig {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${path}: ${(error as Error).message}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = extname(path).toLowerCase() === '.json' ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    throw new ConfigError(`Cannot parse config file ${path}: ${(error as Error).message}`);
+  }
+
+  const result = configFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const problems = result.error.issues
+      .map((issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new ConfigError(`Invalid config file ${path}:\n${problems}`);
+  }
+
+  const file = result.data;
+  const names = Object.keys(file.instances);
+  const defaultInstance = file.default ?? names[0];
+  if (!file.instances[defaultInstance]) {
+    throw new ConfigError(
+      `Invalid config file ${path}: default instance "${defaultInstance}" is not defined (available: ${names.join(', ')})`
+    );
+  }
+
+  const envCache = loadEnvCacheConfig(env);
+  const cache = {
+    enabled: envCache.enabled ?? file.cache?.enabled,
+    dir: envCache.dir ?? file.cache?.dir,
+    maxEntries: file.cache?.max_entries,
+    ttlMs: file.cache?.ttl_ms,
+  };
+  const cassette = loadEnvCassetteConfig(
+    env,
+    file.cassette && {
+      mode: file.cassette.mode,
+      dir: resolve(dirname(path), file.cassette.dir),
+    }
+  );
+
+  const instances: Record<string, BugsinkConfig> = {};
+  const sourceMaps: ServerConfig['sourceMaps'] = {};
+  const pathRewrites: ServerConfig['pathRewrites'] = {};
+  const watchProjects: WatchConfig['projects'] = {};
+  const projectRestrictions: PermissionsConfig['projects'] = {};
+  for (const [name, instance] of Object.entries(file.instances)) {
+    const apiToken = instance.token ?? env[instance.token_env!];
+    if (!apiToken) {
+      throw new ConfigError(
+        `Invalid config file ${path}: instance "${name}" reads its token from ${instance.token_env}, which is not set`
+      );
+    }
+
+    instances[name] = {
+      baseUrl: instance.url,
+      apiToken,
+      timeoutMs: instance.timeout_ms,
+      maxRetries: instance.max_retries,
+      maxConcurrency: instance.max_concurrency,
+      requestsPerSecond: instance.requests_per_second,
+      cache: instanceCache(name, cache),
+      cassette: instanceCassette(name, cassette),
+    };
+
+    // Relative source map and checkout directories are relative to the config file
+    sourceMaps[name] = Object.fromEntries(
+      Object.entries(instance.source_maps ?? {}).map(([project, dir]) => [
+        project,
+        resolve(dirname(path), dir),
+      ])
+    );
+    pathRewrites[name] = Object.fromEntries(
+      Object.entries(instance.path_rewrites ?? {}).map(([project, rules]) => [
+        project,
+        rules.map((rule) => ({ from: rule.from, to: resolve(dirname(path), rule.to) })),
+      ])
+    );
+    if (instance.watch_projects?.length) {
+      watchProjects[name] = instance.watch_projects;
+    }
+    if (instance.allowed_projects || instance.read_only_projects?.length) {
+      projectRestrictions[name] = {
+        allowed: instance.allowed_projects,
+        readOnly: instance.read_only_projects ?? [],
+      };
+    }
+  }
+
+  const apiKeys: ApiKeyConfig[] = [];
+  for (const apiKey of file.http?.api_keys ?? []) {
+    const key = apiKey.key ?? env[apiKey.key_env!];
+    if (!key) {
+      throw new ConfigError(
+        `Invalid config file ${path}: API key "${apiKey.name}" reads its key from ${apiKey.key_env}, which is not set`
+      );
+    }
+    const unknown = apiKey.instances?.filter((name) => !file.instances[name]) ?? [];
+    if (unknown.length > 0) {
+      throw new ConfigError(
+        `Invalid config file ${path}: API key "${apiKey.name}" refers to unknown instance(s) ${unknown.join(', ')}`
+      );
+    }
+    apiKeys.push({ name: apiKey.name, key, instances: apiKey.instances });
+  }
+
+  const envHttp = loadEnvHttpConfig(env);
+  const envPermissions = loadEnvPermissions(env);
+  return {
+    defaultInstance,
+    instances,
+    transport: 'stdio',
+    http: {
+      host: envHttp.host ?? file.http?.host ?? DEFAULT_HTTP_HOST,
+      port: envHttp.port ?? file.http?.port ?? DEFAULT_HTTP_PORT,
+      apiKeys: [...apiKeys, ...envHttp.apiKeys],
+    },
+    outputFormat: file.output_format ?? 'text',
+    budget: {
+      maxChars: file.max_chars === undefined ? DEFAULT_BUDGET.maxChars : file.max_chars || null,
+      detail: file.detail ?? DEFAULT_BUDGET.detail,
+    },
+    sourceMaps,
+    pathRewrites,
+    watch: {
+      intervalMs: watchIntervalFromEnv(env) ?? file.watch?.interval_ms ?? DEFAULT_WATCH_INTERVAL_MS,
+      projects: watchProjects,
+    },
+    permissions: {
+      readOnly: envPermissions.readOnly ?? file.permissions?.read_only ?? false,
+      allowTools: envPermissions.allowTools ?? file.permissions?.allow_tools,
+      denyTools: envPermissions.denyTools ?? file.permissions?.deny_tools ?? [],
+      projects: projectRestrictions,
+    },
+    auditLog: env.BUGSINK_AUDIT_LOG
+      ? resolve(env.BUGSINK_AUDIT_LOG)
+      : file.audit?.file
+        ? resolve(dirname(path), file.audit.file)
+        : null,
+    redaction: redactionConfig(
+      env,
+      file.redaction ?? {},
+      `Invalid config file ${path}: redaction pattern`
+    ),
+    source: path,
+  };
+}
+
+/**
+ * Build a single-instance configuration from BUGSINK_* environment variables
+ */
+export function loadEnvConfig(env: NodeJS.ProcessEnv): ServerConfig {
+  const baseUrl = env.BUGSINK_URL;
+  const apiToken = env.BUGSINK_TOKEN;
+
+  if (!baseUrl || !apiToken) {
+    throw new ConfigError(
+      'BUGSINK_URL and BUGSINK_TOKEN environment variables are required (or a config file via --config / BUGSINK_CONFIG)'
+    );
+  }
+
+  const envHttp = loadEnvHttpConfig(env);
+  const envPermissions = loadEnvPermissions(env);
+  const allowedProjects = env.BUGSINK_ALLOWED_PROJECTS
+    ? parseProjectIds('BUGSINK_ALLOWED_PROJECTS', env.BUGSINK_ALLOWED_PROJECTS)
+    : undefined;
+  const readOnlyProjects = parseProjectIds(
+    'BUGSINK_READ_ONLY_PROJECTS',
+    env.BUGSINK_READ_ONLY_PROJECTS
+  );
+  return {
+    defaultInstance: 'default',
+    instances: {
+      default: {
+        baseUrl,
+        apiToken,
+        timeoutMs: numberFromEnv(env, 'BUGSINK_TIMEOUT_MS', { positive: true }),
+        maxRetries: numberFromEnv(env, 'BUGSINK_MAX_RETRIES', { integer: true }),
+        maxConcurrency: numberFromEnv(env, 'BUGSINK_MAX_CONCURRENCY', {
+          positive: true,
+          integer: true,
+        }),
+        requestsPerSecond: numberFromEnv(env, 'BUGSINK_REQUESTS_PER_SECOND', { positive: true }),
+        cache: instanceCache('default', loadEnvCacheConfig(env)),
+        cassette: instanceCassette('default', loadEnvCassetteConfig(env)),
+      },
+    },
+    transport: 'stdio',
+    http: {
+      host: envHttp.host ?? DEFAULT_HTTP_HOST,
+      port: envHttp.port ?? DEFAULT_HTTP_PORT,
+      apiKeys: envHttp.apiKeys,
+    },
+    outputFormat: 'text',
+    budget: DEFAULT_BUDGET,
+    sourceMaps: { default: parseSourceMaps(env.BUGSINK_SOURCE_MAPS) },
+    pathRewrites: { default: parsePathRewrites(env.BUGSINK_PATH_REWRITES) },
+    watch: {
+      intervalMs: watchIntervalFromEnv(env) ?? DEFAULT_WATCH_INTERVAL_MS,
+      projects: parseWatchProjects(env.BUGSINK_WATCH_PROJECTS),
+    },
+    permissions: {
+      readOnly: envPermissions.readOnly ?? false,
+      allowTools: envPermissions.allowTools,
+      denyTools: envPermissions.denyTools ?? [],
+      projects:
+        allowedProjects || readOnlyProjects.length > 0
+          ? { default: { allowed: allowedProjects, readOnly: readOnlyProjects } }
+          : {},
+    },
+    auditLog: env.BUGSINK_AUDIT_LOG ? resolve(env.BUGSINK_AUDIT_LOG) : null,
+    redaction: redactionConfig(env, {}, 'Redaction pattern'),
+    source: 'environment',
+  };
+}
+
+/**
+ * Read HTTP transport settings from BUGSINK_MCP_* environment variables.
+ * BUGSINK_MCP_API_KEYS is a comma-separated list of keys with access to all instances.
+ */
+function loadEnvHttpConfig(env: NodeJS.ProcessEnv): {
+  host?: string;
+  port?: number;
+  apiKeys: ApiKeyConfig[];
+} {
+  const keys = (env.BUGSINK_MCP_API_KEYS ?? '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+
+  return {
+    host: env.BUGSINK_MCP_HOST || undefined,
+    port: env.BUGSINK_MCP_PORT ? parsePort(env.BUGSINK_MCP_PORT, 'BUGSINK_MCP_PORT') : undefined,
+    apiKeys: keys.map((key, i) => ({ name: `env-key-${i + 1}`, key })),
+  };
+}
+
+/**
+ * Parse BUGSINK_SOURCE_MAPS, a comma-separated list of `<project_id>=<directory>`
+ */
+function parseSourceMaps(value: string | undefined): Record<string, string> {
+  const sourceMaps: Record<string, string> = {};
+  for (const item of (value ?? '').split(',').map((entry) => entry.trim()).filter(Boolean)) {
+    const match = /^(\d+)=(.+)$/.exec(item);
+    if (!match) {
+      throw new ConfigError(`BUGSINK_SOURCE_MAPS entries must look like <project_id>=<directory>, got "${item}"`);
+    }
+    sourceMaps[match[1]] = resolve(match[2].trim());
+  }
+  return sourceMaps;
+}
+
+/**
+ * Parse BUGSINK_PATH_REWRITES, a comma-separated list of `<project_id>:<from>=<to>`
+ */
+function parsePathRewrites(value: string | undefined): Record<string, PathRewrite[]> {
+  const pathRewrites: Record<string, PathRewrite[]> = {};
+  for (const item of (value ?? '').split(',').map((entry) => entry.trim()).filter(Boolean)) {
+    const match = /^(\d+):([^=]+)=(.+)$/.exec(item);
+    if (!match) {
+      throw new ConfigError(`BUGSINK_PATH_REWRITES entries must look like <project_id>:<from>=<to>, got "${item}"`);
+    }
+    (pathRewrites[match[1]] ??= []).push({ from: match[2], to: resolve(match[3].trim()) });
+  }
+  return pathRewrites;
+}
+
+/**
+ * Parse BUGSINK_WATCH_PROJECTS, a comma-separated list of project IDs to watch
+ */
+function parseWatchProjects(value: string | undefined): WatchConfig['projects'] {
+  const ids = parseProjectIds('BUGSINK_WATCH_PROJECTS', value);
+  return ids.length > 0 ? { default: ids } : {};
+}
+
+/**
+ * Parse a comma-separated list of project IDs from an environment variable
+ */
+function parseProjectIds(name: string, value: string | undefined): number[] {
+  const ids = (value ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+  for (const id of ids) {
+    if (!/^\d+$/.test(id)) {
+      throw new ConfigError(`${name} must be a comma-separated list of project IDs, got "${id}"`);
+    }
+  }
+  return ids.map(Number);
+}
+
+/**
+ * Read BUGSINK_READ_ONLY and the comma-separated BUGSINK_ALLOW_TOOLS and
+ * BUGSINK_DENY_TOOLS, rejecting names that are not tools: a misspelled deny
+ * entry would otherwise leave the tool enabled
+ */
+function loadEnvPermissions(env: NodeJS.ProcessEnv): {
+  readOnly?: boolean;
+  allowTools?: string[];
+  denyTools?: string[];
+} {
+  const setting = env.BUGSINK_READ_ONLY?.trim().toLowerCase();
+  const toolList = (name: string) => {
+    const tools = env[name]
+      ?.split(',')
+      .map((tool) => tool.trim())
+      .filter(Boolean);
+    const unknown = tools?.filter((tool) => !isToolName(tool)) ?? [];
+    if (unknown.length > 0) {
+      throw new ConfigError(`${name} names unknown tool(s): ${unknown.join(', ')}`);
+    }
+    return tools?.length ? tools : undefined;
+  };
+
+  return {
+    readOnly: setting ? ['on', 'true', '1', 'yes'].includes(setting) : undefined,
+    allowTools: toolList('BUGSINK_ALLOW_TOOLS'),
+    denyTools: toolList('BUGSINK_DENY_TOOLS'),
+  };
+}
+
+/**
+ * Combine the redaction settings of the config file with BUGSINK_REDACT (set
+ * to "off" to disable) and the comma-separated BUGSINK_REDACT_KEYS, checking
+ * that every pattern compiles
+ */
+function redactionConfig(
+  env: NodeJS.ProcessEnv,
+  file: z.infer<typeof redactionSchema>,
+  context: string
+): RedactionConfig {
+  const setting = env.BUGSINK_REDACT?.trim().toLowerCase();
+  const envKeys = (env.BUGSINK_REDACT_KEYS ?? '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+  const patterns = file.patterns ?? [];
+
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern.regex, 'g');
+    } catch (error) {
+      throw new ConfigError(
+        `${context} "${pattern.name}" is not a valid regex: ${(error as Error).message}`
+      );
+    }
+  }
+
+  return {
+    enabled: setting ? !['off', 'false', '0', 'no'].includes(setting) : (file.enabled ?? true),
+    keys: [...(file.keys ?? []), ...envKeys],
+    patterns,
+  };
+}
+
+/**
+ * Read the polling interval of watch mode from BUGSINK_WATCH_INTERVAL_MS
+ */
+function watchIntervalFromEnv(env: NodeJS.ProcessEnv): number | undefined {
+  const interval = numberFromEnv(env, 'BUGSINK_WATCH_INTERVAL_MS');
+  if (interval !== undefined && interval < MIN_WATCH_INTERVAL_MS) {
+    throw new ConfigError(`BUGSINK_WATCH_INTERVAL_MS must be at least ${MIN_WATCH_INTERVAL_MS}, got "${interval}"`);
+  }
+  return interval;
+}
+
+/**
+ * Read cache settings from BUGSINK_CACHE (set to "off" to disable) and BUGSINK_CACHE_DIR
+ */
+function loadEnvCacheConfig(env: NodeJS.ProcessEnv): { enabled?: boolean; dir?: string } {
+  const setting = env.BUGSINK_CACHE?.trim().toLowerCase();
+  return {
+    enabled: setting ? !['off', 'false', '0', 'no'].includes(setting) : undefined,
+    dir: env.BUGSINK_CACHE_DIR || undefined,
+  };
+}
+
+/**
+ * Cache options for one instance; each instance persists to its own file in the cache directory
+ */
+function instanceCache(
+  name: string,
+  { dir, ...options }: Omit<CacheOptions, 'file'> & { dir?: string }
+): CacheOptions {
+  return { ...options, file: dir ? join(dir, `${name}.json`) : undefined };
+}
+
+/**
+ * Read cassette settings from BUGSINK_CASSETTE_MODE ("record", "replay" or
+ * "off") and BUGSINK_CASSETTE_DIR, each overriding the config file's
+ */
+function loadEnvCassetteConfig(
+  env: NodeJS.ProcessEnv,
+  file?: { mode: CassetteMode; dir: string }
+): { mode: CassetteMode; dir: string } | undefined {
+  const mode = env.BUGSINK_CASSETTE_MODE?.trim().toLowerCase() || file?.mode;
+  if (!mode || mode === 'off') return undefined;
+  if (!isCassetteMode(mode)) {
+    throw new ConfigError(
+      `Unknown cassette mode "${mode}" (expected ${[...CASSETTE_MODES, 'off'].map((m) => `"${m}"`).join(', ')})`
+    );
+  }
+
+  const dir = env.BUGSINK_CASSETTE_DIR ? resolve(env.BUGSINK_CASSETTE_DIR) : file?.dir;
+  if (!dir) {
+    throw new ConfigError('BUGSINK_CASSETTE_DIR is required when BUGSINK_CASSETTE_MODE is set');
+  }
+  return { mode, dir };
+}
+
+/**
+ * Cassette options for one instance; each instance records to its own file in the cassette directory
+ */
+function instanceCassette(
+  name: string,
+  cassette: { mode: CassetteMode; dir: string } | undefined
+): CassetteOptions | undefined {
+  return cassette && { mode: cassette.mode, file: join(cassette.dir, `${name}.jsonl`) };
+}
+
+function isCassetteMode(value: string): value is CassetteMode {
+  return (CASSETTE_MODES as readonly string[]).includes(value);
+}
+
+function isDetailLevel(value: string): value is DetailLevel {
+  return (DETAIL_LEVELS as readonly string[]).includes(value);
+}
+
+function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+function parsePort(value: string, name: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ConfigError(`${name} must be a port number, got "${value}"`);
+  }
+  return port;
+}
+
+/**
+ * Read an optional non-negative numeric environment variable; with `positive`
+ * zero is rejected too, and with `integer` fractions are
+ */
+export function numberFromEnv(
+  env: NodeJS.ProcessEnv,
+  name: string,
+  { positive = false, integer = false }: { positive?: boolean; integer?: boolean } = {}
+): number | undefined {
+  const value = env[name];
+  if (value === undefined || value === '') return undefined;
+
+  const parsed = Number(value);
+  if (
+    !Number.isFinite(parsed) ||
+    parsed < 0 ||
+    (positive && parsed === 0) ||
+    (integer && !Number.isInteger(parsed))
+  ) {
+    const kind = `${positive ? 'positive' : 'non-negative'} ${integer ? 'integer' : 'number'}`;
+    throw new ConfigError(`${name} must be a ${kind}, got "${value}"`);
+  }
+  return parsed;
+}
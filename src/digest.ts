@@ -0,0 +1,194 @@
+/**
+ * Digest Report
+ *
+ * Summarizes a set of projects over a time window: new issues, the issues
+ * with the most events, regressions, muted issues that are noisy again and
+ * releases created. Built only from the project, issue, event and release
+ * listings, so it can run unattended (e.g. from cron via `bugsink-mcp digest`).
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import type { BugsinkClient, Issue, Project, Release } from './bugsink-client.js';
+import { wasFixed } from './release-report.js';
+
+/** Defaults shared by the generate_digest tool and the `digest` CLI command */
+export const DIGEST_DEFAULTS = {
+  since: '24h',
+  top: 10,
+  maxIssues: 200,
+  maxEventsPerIssue: 1000,
+};
+
+export interface DigestOptions {
+  /** Projects to include (default: all) */
+  projectIds?: number[];
+  /** Start of the window, epoch milliseconds; the window ends now */
+  since: number;
+  /** Maximum number of issues listed per section */
+  top: number;
+  /** Maximum number of issues seen in the window that are examined per project */
+  maxIssues: number;
+  /** Maximum number of events counted per issue */
+  maxEventsPerIssue: number;
+}
+
+export interface DigestIssue {
+  id: string;
+  calculated_type: string;
+  calculated_value: string;
+  is_resolved: boolean;
+  is_resolved_by_next_release: boolean;
+  is_muted: boolean;
+  fixed_at?: string[];
+  unmute_after?: string | null;
+  first_seen: string;
+  last_seen: string;
+  digested_event_count: number;
+  /** Events within the window (a lower bound when the count was capped) */
+  window_events: number;
+}
+
+export interface ProjectDigest {
+  id: number;
+  name: string;
+  /** Issues seen within the window */
+  active: number;
+  /** Section sizes before limiting each section to the top issues */
+  counts: { new_issues: number; regressions: number; noisy_muted: number };
+  new_issues: DigestIssue[];
+  top_issues: DigestIssue[];
+  regressions: DigestIssue[];
+  noisy_muted: DigestIssue[];
+  releases: Release[];
+  /** More issues were seen in the window than were examined, or event counts were capped */
+  truncated: boolean;
+}
+
+export interface Digest {
+  since: string;
+  until: string;
+  projects: ProjectDigest[];
+}
+
+/**
+ * Build the digest for the selected projects
+ */
+export async function buildDigest(client: BugsinkClient, options: DigestOptions): Promise<Digest> {
+  const until = Date.now();
+  const projects: Project[] = [];
+  for await (const project of client.iterateProjects()) {
+    if (!options.projectIds || options.projectIds.includes(project.id)) projects.push(project);
+  }
+
+  return {
+    since: new Date(options.since).toISOString(),
+    until: new Date(until).toISOString(),
+    projects: await Promise.all(projects.map((project) => projectDigest(client, project, options))),
+  };
+}
+
+async function projectDigest(
+  client: BugsinkClient,
+  project: Project,
+  options: DigestOptions
+): Promise<ProjectDigest> {
+  const issues: Issue[] = [];
+  let truncated = false;
+  for await (const issue of client.iterateIssues(project.id, {
+    sort: 'last_seen',
+    order: 'desc',
+  })) {
+    // Sorted by last seen: the remaining issues were not seen in the window
+    if (Date.parse(issue.last_seen) < options.since) break;
+    if (issues.length >= options.maxIssues) {
+      truncated = true;
+      break;
+    }
+    issues.push(issue);
+  }
+
+  const active = await Promise.all(
+    issues.map(async (issue) => {
+      const { count, capped } = await countWindowEvents(client, issue.id, options);
+      truncated ||= capped;
+      return { ...summarize(issue), window_events: count };
+    })
+  );
+
+  const byEvents = (a: DigestIssue, b: DigestIssue) =>
+    b.window_events - a.window_events || b.last_seen.localeCompare(a.last_seen);
+  const isNew = (issue: DigestIssue) => Date.parse(issue.first_seen) >= options.since;
+
+  const newIssues = active.filter(isNew).sort(byEvents);
+  const regressions = active.filter((issue) => !isNew(issue) && wasFixed(issue)).sort(byEvents);
+  const noisyMuted = active
+    .filter((issue) => issue.is_muted && issue.window_events > 0)
+    .sort(byEvents);
+
+  const releases: Release[] = [];
+  for await (const release of client.iterateReleases(project.id)) {
+    if (Date.parse(release.date_released) >= options.since) releases.push(release);
+  }
+  releases.sort((a, b) => a.date_released.localeCompare(b.date_released));
+
+  return {
+    id: project.id,
+    name: project.name,
+    active: active.length,
+    counts: {
+      new_issues: newIssues.length,
+      regressions: regressions.length,
+      noisy_muted: noisyMuted.length,
+    },
+    new_issues: newIssues.slice(0, options.top),
+    top_issues: [...active].sort(byEvents).slice(0, options.top),
+    regressions: regressions.slice(0, options.top),
+    noisy_muted: noisyMuted.slice(0, options.top),
+    releases,
+    truncated,
+  };
+}
+
+/**
+ * Count an issue's events since the start of the window, newest first
+ */
+async function countWindowEvents(
+  client: BugsinkClient,
+  issueId: string,
+  options: DigestOptions
+): Promise<{ count: number; capped: boolean }> {
+  let count = 0;
+  for await (const event of client.iterateEvents(issueId, { order: 'desc' })) {
+    if (Date.parse(event.timestamp) < options.since) break;
+    if (count >= options.maxEventsPerIssue) return { count, capped: true };
+    count++;
+  }
+  return { count, capped: false };
+}
+
+function summarize(issue: Issue): Omit<DigestIssue, 'window_events'> {
+  return {
+    id: issue.id,
+    calculated_type: issue.calculated_type,
+    calculated_value: issue.calculated_value,
+    is_resolved: issue.is_resolved,
+    is_resolved_by_next_release: issue.is_resolved_by_next_release,
+    is_muted: issue.is_muted,
+    fixed_at: issue.fixed_at,
+    unmute_after: issue.unmute_after,
+    first_seen: issue.first_seen,
+    last_seen: issue.last_seen,
+    digested_event_count: issue.digested_event_count,
+  };
+}
+
+/**
+ * Write a report to a file, creating its directory. Returns the absolute path.
+ */
+export function writeReport(path: string, content: string): string {
+  const absolute = resolve(path);
+  mkdirSync(dirname(absolute), { recursive: true });
+  writeFileSync(absolute, content.endsWith('\n') ? content : `${content}\n`);
+  return absolute;
+}
@@ -0,0 +1,94 @@
+/**
+ * Bugsink API Errors
+ *
+ * Typed errors raised by BugsinkClient, so callers can tell an expired token
+ * from a missing issue or an unreachable instance without parsing messages.
+ */
+
+const MAX_DETAIL_LENGTH = 200;
+
+export class BugsinkError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly detail?: string
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** 401/403: the token is missing, invalid or lacks permission */
+export class BugsinkAuthError extends BugsinkError {}
+
+/** 404: the requested object does not exist (or is not visible to the token) */
+export class BugsinkNotFoundError extends BugsinkError {}
+
+/** 400/422: the request was rejected because of its input */
+export class BugsinkValidationError extends BugsinkError {}
+
+/** 429: the instance kept rate limiting after all retries */
+export class BugsinkRateLimitError extends BugsinkError {}
+
+/** 5xx: the instance (or a proxy in front of it) failed */
+export class BugsinkServerError extends BugsinkError {}
+
+/** The request never got a response: DNS, connection or timeout failure */
+export class BugsinkNetworkError extends BugsinkError {}
+
+/** The server's permission policy does not allow the call */
+export class BugsinkPolicyError extends BugsinkError {}
+
+/**
+ * Reduce an error response body to a short, single-line detail.
+ * JSON bodies contribute their `detail` or field errors; HTML error pages
+ * (typically from a reverse proxy) are reduced to their title.
+ */
+export function summarizeErrorBody(body: string): string {
+  const trimmed = body.trim();
+  if (!trimmed) return '';
+
+  let summary: string;
+  try {
+    const parsed: unknown = JSON.parse(trimmed);
+    summary = summarizeJson(parsed);
+  } catch {
+    if (/^<(!doctype|html)/i.test(trimmed)) {
+      const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(trimmed)?.[1];
+      summary = title ? title.trim() : 'HTML error page';
+    } else {
+      summary = trimmed;
+    }
+  }
+
+  summary = summary.replace(/\s+/g, ' ');
+  return summary.length > MAX_DETAIL_LENGTH ? `${summary.slice(0, MAX_DETAIL_LENGTH)}…` : summary;
+}
+
+function summarizeJson(parsed: unknown): string {
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    const record = parsed as Record<string, unknown>;
+    if (typeof record.detail === 'string') {
+      return record.detail;
+    }
+    return Object.entries(record)
+      .map(([field, value]) => `${field}: ${Array.isArray(value) ? value.join(', ') : String(value)}`)
+      .join('; ');
+  }
+  return JSON.stringify(parsed);
+}
+
+/**
+ * Create the typed error matching an HTTP error status
+ */
+export function errorForStatus(status: number, body: string, context: string): BugsinkError {
+  const detail = summarizeErrorBody(body);
+  const message = `Bugsink API error (${status}) for ${context}${detail ? `: ${detail}` : ''}`;
+
+  if (status === 401 || status === 403) return new BugsinkAuthError(message, status, detail);
+  if (status === 404) return new BugsinkNotFoundError(message, status, detail);
+  if (status === 429) return new BugsinkRateLimitError(message, status, detail);
+  if (status >= 500) return new BugsinkServerError(message, status, detail);
+  if (status >= 400 && status < 500) return new BugsinkValidationError(message, status, detail);
+  return new BugsinkError(message, status, detail);
+}
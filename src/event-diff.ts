@@ -0,0 +1,161 @@
+/**
+ * Event Diff
+ *
+ * Compares two events field by field (tags, contexts, request, browser, OS,
+ * exceptions) and frame by frame, so it is clear how one occurrence of an
+ * issue differs from another without reading two full event dumps.
+ */
+
+import type { Event, EventData, StackFrame } from './bugsink-client.js';
+
+export interface FieldChange {
+  /** Dotted path of the field, e.g. `tags.browser` or `exception[0].value` */
+  field: string;
+  /** Value in event A; null when the field is absent */
+  a: string | null;
+  /** Value in event B; null when the field is absent */
+  b: string | null;
+}
+
+export interface FrameChange {
+  change: 'added' | 'removed' | 'moved';
+  /** Index of the exception in the chain the frame belongs to */
+  exception: number;
+  filename: string;
+  function: string;
+  lineno_a: number | null;
+  lineno_b: number | null;
+}
+
+export interface EventDiff {
+  event_a: string;
+  event_b: string;
+  same_issue: boolean;
+  fields: FieldChange[];
+  frames: FrameChange[];
+}
+
+/**
+ * Diff two events. Frames are matched by file and function, so a frame that
+ * only moved to another line is reported as moved rather than added and removed.
+ */
+export function diffEvents(a: Event, b: Event): EventDiff {
+  const fieldsA = flattenEvent(a.data);
+  const fieldsB = flattenEvent(b.data);
+  const fields: FieldChange[] = [];
+
+  for (const field of new Set([...fieldsA.keys(), ...fieldsB.keys()])) {
+    const valueA = fieldsA.get(field) ?? null;
+    const valueB = fieldsB.get(field) ?? null;
+    if (valueA !== valueB) fields.push({ field, a: valueA, b: valueB });
+  }
+
+  const exceptionsA = a.data?.exception?.values ?? [];
+  const exceptionsB = b.data?.exception?.values ?? [];
+  const frames: FrameChange[] = [];
+  for (let i = 0; i < Math.max(exceptionsA.length, exceptionsB.length); i++) {
+    frames.push(
+      ...diffFrames(
+        i,
+        exceptionsA[i]?.stacktrace?.frames ?? [],
+        exceptionsB[i]?.stacktrace?.frames ?? []
+      )
+    );
+  }
+
+  return {
+    event_a: a.id,
+    event_b: b.id,
+    same_issue: a.issue === b.issue,
+    fields,
+    frames,
+  };
+}
+
+/**
+ * Flatten the compared parts of an event into dotted field paths with string values
+ */
+function flattenEvent(data: EventData | undefined): Map<string, string> {
+  const fields = new Map<string, string>();
+  if (!data) return fields;
+
+  const set = (field: string, value: unknown) => {
+    if (value === undefined || value === null || value === '') return;
+    fields.set(field, typeof value === 'string' ? value : JSON.stringify(value));
+  };
+
+  set('level', data.level);
+  set('platform', data.platform);
+  set('message', data.message);
+  set('request.method', data.request?.method);
+  set('request.url', data.request?.url);
+  set('browser', [data.browser?.name, data.browser?.version].filter(Boolean).join(' '));
+  set('os', [data.os?.name, data.os?.version].filter(Boolean).join(' '));
+
+  for (const [key, value] of Object.entries(data.tags ?? {})) {
+    set(`tags.${key}`, value);
+  }
+
+  // Contexts are objects of objects (e.g. contexts.os.name); compare their leaf fields
+  for (const [name, context] of Object.entries(data.contexts ?? {})) {
+    if (context && typeof context === 'object' && !Array.isArray(context)) {
+      for (const [key, value] of Object.entries(context)) {
+        set(`contexts.${name}.${key}`, value);
+      }
+    } else {
+      set(`contexts.${name}`, context);
+    }
+  }
+
+  (data.exception?.values ?? []).forEach((exc, i) => {
+    set(`exception[${i}].type`, exc.type);
+    set(`exception[${i}].value`, exc.value);
+  });
+
+  return fields;
+}
+
+function frameKey(frame: StackFrame): string {
+  return `${frame.filename}\u0000${frame.function}`;
+}
+
+/**
+ * Match frames by file and function, pairing repeated frames (e.g. recursion) in order
+ */
+function diffFrames(
+  exception: number,
+  framesA: StackFrame[],
+  framesB: StackFrame[]
+): FrameChange[] {
+  const unmatchedB = new Map<string, StackFrame[]>();
+  for (const frame of framesB) {
+    const key = frameKey(frame);
+    unmatchedB.set(key, [...(unmatchedB.get(key) ?? []), frame]);
+  }
+
+  const changes: FrameChange[] = [];
+  const change = (kind: FrameChange['change'], frame: StackFrame, a?: StackFrame, b?: StackFrame) =>
+    changes.push({
+      change: kind,
+      exception,
+      filename: frame.filename,
+      function: frame.function,
+      lineno_a: a?.lineno ?? null,
+      lineno_b: b?.lineno ?? null,
+    });
+
+  for (const frameA of framesA) {
+    const frameB = unmatchedB.get(frameKey(frameA))?.shift();
+    if (!frameB) {
+      change('removed', frameA, frameA);
+    } else if (frameA.lineno !== frameB.lineno) {
+      change('moved', frameA, frameA, frameB);
+    }
+  }
+
+  for (const frames of unmatchedB.values()) {
+    for (const frameB of frames) change('added', frameB, undefined, frameB);
+  }
+
+  return changes;
+}
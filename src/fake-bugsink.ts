@@ -0,0 +1,412 @@
+#!/usr/bin/env node
+
+/**
+ * Fake Bugsink Server
+ *
+ * An HTTP server implementing the `/api/canonical/0/` endpoints BugsinkClient
+ * uses, backed by fixture data held in memory, so every tool can be tried end
+ * to end without a Bugsink instance. Listings are cursor-paginated, issue
+ * state changes and created projects, teams and releases are kept until the
+ * server stops, and creating a release resolves the project's issues marked
+ * as resolved by the next release, as Bugsink does.
+ *
+ * Run it with `bugsink-fake-server [--port 8000] [--host 127.0.0.1]
+ * [--token <token>] [--fixtures fixtures.json]`, then point BUGSINK_URL at it.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { realpathSync } from 'node:fs';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { pathToFileURL } from 'node:url';
+import type { Issue, Project, Release, Team } from './bugsink-client.js';
+import { getFlag } from './config.js';
+import { defaultFixtures, loadFixtures, type Fixtures } from './fixtures.js';
+import { formatStacktrace } from './formatters.js';
+
+const API_PREFIX = '/api/canonical/0';
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 250;
+
+// Fields a PATCH (or a create) may set
+const PROJECT_FIELDS = [
+  'name',
+  'visibility',
+  'alert_on_new_issue',
+  'alert_on_regression',
+  'alert_on_unmute',
+  'retention_max_event_count',
+];
+const TEAM_FIELDS = ['name', 'visibility'];
+const ISSUE_FIELDS = [
+  'is_resolved',
+  'is_resolved_by_next_release',
+  'fixed_at',
+  'is_muted',
+  'unmute_after',
+  'unmute_on_volume_based_conditions',
+];
+
+export interface FakeBugsinkOptions {
+  host?: string;
+  /** 0 picks a free port (default: 8000) */
+  port?: number;
+  /** Only accept this API token; any token is accepted when omitted */
+  token?: string;
+  /** Data to serve; copied, so the server's changes never leak into it (default: the sample fixtures) */
+  fixtures?: Fixtures;
+}
+
+/** A failed request, answered with a DRF-style JSON error body */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: Record<string, unknown>
+  ) {
+    super(JSON.stringify(body));
+  }
+}
+
+const notFound = () => new HttpError(404, { detail: 'Not found.' });
+
+const required = (field: string) => new HttpError(400, { [field]: ['This field is required.'] });
+
+/**
+ * Start the fake server and resolve once it is listening
+ */
+export async function startFakeBugsink(
+  options: FakeBugsinkOptions = {}
+): Promise<{ url: string; close: () => Promise<void> }> {
+  const data = structuredClone(options.fixtures ?? defaultFixtures());
+  const host = options.host ?? '127.0.0.1';
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res, data, options.token).catch((error) => {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, error.body);
+      } else {
+        console.error('Fake Bugsink request failed:', error);
+        sendJson(res, 500, { detail: 'Internal server error' });
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? 8000, host, () => resolve());
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  return {
+    url: `http://${host.includes(':') ? `[${host}]` : host}:${port}`,
+    close: () => new Promise<void>((resolve) => httpServer.close(() => resolve())),
+  };
+}
+
+async function handleRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  data: Fixtures,
+  token: string | undefined
+): Promise<void> {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  const method = req.method ?? 'GET';
+
+  const auth = /^Bearer (.+)$/.exec(req.headers.authorization ?? '')?.[1];
+  if (!auth || (token !== undefined && auth !== token)) {
+    throw new HttpError(401, { detail: 'Invalid token.' });
+  }
+  if (!url.pathname.startsWith(`${API_PREFIX}/`)) throw notFound();
+
+  const [collection, id, sub, ...rest] = url.pathname
+    .slice(API_PREFIX.length + 1)
+    .split('/')
+    .filter(Boolean);
+  if (rest.length > 0 || (sub && !(collection === 'events' && sub === 'stacktrace'))) {
+    throw notFound();
+  }
+
+  const allow = (...methods: string[]) => {
+    if (!methods.includes(method)) {
+      throw new HttpError(405, { detail: `Method "${method}" not allowed.` });
+    }
+  };
+
+  switch (collection) {
+    case 'projects': {
+      if (!id) {
+        allow('GET', 'POST');
+        if (method === 'GET') return sendPage(res, url, sortBy(data.projects, 'name'));
+        return sendJson(res, 201, createProject(data, await readBody(req)));
+      }
+      allow('GET', 'PATCH');
+      const project = find(data.projects, (item) => String(item.id) === id);
+      if (method === 'PATCH') update(project, await readBody(req), PROJECT_FIELDS);
+      return sendJson(res, 200, project);
+    }
+
+    case 'teams': {
+      if (!id) {
+        allow('GET', 'POST');
+        if (method === 'GET') return sendPage(res, url, sortBy(data.teams, 'name'));
+        return sendJson(res, 201, createTeam(data, await readBody(req)));
+      }
+      allow('GET', 'PATCH');
+      const team = find(data.teams, (item) => item.id === id);
+      if (method === 'PATCH') update(team, await readBody(req), TEAM_FIELDS);
+      return sendJson(res, 200, team);
+    }
+
+    case 'issues': {
+      if (!id) {
+        allow('GET');
+        return sendPage(res, url, listIssues(data.issues, url.searchParams));
+      }
+      allow('GET', 'PATCH');
+      const issue = find(data.issues, (item) => item.id === id);
+      if (method === 'PATCH') update(issue, await readBody(req), ISSUE_FIELDS);
+      return sendJson(res, 200, issue);
+    }
+
+    case 'events': {
+      allow('GET');
+      if (!id) {
+        const issue = url.searchParams.get('issue');
+        if (!issue) throw required('issue');
+        const events = data.events
+          .filter((event) => event.issue === issue)
+          .sort((a, b) => a.digest_order - b.digest_order);
+        return sendPage(
+          res,
+          url,
+          url.searchParams.get('order') === 'asc' ? events : events.reverse()
+        );
+      }
+      const event = find(data.events, (item) => item.id === id);
+      if (sub) {
+        res.writeHead(200, { 'Content-Type': 'text/markdown; charset=utf-8' });
+        res.end(event.stacktrace_md ?? formatStacktrace(event));
+        return;
+      }
+      return sendJson(res, 200, event);
+    }
+
+    case 'releases': {
+      if (!id) {
+        allow('GET', 'POST');
+        if (method === 'POST') return sendJson(res, 201, createRelease(data, await readBody(req)));
+        const project = url.searchParams.get('project');
+        if (!project) throw required('project');
+        const releases = data.releases
+          .filter((release) => String(release.project) === project)
+          .sort((a, b) => (b.sort_epoch ?? 0) - (a.sort_epoch ?? 0));
+        return sendPage(res, url, releases);
+      }
+      allow('GET');
+      const release = find(data.releases, (item) => item.id === id);
+      return sendJson(res, 200, release);
+    }
+
+    default:
+      throw notFound();
+  }
+}
+
+function createProject(data: Fixtures, body: Record<string, unknown>): Project {
+  if (typeof body.team !== 'string') throw required('team');
+  if (typeof body.name !== 'string' || !body.name) throw required('name');
+  if (!data.teams.some((team) => team.id === body.team)) {
+    throw new HttpError(400, { team: [`Invalid pk "${body.team}" - object does not exist.`] });
+  }
+
+  const id = Math.max(0, ...data.projects.map((project) => project.id)) + 1;
+  const project: Project = {
+    id,
+    team: body.team,
+    name: body.name,
+    slug: body.name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+    dsn: `http://${randomUUID().replace(/-/g, '')}@localhost:8000/${id}`,
+    digested_event_count: 0,
+    stored_event_count: 0,
+    alert_on_new_issue: true,
+    alert_on_regression: true,
+    alert_on_unmute: true,
+    visibility: 'team_members',
+    retention_max_event_count: 10_000,
+  };
+  update(project, body, PROJECT_FIELDS);
+  data.projects.push(project);
+  return project;
+}
+
+function createTeam(data: Fixtures, body: Record<string, unknown>): Team {
+  if (typeof body.name !== 'string' || !body.name) throw required('name');
+
+  const team: Team = { id: randomUUID(), name: body.name, visibility: 'discoverable' };
+  update(team, body, TEAM_FIELDS);
+  data.teams.push(team);
+  return team;
+}
+
+function createRelease(data: Fixtures, body: Record<string, unknown>): Release {
+  if (typeof body.project !== 'number') throw required('project');
+  if (typeof body.version !== 'string' || !body.version) throw required('version');
+  find(data.projects, (project) => project.id === body.project);
+
+  const siblings = data.releases.filter((release) => release.project === body.project);
+  if (siblings.some((release) => release.version === body.version)) {
+    throw new HttpError(400, {
+      non_field_errors: ['The fields project, version must make a unique set.'],
+    });
+  }
+
+  const release: Release = {
+    id: randomUUID(),
+    project: body.project,
+    version: body.version,
+    date_released: typeof body.timestamp === 'string' ? body.timestamp : new Date().toISOString(),
+    sort_epoch: Math.max(0, ...siblings.map((item) => item.sort_epoch ?? 0)) + 1,
+  };
+  data.releases.push(release);
+
+  for (const issue of data.issues) {
+    if (issue.project === release.project && issue.is_resolved_by_next_release) {
+      issue.is_resolved = true;
+      issue.is_resolved_by_next_release = false;
+      issue.fixed_at = [...(issue.fixed_at ?? []), release.version];
+    }
+  }
+  return release;
+}
+
+function listIssues(issues: Issue[], params: URLSearchParams): Issue[] {
+  const project = params.get('project');
+  if (!project) throw required('project');
+
+  const status = params.get('status');
+  const sort = params.get('sort') ?? 'digest_order';
+  if (sort !== 'digest_order' && sort !== 'last_seen') {
+    throw new HttpError(400, { sort: [`"${sort}" is not a valid choice.`] });
+  }
+
+  const matching = issues.filter((issue) => {
+    if (String(issue.project) !== project) return false;
+    switch (status) {
+      case null:
+        return true;
+      case 'resolved':
+        return issue.is_resolved;
+      case 'muted':
+        return issue.is_muted;
+      case 'unresolved':
+        return !issue.is_resolved && !issue.is_muted;
+      default:
+        throw new HttpError(400, { status: [`"${status}" is not a valid choice.`] });
+    }
+  });
+
+  const key = (issue: Issue) =>
+    sort === 'last_seen' ? Date.parse(issue.last_seen) : issue.digest_order;
+  matching.sort((a, b) => key(a) - key(b));
+  return params.get('order') === 'asc' ? matching : matching.reverse();
+}
+
+function find<T>(items: T[], match: (item: T) => boolean): T {
+  const item = items.find(match);
+  if (!item) throw notFound();
+  return item;
+}
+
+function sortBy<T>(items: T[], field: keyof T): T[] {
+  return [...items].sort((a, b) => String(a[field]).localeCompare(String(b[field])));
+}
+
+/**
+ * Copy the writable fields present in a request body onto an object
+ */
+function update(target: object, body: Record<string, unknown>, fields: string[]): void {
+  for (const field of fields) {
+    if (body[field] !== undefined) (target as Record<string, unknown>)[field] = body[field];
+  }
+}
+
+/**
+ * Send one page of a listing. The cursor is the offset of the page, encoded
+ * so clients treat it as opaque, like Bugsink's.
+ */
+function sendPage(res: ServerResponse, url: URL, items: unknown[]): void {
+  const limit = Math.min(Number(url.searchParams.get('limit')) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const cursor = url.searchParams.get('cursor');
+  const offset = cursor ? Number(Buffer.from(cursor, 'base64url').toString()) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new HttpError(404, { detail: 'Invalid cursor' });
+  }
+
+  const link = (start: number) => {
+    const page = new URL(url);
+    page.searchParams.set('cursor', Buffer.from(String(start)).toString('base64url'));
+    return page.toString();
+  };
+  sendJson(res, 200, {
+    next: offset + limit < items.length ? link(offset + limit) : null,
+    previous: offset > 0 ? link(Math.max(0, offset - limit)) : null,
+    results: items.slice(offset, offset + limit),
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  try {
+    const body: unknown = text ? JSON.parse(text) : {};
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      return body as Record<string, unknown>;
+    }
+  } catch {
+    // Answered below, like any body that is not a JSON object
+  }
+  throw new HttpError(400, { detail: 'JSON parse error - expected an object' });
+}
+
+// ============================================================================
+// Command Line
+// ============================================================================
+
+async function main(argv: string[]) {
+  const fixturesPath = getFlag(argv, 'fixtures');
+  const port = getFlag(argv, 'port');
+  if (port !== undefined && !/^\d+$/.test(port)) {
+    throw new Error(`--port must be a port number, got "${port}"`);
+  }
+  const token = getFlag(argv, 'token');
+
+  const { url, close } = await startFakeBugsink({
+    host: getFlag(argv, 'host'),
+    port: port !== undefined ? Number(port) : undefined,
+    token,
+    fixtures: fixturesPath ? loadFixtures(fixturesPath) : undefined,
+  });
+
+  console.error(`Fake Bugsink listening on ${url}`);
+  console.error(`  BUGSINK_URL=${url} BUGSINK_TOKEN=${token ?? '<any token>'} bugsink-mcp`);
+
+  const shutdown = () => {
+    close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+// Started directly (or through the bin link) rather than imported
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  main(process.argv.slice(2)).catch((error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,403 @@
+/**
+ * Fixtures
+ *
+ * Sample Bugsink data served by the fake Bugsink server: a team, two projects
+ * with releases, and issues in every state with realistic events (chained
+ * exceptions, breadcrumbs, threads, minified JavaScript frames). Timestamps
+ * are relative to a reference time, so time-window tools such as the digest
+ * and event frequency have recent data to work with.
+ */
+
+import { readFileSync } from 'node:fs';
+import type {
+  Event,
+  EventData,
+  Issue,
+  Project,
+  Release,
+  StackFrame,
+  Team,
+} from './bugsink-client.js';
+
+export interface Fixtures {
+  teams: Team[];
+  projects: Project[];
+  issues: Issue[];
+  events: Event[];
+  releases: Release[];
+}
+
+const HOUR_MS = 3_600_000;
+
+const STOREFRONT = 1;
+const CHECKOUT_API = 2;
+
+function project(id: number, name: string, slug: string): Project {
+  return {
+    id,
+    team: 'b9a4e3c0-5d1f-4f6e-9a51-1f0c2e7d4a10',
+    name,
+    slug,
+    dsn: `http://public@localhost:8000/${id}`,
+    digested_event_count: 0,
+    stored_event_count: 0,
+    alert_on_new_issue: true,
+    alert_on_regression: true,
+    alert_on_unmute: true,
+    visibility: 'team_members',
+    retention_max_event_count: 10_000,
+  };
+}
+
+function frame(
+  filename: string,
+  fn: string,
+  lineno: number,
+  inApp: boolean,
+  source?: [string[], string, string[]]
+): StackFrame {
+  return {
+    filename,
+    function: fn,
+    lineno,
+    in_app: inApp,
+    ...(source && { pre_context: source[0], context_line: source[1], post_context: source[2] }),
+  };
+}
+
+/**
+ * The default fixtures, with timestamps relative to `now`
+ */
+export function defaultFixtures(now = new Date()): Fixtures {
+  const ago = (hours: number) => new Date(now.getTime() - hours * HOUR_MS).toISOString();
+
+  const checkoutFrames = [
+    frame('django/core/handlers/base.py', '_get_response', 197, false),
+    frame('checkout/views.py', 'create_order', 48, true, [
+      ['    cart = Cart.for_user(request.user)', '    try:'],
+      '        order = build_order(cart)',
+      [
+        '    except KeyError as error:',
+        '        raise CheckoutError("Cannot build order") from error',
+      ],
+    ]),
+  ];
+  const pricingFrames = [
+    frame('checkout/orders.py', 'build_order', 22, true, [
+      ['def build_order(cart):', '    lines = []'],
+      '    prices = {line.sku: PRICES[line.sku] for line in cart.lines}',
+      ['    return Order(cart, prices)'],
+    ]),
+  ];
+
+  const checkoutData = (sku: string, user: number): EventData => ({
+    level: 'error',
+    platform: 'python',
+    release: 'api@1.8.0',
+    environment: 'production',
+    server_name: 'api-1',
+    transaction: '/api/orders/',
+    user: { id: user, email: `customer${user}@example.com`, ip_address: '203.0.113.7' },
+    exception: {
+      values: [
+        { type: 'KeyError', value: `'${sku}'`, stacktrace: { frames: pricingFrames } },
+        {
+          type: 'CheckoutError',
+          value: 'Cannot build order',
+          module: 'checkout.errors',
+          mechanism: { type: 'django', handled: false },
+          stacktrace: { frames: checkoutFrames },
+        },
+      ],
+    },
+    breadcrumbs: {
+      values: [
+        {
+          timestamp: ago(0.02),
+          category: 'http',
+          message: 'GET /api/cart/',
+          data: { status_code: 200 },
+        },
+        {
+          timestamp: ago(0.01),
+          category: 'query',
+          message: 'SELECT * FROM checkout_cartline WHERE cart_id = %s',
+        },
+        {
+          timestamp: ago(0.01),
+          category: 'checkout',
+          level: 'warning',
+          message: `Unknown SKU ${sku}`,
+        },
+      ],
+    },
+    tags: { environment: 'production', release: 'api@1.8.0', server_name: 'api-1' },
+    contexts: {
+      runtime: { name: 'CPython', version: '3.12.4' },
+      os: { name: 'Linux', version: '6.8' },
+    },
+    extra: { cart_size: 3 },
+    request: {
+      url: 'https://shop.example.com/api/orders/',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: 'sessionid=fixture' },
+    },
+  });
+
+  const storefrontData = (browser: string): EventData => ({
+    level: 'error',
+    platform: 'javascript',
+    release: 'storefront@2.4.0',
+    environment: 'production',
+    transaction: '/product/:slug',
+    exception: {
+      values: [
+        {
+          type: 'TypeError',
+          value: "Cannot read properties of undefined (reading 'price')",
+          mechanism: { type: 'onerror', handled: false },
+          stacktrace: {
+            frames: [
+              frame('https://shop.example.com/static/js/vendor.4f2a.js', 'r', 2, false),
+              {
+                ...frame('https://shop.example.com/static/js/main.9c1e.js', 'n', 1, true),
+                colno: 10423,
+              },
+            ],
+          },
+        },
+      ],
+    },
+    breadcrumbs: {
+      values: [
+        {
+          timestamp: ago(0.05),
+          category: 'navigation',
+          data: { from: '/', to: '/product/blue-mug' },
+        },
+        { timestamp: ago(0.04), category: 'ui.click', message: 'button.add-to-cart' },
+        {
+          timestamp: ago(0.04),
+          category: 'fetch',
+          level: 'error',
+          data: { url: '/api/prices/blue-mug', status_code: 404 },
+        },
+      ],
+    },
+    tags: { browser, 'browser.name': browser.split(' ')[0], release: 'storefront@2.4.0' },
+    contexts: { browser: { name: browser.split(' ')[0], version: browser.split(' ')[1] } },
+    request: { url: 'https://shop.example.com/product/blue-mug', method: 'GET' },
+  });
+
+  const workerData: EventData = {
+    level: 'error',
+    platform: 'python',
+    release: 'api@1.8.0',
+    environment: 'production',
+    server_name: 'worker-2',
+    logentry: {
+      message: 'Payment provider connection reset after %s retries',
+      params: [3],
+      formatted: 'Payment provider connection reset after 3 retries',
+    },
+    exception: {
+      values: [
+        {
+          type: 'ConnectionResetError',
+          value: '[Errno 104] Connection reset by peer',
+          thread_id: 2,
+          mechanism: { type: 'logging', handled: true },
+        },
+      ],
+    },
+    threads: {
+      values: [
+        { id: 1, name: 'MainThread', main: true },
+        {
+          id: 2,
+          name: 'payments-worker',
+          crashed: true,
+          stacktrace: {
+            frames: [
+              frame('threading.py', 'run', 1012, false),
+              frame('payments/worker.py', 'capture', 71, true, [
+                ['    for attempt in range(MAX_RETRIES):'],
+                '        response = provider.capture(payment.reference)',
+                ['        if response.ok:'],
+              ]),
+            ],
+          },
+        },
+      ],
+    },
+    tags: { environment: 'production', server_name: 'worker-2' },
+  };
+
+  const issues: Issue[] = [
+    {
+      id: 'a3c1f7e2-4b8d-4e51-9f0a-6d2b7c8e9f01',
+      project: CHECKOUT_API,
+      digest_order: 1,
+      first_seen: ago(72),
+      last_seen: ago(0.5),
+      digested_event_count: 3,
+      stored_event_count: 3,
+      calculated_type: 'CheckoutError',
+      calculated_value: 'Cannot build order',
+      transaction: '/api/orders/',
+      is_resolved: false,
+      is_resolved_by_next_release: false,
+      is_muted: false,
+      fixed_at: [],
+    },
+    {
+      id: 'c7d2e8f3-1a9b-4c62-8e1f-0b3a4d5c6e02',
+      project: CHECKOUT_API,
+      digest_order: 2,
+      first_seen: ago(48),
+      last_seen: ago(6),
+      digested_event_count: 1,
+      stored_event_count: 1,
+      calculated_type: 'ConnectionResetError',
+      calculated_value: '[Errno 104] Connection reset by peer',
+      transaction: '',
+      is_resolved: false,
+      is_resolved_by_next_release: false,
+      is_muted: true,
+      fixed_at: [],
+      unmute_after: null,
+    },
+    {
+      id: 'e1f4a9b5-6c2d-4e73-9a2b-1c4d5e6f7a03',
+      project: STOREFRONT,
+      digest_order: 1,
+      first_seen: ago(30),
+      last_seen: ago(1),
+      digested_event_count: 2,
+      stored_event_count: 2,
+      calculated_type: 'TypeError',
+      calculated_value: "Cannot read properties of undefined (reading 'price')",
+      transaction: '/product/:slug',
+      is_resolved: false,
+      is_resolved_by_next_release: true,
+      is_muted: false,
+      fixed_at: [],
+    },
+  ];
+
+  const event = (
+    id: string,
+    issue: Issue,
+    digestOrder: number,
+    hoursAgo: number,
+    data: EventData
+  ): Event => ({
+    id,
+    event_id: id.replace(/-/g, ''),
+    issue: issue.id,
+    project: issue.project,
+    timestamp: ago(hoursAgo),
+    ingested_at: ago(hoursAgo),
+    digested_at: ago(hoursAgo),
+    digest_order: digestOrder,
+    grouping: digestOrder,
+    data,
+  });
+
+  const [checkout, payments, storefront] = issues;
+  const events = [
+    event('0f1e2d3c-4b5a-4697-8a1b-2c3d4e5f6a11', checkout, 1, 72, checkoutData('MUG-01', 17)),
+    event('1a2b3c4d-5e6f-4a1b-9c2d-3e4f5a6b7c12', checkout, 2, 20, checkoutData('MUG-01', 23)),
+    event('2b3c4d5e-6f7a-4b2c-8d3e-4f5a6b7c8d13', checkout, 3, 0.5, checkoutData('TEE-42', 17)),
+    event('3c4d5e6f-7a8b-4c3d-9e4f-5a6b7c8d9e14', payments, 1, 6, workerData),
+    event(
+      '4d5e6f7a-8b9c-4d4e-8f5a-6b7c8d9e0f15',
+      storefront,
+      1,
+      30,
+      storefrontData('Firefox 128.0')
+    ),
+    event('5e6f7a8b-9c0d-4e5f-9a6b-7c8d9e0f1a16', storefront, 2, 1, storefrontData('Chrome 127.0')),
+  ];
+
+  const projects = [
+    project(STOREFRONT, 'Storefront', 'storefront'),
+    project(CHECKOUT_API, 'Checkout API', 'checkout-api'),
+  ];
+  for (const item of projects) {
+    item.digested_event_count = item.stored_event_count = events.filter(
+      (e) => e.project === item.id
+    ).length;
+  }
+
+  const releases: Release[] = [
+    {
+      id: 'd1e2f3a4-b5c6-4d7e-8f9a-0b1c2d3e4f21',
+      project: STOREFRONT,
+      version: 'storefront@2.3.0',
+      date_released: ago(240),
+      semver: '2.3.0',
+      is_semver: true,
+      sort_epoch: 1,
+    },
+    {
+      id: 'e2f3a4b5-c6d7-4e8f-9a0b-1c2d3e4f5a22',
+      project: STOREFRONT,
+      version: 'storefront@2.4.0',
+      date_released: ago(36),
+      semver: '2.4.0',
+      is_semver: true,
+      sort_epoch: 2,
+    },
+    {
+      id: 'f3a4b5c6-d7e8-4f9a-8b1c-2d3e4f5a6b23',
+      project: CHECKOUT_API,
+      version: 'api@1.8.0',
+      date_released: ago(96),
+      semver: '1.8.0',
+      is_semver: true,
+      sort_epoch: 1,
+    },
+  ];
+
+  return {
+    teams: [{ id: projects[0].team, name: 'Shop', visibility: 'discoverable' }],
+    projects,
+    issues,
+    events,
+    releases,
+  };
+}
+
+/**
+ * Read fixtures from a JSON file with `teams`, `projects`, `issues`, `events`
+ * and `releases` arrays; missing collections are empty
+ */
+export function loadFixtures(path: string): Fixtures {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read fixtures ${path}: ${(error as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Invalid fixtures ${path}: expected an object of collections`);
+  }
+
+  const file = parsed as Record<string, unknown>;
+  const collection = <T>(name: keyof Fixtures): T[] => {
+    const value = file[name] ?? [];
+    if (!Array.isArray(value)) {
+      throw new Error(`Invalid fixtures ${path}: "${name}" must be an array`);
+    }
+    return value as T[];
+  };
+
+  return {
+    teams: collection<Team>('teams'),
+    projects: collection<Project>('projects'),
+    issues: collection<Issue>('issues'),
+    events: collection<Event>('events'),
+    releases: collection<Release>('releases'),
+  };
+}
@@ -0,0 +1,1081 @@
+/**
+ * Formatters
+ *
+ * Plain-text renderings of Bugsink objects shared by tools, resources and prompts,
+ * plus a generic Markdown rendering of structured tool output.
+ */
+
+import type { AuditEntry, UndoPayload } from './audit.js';
+import type { IssueBreakdown } from './breakdown.js';
+import {
+  DEFAULT_BUDGET,
+  fitSteps,
+  selectParts,
+  truncateText,
+  type BudgetPart,
+  type OutputBudget,
+} from './budget.js';
+import type {
+  Breadcrumb,
+  Event,
+  EventData,
+  EventUser,
+  ExceptionValue,
+  Issue,
+  Project,
+  Release,
+  StackFrame,
+  Thread,
+} from './bugsink-client.js';
+import type { Digest, DigestIssue } from './digest.js';
+import type { EventDiff } from './event-diff.js';
+import type { EventFrequency } from './frequency.js';
+import type { ReleaseReport } from './release-report.js';
+import type { SymbolicationReport } from './symbolicate.js';
+import type { ChangeKind, IssueChange } from './watch.js';
+import type { LocalFrame, LocalSourceStatus } from './workspace.js';
+
+/**
+ * Representations a tool can return its result in: the prose renderings
+ * below, the structured result as JSON, or the structured result as Markdown
+ */
+export const OUTPUT_FORMATS = ['text', 'json', 'markdown'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Derive a display status from issue flags
+ */
+export function getIssueStatus(
+  issue: Pick<Issue, 'is_resolved' | 'is_resolved_by_next_release' | 'is_muted' | 'unmute_after'>
+): string {
+  if (issue.is_resolved) return 'resolved';
+  if (issue.is_resolved_by_next_release) return 'resolved by next release';
+  if (issue.is_muted) return issue.unmute_after ? `muted until ${issue.unmute_after}` : 'muted';
+  return 'unresolved';
+}
+
+/**
+ * Format an issue for display
+ */
+export function formatIssue(issue: Issue): string {
+  return [
+    `[${issue.calculated_type}] ${issue.calculated_value}`,
+    `  ID: ${issue.id}`,
+    `  Status: ${getIssueStatus(issue)}`,
+    `  Occurrences: ${issue.digested_event_count}`,
+    `  First seen: ${issue.first_seen}`,
+    `  Last seen: ${issue.last_seen}`,
+    issue.transaction ? `  Transaction: ${issue.transaction}` : null,
+    issue.fixed_at?.length ? `  Fixed in: ${issue.fixed_at.join(', ')}` : null,
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Sections of an event that get_event can show on their own, in full
+ */
+export const EVENT_SECTIONS = [
+  'stacktrace',
+  'breadcrumbs',
+  'threads',
+  'tags',
+  'contexts',
+  'extra',
+  'request',
+] as const;
+
+export type EventSection = (typeof EVENT_SECTIONS)[number];
+
+/**
+ * The event's message: the formatted log message if there is one
+ */
+function eventMessage(data: EventData): string | undefined {
+  const message = typeof data.message === 'string' ? { formatted: data.message } : data.message;
+  return (
+    message?.formatted ||
+    data.logentry?.formatted ||
+    message?.message ||
+    data.logentry?.message ||
+    undefined
+  );
+}
+
+/**
+ * The exception chain, starting with the raised exception and followed by
+ * what caused it (Sentry lists them the other way around)
+ */
+function exceptionChain(data: EventData | undefined): ExceptionValue[] {
+  return [...(data?.exception?.values ?? [])].reverse();
+}
+
+function exceptionTitle(exc: ExceptionValue, raised: boolean): string {
+  const title = `${exc.type}: ${exc.value}`;
+  if (!raised) return `Caused by: ${title}`;
+
+  const mechanism = exc.mechanism;
+  if (!mechanism || (mechanism.handled === undefined && !mechanism.type)) return title;
+  const handling =
+    mechanism.handled === undefined ? null : mechanism.handled ? 'handled' : 'unhandled';
+  const via = mechanism.type ? `via ${mechanism.type}` : null;
+  return `${title} (${[handling, via].filter(Boolean).join(', ')})`;
+}
+
+/**
+ * The thread that crashed: marked as such, or the one the raised exception
+ * names, or the current one
+ */
+function crashedThread(data: EventData | undefined): Thread | undefined {
+  const threads = data?.threads?.values ?? [];
+  const threadId = data?.exception?.values?.at(-1)?.thread_id;
+  return (
+    threads.find((thread) => thread.crashed) ??
+    (threadId !== undefined ? threads.find((thread) => thread.id === threadId) : undefined) ??
+    threads.find((thread) => thread.current)
+  );
+}
+
+function threadName(thread: Thread): string {
+  if (thread.name && thread.id !== undefined) return `${thread.name} (${thread.id})`;
+  return thread.name ?? String(thread.id ?? '?');
+}
+
+function formatUser(user: EventUser): string | null {
+  const fields = [
+    user.id !== undefined ? `id ${user.id}` : null,
+    user.username ? `username ${user.username}` : null,
+    user.email ? `email ${user.email}` : null,
+    user.ip_address ? `IP ${user.ip_address}` : null,
+  ].filter(Boolean);
+  return fields.length > 0 ? fields.join(', ') : null;
+}
+
+/**
+ * Summary lines of an event, before and after its exceptions
+ */
+function eventSummary(event: Event): { head: string[]; tail: string[] } {
+  const head = [
+    `Event ${event.id}`,
+    `  Event ID: ${event.event_id}`,
+    `  Timestamp: ${event.timestamp}`,
+    `  Ingested: ${event.ingested_at}`,
+  ];
+  const tail: string[] = [];
+
+  // If we have detailed event data
+  if (event.data) {
+    const data = event.data;
+
+    if (data.level) {
+      head.push(`  Level: ${data.level}`);
+    }
+    if (data.platform) {
+      head.push(`  Platform: ${data.platform}`);
+    }
+    const message = eventMessage(data);
+    if (message) {
+      head.push(`  Message: ${message}`);
+    }
+    if (data.release) {
+      head.push(`  Release: ${data.release}${data.dist ? ` (${data.dist})` : ''}`);
+    }
+    if (data.environment) {
+      head.push(`  Environment: ${data.environment}`);
+    }
+    if (data.server_name) {
+      head.push(`  Server: ${data.server_name}`);
+    }
+    if (data.transaction) {
+      head.push(`  Transaction: ${data.transaction}`);
+    }
+    const user = data.user && formatUser(data.user);
+    if (user) {
+      head.push(`  User: ${user}`);
+    }
+    // The default fingerprint groups by stacktrace; only custom ones are worth showing
+    if (data.fingerprint?.length && data.fingerprint.join() !== '{{ default }}') {
+      head.push(`  Fingerprint: ${data.fingerprint.join(', ')}`);
+    }
+
+    if (data.request?.url) {
+      tail.push(`  Request: ${data.request.method || 'GET'} ${data.request.url}`);
+    }
+
+    if (data.browser?.name) {
+      tail.push(`  Browser: ${data.browser.name} ${data.browser.version || ''}`);
+    }
+
+    if (data.os?.name) {
+      tail.push(`  OS: ${data.os.name} ${data.os.version || ''}`);
+    }
+
+    const threads = data.threads?.values ?? [];
+    if (threads.length > 1) {
+      tail.push(`  Threads: ${threads.length}`);
+    }
+  }
+
+  return { head, tail };
+}
+
+/**
+ * Format an event for display
+ */
+export function formatEvent(event: Event): string {
+  const { head, tail } = eventSummary(event);
+  const chain = exceptionChain(event.data);
+  const exceptions =
+    chain.length > 0
+      ? ['  Exception:', ...chain.map((exc, i) => `    ${exceptionTitle(exc, i === 0)}`)]
+      : [];
+
+  return [...head, ...exceptions, ...tail].join('\n');
+}
+
+// Priorities of the parts of an event when it is trimmed to fit a budget
+const EVENT_PRIORITY = {
+  summary: 0,
+  inAppFrame: 1,
+  chainedException: 2,
+  // Breadcrumbs take up to 1 more, so the most recent are kept first
+  breadcrumb: 3,
+  tag: 4,
+  context: 5,
+  extra: 6,
+  libraryFrame: 7,
+};
+
+// Longer values are cut short in event details, since one can crowd out the rest
+const MAX_CONTEXT_CHARS = 1000;
+const MAX_BREADCRUMB_DATA_CHARS = 200;
+
+// Parts rendered together, with the marker that replaces a run of omitted ones
+interface EventBlock {
+  /** Part the block depends on: when it is omitted, the whole block is */
+  header?: BudgetPart & { omitted: string };
+  parts: BudgetPart[];
+  omitted: (count: number) => string;
+  /** Section of get_event that shows the omitted parts */
+  section: EventSection;
+}
+
+/**
+ * A block of stack frames, most recent first. In-app frames get `inAppPriority`.
+ */
+function framesBlock(
+  frames: StackFrame[],
+  inAppPriority: number,
+  brief: boolean,
+  header?: EventBlock['header']
+): EventBlock {
+  return {
+    header,
+    parts: [...frames].reverse().map((frame) => {
+      const context =
+        frame.context_line && !brief ? `\n        > ${frame.context_line.trim()}` : '';
+      return {
+        text: `      ${frameLocation(frame)} in ${frame.function}${context}`,
+        priority: frame.in_app ? inAppPriority : EVENT_PRIORITY.libraryFrame,
+      };
+    }),
+    omitted: (count) => `      … ${count} frame(s) omitted`,
+    section: 'stacktrace',
+  };
+}
+
+/**
+ * A block of key/value lines, with long values cut short
+ */
+function keyValueBlock(
+  entries: [string, unknown][],
+  priority: number,
+  noun: string,
+  section: EventSection
+): EventBlock {
+  return {
+    parts: entries.map(([key, value]) => {
+      const text = section === 'tags' ? tagValue(value) : (JSON.stringify(value) ?? 'null');
+      return {
+        text:
+          text.length > MAX_CONTEXT_CHARS
+            ? `  ${key}: ${text.slice(0, MAX_CONTEXT_CHARS)}… (${text.length} characters; see section '${section}')`
+            : `  ${key}: ${text}`,
+        priority,
+      };
+    }),
+    omitted: (count) => `  … ${count} ${noun}(s) omitted`,
+    section,
+  };
+}
+
+function formatBreadcrumb(breadcrumb: Breadcrumb, maxDataChars: number | null): string {
+  const time =
+    typeof breadcrumb.timestamp === 'number'
+      ? new Date(breadcrumb.timestamp * 1000).toISOString()
+      : (breadcrumb.timestamp ?? '?');
+  const level = breadcrumb.level && breadcrumb.level !== 'info' ? ` [${breadcrumb.level}]` : '';
+  const label = breadcrumb.category ?? breadcrumb.type ?? 'default';
+  let data =
+    breadcrumb.data && Object.keys(breadcrumb.data).length > 0
+      ? JSON.stringify(breadcrumb.data)
+      : '';
+  if (maxDataChars !== null && data.length > maxDataChars) data = `${data.slice(0, maxDataChars)}…`;
+
+  return [`${time} ${label}${level}:`, breadcrumb.message, data].filter(Boolean).join(' ');
+}
+
+/**
+ * Format an event with stacktrace, breadcrumbs, tags and contexts, as shown
+ * by get_event. Chained exceptions are shown as "Caused by", and when the
+ * exceptions carry no frames, the stack of the crashed thread is shown.
+ *
+ * To fit the budget, parts are kept in this order: the summary and the
+ * raised exception, its in-app frames, the rest of the exception chain, the
+ * most recent breadcrumbs, tags, contexts, extra data, and library frames
+ * last. Omitted parts are replaced by markers naming the get_event section
+ * that shows them. `reserved` characters of the budget are left for what the
+ * caller appends.
+ */
+export function formatEventDetails(
+  event: Event,
+  budget: OutputBudget = DEFAULT_BUDGET,
+  reserved = 0
+): string {
+  const { head, tail } = eventSummary(event);
+  const brief = budget.detail === 'brief';
+  const doc: (string | EventBlock)[] = [...head];
+  const data = event.data;
+
+  const chain = exceptionChain(data);
+  if (chain.length > 0) doc.push('  Exception:');
+  chain.forEach((exc, index) => {
+    const raised = index === 0;
+    const frames = exc.stacktrace?.frames ?? [];
+    const header = [
+      `    ${exceptionTitle(exc, raised)}`,
+      ...(frames.length > 0 ? ['    Stacktrace (most recent first):'] : []),
+    ].join('\n');
+
+    if (raised) {
+      doc.push(header, framesBlock(frames, EVENT_PRIORITY.inAppFrame, brief));
+    } else {
+      doc.push(
+        framesBlock(frames, EVENT_PRIORITY.chainedException, brief, {
+          text: header,
+          priority: EVENT_PRIORITY.chainedException,
+          omitted: `    … cause ${exc.type} omitted`,
+        })
+      );
+    }
+  });
+
+  // Without exception frames, the crashed thread's stack is where it failed
+  const thread = crashedThread(data);
+  const threadFrames = thread?.stacktrace?.frames ?? [];
+  const exceptionFrames = chain.some((exc) => (exc.stacktrace?.frames.length ?? 0) > 0);
+  if (thread && threadFrames.length > 0 && !exceptionFrames) {
+    doc.push(
+      `  Crashed thread: ${threadName(thread)}`,
+      '    Stacktrace (most recent first):',
+      framesBlock(threadFrames, EVENT_PRIORITY.inAppFrame, brief)
+    );
+  }
+  doc.push(...tail);
+
+  const breadcrumbs = data?.breadcrumbs?.values ?? [];
+  if (breadcrumbs.length > 0) {
+    doc.push('', 'Breadcrumbs (oldest first):', {
+      parts: breadcrumbs.map((breadcrumb, i) => ({
+        text: `  ${formatBreadcrumb(breadcrumb, MAX_BREADCRUMB_DATA_CHARS)}`,
+        priority: EVENT_PRIORITY.breadcrumb + (breadcrumbs.length - 1 - i) / breadcrumbs.length,
+      })),
+      omitted: (count) => `  … ${count} earlier breadcrumb(s) omitted`,
+      section: 'breadcrumbs',
+    });
+  }
+
+  const tags = Object.entries(data?.tags ?? {});
+  if (tags.length > 0) {
+    doc.push('', 'Tags:', keyValueBlock(tags, EVENT_PRIORITY.tag, 'tag', 'tags'));
+  }
+
+  const contexts = Object.entries(data?.contexts ?? {});
+  if (contexts.length > 0) {
+    doc.push(
+      '',
+      'Contexts:',
+      keyValueBlock(contexts, EVENT_PRIORITY.context, 'context', 'contexts')
+    );
+  }
+
+  const extra = Object.entries(data?.extra ?? {});
+  if (extra.length > 0) {
+    doc.push('', 'Extra:', keyValueBlock(extra, EVENT_PRIORITY.extra, 'extra value', 'extra'));
+  }
+
+  return renderBudgeted(doc, budget, brief ? EVENT_PRIORITY.inAppFrame : Infinity, reserved);
+}
+
+/**
+ * Render a document of fixed lines and blocks of parts within a budget,
+ * keeping only parts up to `maxPriority`
+ */
+function renderBudgeted(
+  doc: (string | EventBlock)[],
+  budget: OutputBudget,
+  maxPriority: number,
+  reserved: number
+): string {
+  const fixed = doc.filter((item): item is string => typeof item === 'string');
+  const eligible = doc
+    .flatMap((item) =>
+      typeof item === 'string' ? [] : item.header ? [item.header, ...item.parts] : item.parts
+    )
+    .filter((part) => part.priority <= maxPriority);
+
+  const render = (available: number | null): string => {
+    const selected = selectParts(eligible, available);
+    const kept = new Set(eligible.filter((_, i) => selected[i]));
+
+    const lines: string[] = [];
+    const omittedSections = new Set<EventSection>();
+    for (const item of doc) {
+      if (typeof item === 'string') {
+        lines.push(item);
+        continue;
+      }
+      if (item.header && !kept.has(item.header)) {
+        lines.push(item.header.omitted);
+        omittedSections.add(item.section);
+        continue;
+      }
+      if (item.header) lines.push(item.header.text);
+
+      let run = 0;
+      const flush = () => {
+        if (run > 0) lines.push(item.omitted(run));
+        run = 0;
+      };
+      for (const part of item.parts) {
+        if (kept.has(part)) {
+          flush();
+          lines.push(part.text);
+        } else {
+          run++;
+          omittedSections.add(item.section);
+        }
+      }
+      flush();
+    }
+
+    if (omittedSections.size > 0) {
+      const reason =
+        kept.size < eligible.length
+          ? `to stay within max_chars (${budget.maxChars})`
+          : `at detail '${budget.detail}'`;
+      lines.push('', omittedSectionsNote([...omittedSections], reason));
+    }
+
+    return lines.join('\n');
+  };
+
+  if (budget.maxChars === null) return render(null);
+
+  // Omission markers and the closing note take space too: find the most room for
+  // parts that still lets the result fit
+  const limit = Math.max(0, budget.maxChars - reserved);
+  const room = Math.max(0, limit - fixed.reduce((sum, line) => sum + line.length + 1, 0));
+  const text = render(room - fitSteps(room, limit, (steps) => render(room - steps).length));
+  // Only the fixed lines are left when the budget is very small
+  return truncateText(text, budget.maxChars, 'raise max_chars to see the rest', reserved);
+}
+
+/**
+ * The note saying which parts of an event were omitted and why, naming the
+ * get_event sections that show them
+ */
+export function omittedSectionsNote(sections: EventSection[], reason: string): string {
+  const names = [...new Set(sections)].map((section) => `'${section}'`);
+  const choice =
+    names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names[0];
+  return `Parts of this event were omitted ${reason}. Call get_event with section: ${choice} to see them in full.`;
+}
+
+// What structured event data leaves out to fit a budget, in order: the sections
+// the text rendering gives up first, then library frames and source context
+const EVENT_TRIMS: { section: EventSection; trim: (data: EventData) => boolean }[] = [
+  { section: 'extra', trim: (data) => dropField(data, 'extra') },
+  { section: 'contexts', trim: (data) => dropField(data, 'contexts') },
+  { section: 'request', trim: (data) => dropField(data, 'request') },
+  { section: 'tags', trim: (data) => dropField(data, 'tags') },
+  { section: 'threads', trim: (data) => dropField(data, 'threads') },
+  { section: 'breadcrumbs', trim: (data) => dropField(data, 'breadcrumbs') },
+  {
+    section: 'stacktrace',
+    trim: (data) => editFrames(data, (frames) => frames.filter((frame) => frame.in_app)),
+  },
+  {
+    section: 'stacktrace',
+    trim: (data) =>
+      editFrames(data, (frames) =>
+        frames.map(({ pre_context, context_line, post_context, ...frame }) => frame)
+      ),
+  },
+];
+
+/** Number of steps trimEvent can take; brief detail takes all of them */
+export const EVENT_TRIM_STEPS = EVENT_TRIMS.length;
+
+/**
+ * A copy of an event for structured output within a budget, without what the
+ * first `steps` trims leave out; the `keep` section is never trimmed.
+ * Returns the copy and the sections that lost data.
+ */
+export function trimEvent(
+  event: Event,
+  steps: number,
+  keep?: EventSection
+): { event: Event; omitted: EventSection[] } {
+  const trimmed = structuredClone(event);
+  const omitted: EventSection[] = [];
+  for (const { section, trim } of EVENT_TRIMS.slice(0, steps)) {
+    if (section !== keep && trimmed.data && trim(trimmed.data)) omitted.push(section);
+  }
+  return { event: trimmed, omitted };
+}
+
+function dropField(data: EventData, field: EventSection & keyof EventData): boolean {
+  if (data[field] === undefined) return false;
+  delete data[field];
+  return true;
+}
+
+/**
+ * Replace the frames of every exception; true when any frame changed
+ */
+function editFrames(data: EventData, edit: (frames: StackFrame[]) => StackFrame[]): boolean {
+  let changed = false;
+  for (const exc of data.exception?.values ?? []) {
+    if (!exc.stacktrace) continue;
+    const frames = edit(exc.stacktrace.frames);
+    changed ||= JSON.stringify(frames) !== JSON.stringify(exc.stacktrace.frames);
+    exc.stacktrace.frames = frames;
+  }
+  return changed;
+}
+
+function tagValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Format one section of an event in full, as shown by get_event with `section`
+ */
+export function formatEventSection(event: Event, section: EventSection): string {
+  const data = event.data ?? {};
+  const heading = `Event ${event.id}: ${section}`;
+
+  let body: string;
+  switch (section) {
+    case 'stacktrace':
+      body = formatStacktrace(event);
+      break;
+    case 'breadcrumbs': {
+      const breadcrumbs = data.breadcrumbs?.values ?? [];
+      body =
+        breadcrumbs.length > 0
+          ? breadcrumbs.map((breadcrumb) => formatBreadcrumb(breadcrumb, null)).join('\n')
+          : '(No breadcrumbs)';
+      break;
+    }
+    case 'threads': {
+      const threads = data.threads?.values ?? [];
+      body =
+        threads.length > 0
+          ? threads
+              .map((thread) => {
+                const flags = [
+                  thread.crashed && 'crashed',
+                  thread.current && 'current',
+                  thread.main && 'main',
+                ]
+                  .filter(Boolean)
+                  .join(', ');
+                return `## Thread ${threadName(thread)}${flags ? ` [${flags}]` : ''}\n\n${markdownFrames(thread.stacktrace?.frames ?? [])}`;
+              })
+              .join('\n\n')
+          : '(No threads)';
+      break;
+    }
+    case 'tags': {
+      const tags = Object.entries(data.tags ?? {});
+      body =
+        tags.length > 0
+          ? tags.map(([key, value]) => `${key}: ${tagValue(value)}`).join('\n')
+          : '(No tags)';
+      break;
+    }
+    case 'contexts':
+      body =
+        data.contexts && Object.keys(data.contexts).length > 0
+          ? JSON.stringify(data.contexts, null, 2)
+          : '(No contexts)';
+      break;
+    case 'extra':
+      body =
+        data.extra && Object.keys(data.extra).length > 0
+          ? JSON.stringify(data.extra, null, 2)
+          : '(No extra data)';
+      break;
+    case 'request':
+      body = data.request ? JSON.stringify(data.request, null, 2) : '(No request)';
+      break;
+  }
+
+  return `${heading}\n\n${body}`;
+}
+
+function frameLocation(frame: Pick<StackFrame, 'filename' | 'lineno' | 'colno'>): string {
+  const loc = frame.lineno ? `:${frame.lineno}` : '';
+  const col = frame.colno ? `:${frame.colno}` : '';
+  return `${frame.filename}${loc}${col}`;
+}
+
+/**
+ * Render stack frames as a Markdown list, most recent first, with the
+ * surrounding source lines of each frame
+ */
+function markdownFrames(frames: StackFrame[]): string {
+  if (frames.length === 0) return '_No frames_';
+
+  return [...frames]
+    .reverse()
+    .map((frame) => {
+      const library = frame.in_app === false ? ' (library)' : '';
+      const heading = `- \`${frameLocation(frame)}\` in \`${frame.function || '?'}\`${library}`;
+      if (!frame.context_line) return heading;
+
+      const first = (frame.lineno ?? 0) - (frame.pre_context?.length ?? 0);
+      const source = [
+        ...(frame.pre_context ?? []),
+        frame.context_line,
+        ...(frame.post_context ?? []),
+      ]
+        .map((line, i) => {
+          const marker = first + i === frame.lineno ? '>' : ' ';
+          return `${marker}${String(first + i).padStart(5)} | ${line}`;
+        })
+        .join('\n');
+      return `${heading}\n\n  \`\`\`\n${source.replace(/^/gm, '  ')}\n  \`\`\``;
+    })
+    .join('\n');
+}
+
+/**
+ * Render an event's exception stacktraces as Markdown, the raised exception
+ * first and then its causes; without exception frames, the stack of the
+ * crashed thread
+ */
+export function formatStacktrace(event: Event): string {
+  const chain = exceptionChain(event.data);
+  const sections = chain.map(
+    (exc, i) =>
+      `## ${exceptionTitle(exc, i === 0)}\n\n${markdownFrames(exc.stacktrace?.frames ?? [])}`
+  );
+
+  const thread = crashedThread(event.data);
+  const exceptionFrames = chain.some((exc) => (exc.stacktrace?.frames.length ?? 0) > 0);
+  if (thread?.stacktrace?.frames.length && !exceptionFrames) {
+    sections.push(
+      `## Crashed thread ${threadName(thread)}\n\n${markdownFrames(thread.stacktrace.frames)}`
+    );
+  }
+
+  return sections.length > 0 ? sections.join('\n\n') : '_No exception stacktrace in this event._';
+}
+
+/**
+ * Summarize source map symbolication, listing the frames that could not be mapped
+ */
+export function formatSymbolication(report: SymbolicationReport): string {
+  const lines = [
+    `Source maps (${report.source_map_dir}): mapped ${report.mapped} of ${report.frames} frame(s).`,
+  ];
+
+  if (report.unmapped.length > 0) {
+    lines.push(`Could not map ${report.unmapped.length} frame(s):`);
+    for (const frame of report.unmapped) {
+      lines.push(`  - ${frameLocation(frame)}: ${frame.reason}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+const LOCAL_SOURCE_LABELS: Record<LocalSourceStatus, string> = {
+  unchanged: '✓ Local source matches the event',
+  changed: '⚠ Local source differs from the event; the code changed since the crash',
+  unverified: '? The event has no source context to compare with',
+  missing: '✗ Local file or line not found',
+  no_rule: '✗ No path rewrite rule matches this file',
+};
+
+/**
+ * Format frames mapped to the local workspace with their current source
+ */
+export function formatLocalFrames(frames: LocalFrame[]): string {
+  if (frames.length === 0) return 'No matching frames in this event.';
+
+  return frames
+    .map((frame) => {
+      const location = frame.lineno ? `${frame.filename}:${frame.lineno}` : frame.filename;
+      const moved = frame.moved_to ? ` (the event's line is now at line ${frame.moved_to})` : '';
+      const lines = [
+        `${location} in ${frame.function || '?'}`,
+        frame.local_path ? `  Local: ${frame.local_path}` : null,
+        `  ${LOCAL_SOURCE_LABELS[frame.status]}${moved}`,
+        ...frame.lines.map((line) => {
+          const marker = line.lineno === frame.lineno ? '>' : ' ';
+          return `  ${marker}${String(line.lineno).padStart(5)} | ${line.text}`;
+        }),
+      ];
+      return lines.filter(Boolean).join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Format an event diff compactly: one line per changed field or frame
+ */
+export function formatEventDiff(diff: EventDiff): string {
+  const show = (value: string | null) => (value === null ? '(absent)' : JSON.stringify(value));
+  const lines = [`Comparing event A (${diff.event_a}) with event B (${diff.event_b})`];
+
+  if (!diff.same_issue) {
+    lines.push('Note: the events belong to different issues.');
+  }
+  if (diff.fields.length === 0 && diff.frames.length === 0) {
+    lines.push('', 'No differences in tags, contexts, request, browser, OS, exceptions or frames.');
+    return lines.join('\n');
+  }
+
+  if (diff.fields.length > 0) {
+    lines.push('', `Fields (${diff.fields.length} difference(s)):`);
+    for (const change of diff.fields) {
+      lines.push(`  ${change.field}: ${show(change.a)} → ${show(change.b)}`);
+    }
+  }
+
+  if (diff.frames.length > 0) {
+    lines.push('', `Stack frames (${diff.frames.length} difference(s)):`);
+    for (const frame of diff.frames) {
+      const where = `exception[${frame.exception}] ${frame.filename} in ${frame.function || '?'}`;
+      if (frame.change === 'added') {
+        lines.push(`  + ${where}:${frame.lineno_b ?? '?'} (only in B)`);
+      } else if (frame.change === 'removed') {
+        lines.push(`  - ${where}:${frame.lineno_a ?? '?'} (only in A)`);
+      } else {
+        lines.push(`  ~ ${where}: line ${frame.lineno_a ?? '?'} → ${frame.lineno_b ?? '?'}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+const CHANGE_LABELS: Record<ChangeKind, string> = {
+  new: 'New issue',
+  regressed: 'Regression',
+  unmuted: 'Unmuted',
+};
+
+/**
+ * Format issue changes detected by watch mode, oldest first
+ */
+export function formatIssueChanges(changes: IssueChange[]): string {
+  return changes
+    .map(
+      (change) =>
+        `#${change.cursor} ${CHANGE_LABELS[change.kind]} in project ${change.project_id} (${change.instance}), detected ${change.detected_at}\n` +
+        `  [${change.issue.calculated_type}] ${change.issue.calculated_value}\n` +
+        `  ID: ${change.issue.id}, status: ${getIssueStatus(change.issue)}, events: ${change.issue.digested_event_count}, last seen: ${change.issue.last_seen}`
+    )
+    .join('\n\n');
+}
+
+/**
+ * Format audit log entries, with the fields each call changed and its undo payload if given
+ */
+export function formatAuditEntries(
+  entries: (AuditEntry & { undo?: UndoPayload | null })[]
+): string {
+  return entries
+    .map((entry) => {
+      const before = (entry.before ?? {}) as Record<string, unknown>;
+      const after = (entry.after ?? {}) as Record<string, unknown>;
+      const changes = Object.keys(entry.arguments)
+        .filter((field) => field in before && field in after)
+        .map(
+          (field) => `${field}: ${JSON.stringify(before[field])} → ${JSON.stringify(after[field])}`
+        );
+      const project = entry.project_id !== null ? ` (project ${entry.project_id})` : '';
+
+      return [
+        `${entry.timestamp} ${entry.tool} on ${entry.instance}${project}: ${entry.outcome}`,
+        `  Arguments: ${JSON.stringify(entry.arguments)}`,
+        changes.length > 0 ? `  Changed: ${changes.join(', ')}` : null,
+        entry.error ? `  Error: ${entry.error}` : null,
+        entry.undo ? `  Undo: ${entry.undo.tool} ${JSON.stringify(entry.undo.arguments)}` : null,
+        `  Entry ID: ${entry.id}`,
+      ]
+        .filter(Boolean)
+        .join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Format an issue breakdown as ranked value percentages per field
+ */
+export function formatBreakdown(breakdown: IssueBreakdown): string {
+  const header = `Breakdown of ${breakdown.sampled} event(s) of issue ${breakdown.issue_id}`;
+  if (breakdown.fields.length === 0) {
+    return `${header}: none of the selected fields occur in these events.`;
+  }
+
+  const sections = breakdown.fields.map((field) => {
+    const missing = breakdown.sampled - field.events;
+    const lines = [
+      `${field.field} (${field.distinct} distinct value(s)${missing ? `, absent in ${missing} event(s)` : ''}):`,
+      ...field.values.map((v) => `  ${v.percent.toFixed(1).padStart(5)}%  ${v.value} (${v.count})`),
+    ];
+    if (field.other > 0) {
+      const more = field.distinct - field.values.length;
+      lines.push(`  … ${more} more value(s) in ${field.other} event(s)`);
+    }
+    return lines.join('\n');
+  });
+
+  return `${header}:\n\n${sections.join('\n\n')}`;
+}
+
+/**
+ * Format an event frequency series as a sparkline with the most recent buckets
+ */
+export function formatFrequency(frequency: EventFrequency, recentBuckets = 12): string {
+  const subject = frequency.scope === 'issue' ? `issue ${frequency.id}` : `project ${frequency.id}`;
+  const counts = frequency.buckets.map((bucket) => bucket.count);
+  const label = (iso: string) =>
+    frequency.interval === 'hour' ? iso.slice(0, 16).replace('T', ' ') : iso.slice(0, 10);
+  const ratio =
+    frequency.spike_ratio === null ? 'no earlier events' : `${frequency.spike_ratio}x the baseline`;
+
+  const lines = [
+    `Events per ${frequency.interval} for ${subject}: ${frequency.total} from ${frequency.window_start} to ${frequency.window_end}`,
+    '',
+    `  ${label(frequency.window_start)} ${frequency.sparkline} now`,
+    `  min ${Math.min(...counts)}, max ${Math.max(...counts)}, baseline mean ${frequency.baseline_mean} per ${frequency.interval}`,
+    '',
+    frequency.spike
+      ? `SPIKE: ${frequency.latest} event(s) in the current ${frequency.interval}, ${ratio}.`
+      : `No spike: ${frequency.latest} event(s) in the current ${frequency.interval} (${ratio}).`,
+    '',
+    `Most recent ${Math.min(recentBuckets, counts.length)} ${frequency.interval}(s):`,
+    ...frequency.buckets
+      .slice(-recentBuckets)
+      .map((bucket) => `  ${label(bucket.start)}  ${bucket.count}`),
+  ];
+  if (frequency.truncated) {
+    lines.push(
+      '',
+      'Some events were not counted because of the per-issue or issue limits; counts are lower bounds.'
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a release report as a go/no-go summary followed by the issue lists
+ */
+export function formatReleaseReport(report: ReleaseReport): string {
+  const { release, compare_to: baseline, window, volume } = report;
+  const issueLine = (issue: Issue) =>
+    `- [${issue.calculated_type}] ${issue.calculated_value}\n  ID: ${issue.id}, status: ${getIssueStatus(issue)}, events: ${issue.digested_event_count}, first seen: ${issue.first_seen}, last seen: ${issue.last_seen}`;
+  const section = (heading: string, issues: Issue[]) =>
+    issues.length > 0
+      ? [`${heading} (${issues.length}):`, ...issues.map(issueLine)].join('\n')
+      : `${heading}: none`;
+  const change =
+    volume.change_percent === null
+      ? 'no baseline'
+      : `${volume.change_percent > 0 ? '+' : ''}${volume.change_percent}%`;
+
+  const lines = [
+    `Release ${release.version} of project ${report.project_id}`,
+    `  Compared with: ${baseline ? `release ${baseline.version}` : 'the same length of time before the release'}`,
+    `  Before: ${window.baseline_start} to ${window.release_date}`,
+    `  After:  ${window.release_date} to ${window.end}`,
+    `  Events: ${volume.before} before (${volume.before_per_hour}/h), ${volume.after} after (${volume.after_per_hour}/h), ${change}`,
+    `  New issues: ${report.new_issues.length}, regressions: ${report.regressed.length}, stopped: ${report.stopped.length}`,
+  ];
+  const notes = [
+    report.truncated
+      ? `Only the ${report.scanned} most recently seen issues were scanned; older issues are not included.`
+      : null,
+    volume.truncated
+      ? 'Some issues have more events than were counted; event volume is a lower bound.'
+      : null,
+  ].filter(Boolean);
+
+  return [
+    lines.join('\n'),
+    section('New issues since the release', report.new_issues),
+    section('Regressions (marked as fixed but seen again)', report.regressed),
+    section('Stopped occurring', report.stopped),
+    ...notes,
+  ].join('\n\n');
+}
+
+/**
+ * Format a project with its settings for display
+ */
+export function formatProject(project: Project): string {
+  return [
+    `Project: ${project.name}`,
+    `  ID: ${project.id}`,
+    `  Slug: ${project.slug}`,
+    `  Team: ${project.team}`,
+    `  DSN: ${project.dsn}`,
+    `  Visibility: ${project.visibility}`,
+    `  Events: ${project.stored_event_count} stored, ${project.digested_event_count} digested`,
+    `  Retention: ${project.retention_max_event_count} max events`,
+    `  Alerts:`,
+    `    New issue: ${project.alert_on_new_issue}`,
+    `    Regression: ${project.alert_on_regression}`,
+    `    Unmute: ${project.alert_on_unmute}`,
+  ].join('\n');
+}
+
+/**
+ * Format a release for display
+ */
+export function formatRelease(release: Release): string {
+  return [
+    `Release: ${release.version || '(empty)'}`,
+    `  ID: ${release.id}`,
+    `  Project: ${release.project}`,
+    `  Released: ${release.date_released}`,
+    release.semver ? `  Semver: ${release.semver}` : null,
+    release.is_semver !== undefined ? `  Is Semver: ${release.is_semver}` : null,
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Format a digest as a Markdown report, one section per project
+ */
+export function formatDigest(digest: Digest): string {
+  const issueTable = (issues: DigestIssue[], total: number) => {
+    if (issues.length === 0) return '_None._';
+    const rows = issues.map((issue) =>
+      [
+        `[${issue.calculated_type}] ${issue.calculated_value}`,
+        issue.id,
+        issue.window_events,
+        issue.digested_event_count,
+        getIssueStatus(issue),
+        issue.first_seen,
+        issue.last_seen,
+      ]
+        .map(markdownCell)
+        .join(' | ')
+    );
+    const table = [
+      '| Issue | ID | Events in window | Total events | Status | First seen | Last seen |',
+      '| --- | --- | --- | --- | --- | --- | --- |',
+      ...rows.map((row) => `| ${row} |`),
+    ].join('\n');
+    return total > issues.length ? `${table}\n\n_And ${total - issues.length} more._` : table;
+  };
+
+  const sections = digest.projects.map((project) => {
+    const releases =
+      project.releases.length > 0
+        ? project.releases
+            .map((r) => `- ${r.version || '(empty)'} (released ${r.date_released})`)
+            .join('\n')
+        : '_None._';
+    const note = project.truncated
+      ? '\n\n_Not every issue or event in the window was counted; counts are lower bounds._'
+      : '';
+
+    return [
+      `## ${project.name} (project ${project.id})`,
+      `${project.active} issue(s) seen, ${project.counts.new_issues} new, ${project.counts.regressions} regression(s), ${project.counts.noisy_muted} noisy muted issue(s), ${project.releases.length} release(s).${note}`,
+      `### New issues\n\n${issueTable(project.new_issues, project.counts.new_issues)}`,
+      `### Top issues by events\n\n${issueTable(project.top_issues, project.active)}`,
+      `### Regressions\n\n${issueTable(project.regressions, project.counts.regressions)}`,
+      `### Muted issues with new events\n\n${issueTable(project.noisy_muted, project.counts.noisy_muted)}`,
+      `### Releases\n\n${releases}`,
+    ].join('\n\n');
+  });
+
+  return [
+    `# Bugsink digest: ${digest.since} to ${digest.until}`,
+    ...(sections.length > 0 ? sections : ['_No matching projects._']),
+  ].join('\n\n');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function markdownCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Render a list of objects as a Markdown table of their scalar fields;
+ * nested values are left out to keep the table compact
+ */
+function markdownTable(items: Record<string, unknown>[]): string {
+  const isScalar = (value: unknown) => !isPlainObject(value) && !Array.isArray(value);
+  const columns = [
+    ...new Set(items.flatMap((item) => Object.keys(item).filter((key) => isScalar(item[key])))),
+  ];
+
+  return [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...items.map((item) => `| ${columns.map((column) => markdownCell(item[column])).join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * Render structured tool output as Markdown: scalar fields as a bullet list,
+ * lists of objects as tables and other nested values as JSON blocks
+ */
+export function formatMarkdown(title: string, data: Record<string, unknown>): string {
+  const fields: string[] = [];
+  const sections: string[] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value)) {
+      const body =
+        value.length === 0
+          ? '_None_'
+          : value.every(isPlainObject)
+            ? markdownTable(value)
+            : value
+                .map((item) => `- ${isPlainObject(item) ? JSON.stringify(item) : markdownCell(item)}`)
+                .join('\n');
+      sections.push(`## ${key} (${value.length})\n\n${body}`);
+    } else if (isPlainObject(value)) {
+      sections.push(`## ${key}\n\n\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``);
+    } else if (value !== undefined) {
+      fields.push(`- **${key}**: ${value === null ? '_none_' : markdownCell(value)}`);
+    }
+  }
+
+  return [`# ${title}`, ...(fields.length > 0 ? [fields.join('\n')] : []), ...sections].join('\n\n');
+}
@@ -0,0 +1,205 @@
+/**
+ * Event Frequency
+ *
+ * Buckets the event timestamps of an issue (or of all issues of a project)
+ * into hourly or daily counts, renders them as a sparkline and flags a spike
+ * when the most recent bucket is well above the rest of the window.
+ */
+
+import type { BugsinkClient } from './bugsink-client.js';
+import { BugsinkValidationError } from './errors.js';
+
+export const FREQUENCY_INTERVALS = ['hour', 'day'] as const;
+
+export type FrequencyInterval = (typeof FREQUENCY_INTERVALS)[number];
+
+const INTERVAL_MS: Record<FrequencyInterval, number> = {
+  hour: 3_600_000,
+  day: 86_400_000,
+};
+
+const MAX_BUCKETS = 500;
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+/** A spike needs at least this many events, so 0 → 2 is not flagged */
+const MIN_SPIKE_EVENTS = 5;
+
+export interface FrequencyOptions {
+  interval: FrequencyInterval;
+  /** Length of the window ending now, in milliseconds */
+  windowMs: number;
+  /** Flag a spike when the last bucket exceeds the baseline mean by this factor */
+  spikeFactor: number;
+  /** Maximum number of events counted per issue */
+  maxEventsPerIssue: number;
+  /** For projects: maximum number of issues counted, most recently seen first */
+  maxIssues: number;
+}
+
+export interface FrequencyBucket {
+  start: string;
+  count: number;
+}
+
+export interface EventFrequency {
+  scope: 'issue' | 'project';
+  id: string;
+  interval: FrequencyInterval;
+  window_start: string;
+  window_end: string;
+  total: number;
+  buckets: FrequencyBucket[];
+  sparkline: string;
+  /** Mean count of the buckets before the last one */
+  baseline_mean: number;
+  /** Count of the last (current, possibly partial) bucket */
+  latest: number;
+  spike: boolean;
+  /** latest / baseline_mean; null when the baseline is empty */
+  spike_ratio: number | null;
+  issues_counted: number;
+  /** Some events or issues were not counted because of the limits */
+  truncated: boolean;
+}
+
+/**
+ * Count the events of one issue per bucket
+ */
+export async function issueFrequency(
+  client: BugsinkClient,
+  issueId: string,
+  options: FrequencyOptions
+): Promise<EventFrequency> {
+  const window = bucketWindow(options);
+  const counts = new Array<number>(window.buckets).fill(0);
+  const truncated = await countEvents(client, issueId, window.start, counts, options);
+
+  return summarize('issue', issueId, window.start, counts, options, 1, truncated);
+}
+
+/**
+ * Count the events of all issues of a project seen within the window per bucket
+ */
+export async function projectFrequency(
+  client: BugsinkClient,
+  projectId: number,
+  options: FrequencyOptions
+): Promise<EventFrequency> {
+  const window = bucketWindow(options);
+  const counts = new Array<number>(window.buckets).fill(0);
+
+  const issueIds: string[] = [];
+  let truncated = false;
+  for await (const issue of client.iterateIssues(projectId, {
+    sort: 'last_seen',
+    order: 'desc',
+  })) {
+    // Sorted by last seen: the remaining issues have no events in the window
+    if (Date.parse(issue.last_seen) < window.start) break;
+    if (issueIds.length >= options.maxIssues) {
+      truncated = true;
+      break;
+    }
+    issueIds.push(issue.id);
+  }
+
+  const results = await Promise.all(
+    issueIds.map((id) => countEvents(client, id, window.start, counts, options))
+  );
+  truncated ||= results.some(Boolean);
+
+  return summarize(
+    'project',
+    String(projectId),
+    window.start,
+    counts,
+    options,
+    issueIds.length,
+    truncated
+  );
+}
+
+/**
+ * Render counts as a sparkline, scaled to the largest count
+ */
+export function sparkline(counts: number[]): string {
+  const max = Math.max(0, ...counts);
+  return counts
+    .map((count) => {
+      if (max === 0) return SPARK_CHARS[0];
+      return SPARK_CHARS[Math.round((count / max) * (SPARK_CHARS.length - 1))];
+    })
+    .join('');
+}
+
+/**
+ * Align the window to whole buckets, the last one containing now
+ */
+function bucketWindow(options: FrequencyOptions): { start: number; buckets: number } {
+  const size = INTERVAL_MS[options.interval];
+  const buckets = Math.ceil(options.windowMs / size);
+  if (buckets < 2 || buckets > MAX_BUCKETS) {
+    const detail = `window must span between 2 and ${MAX_BUCKETS} ${options.interval}s`;
+    throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+  }
+
+  const currentBucket = Math.floor(Date.now() / size) * size;
+  return { start: currentBucket - (buckets - 1) * size, buckets };
+}
+
+/**
+ * Add an issue's events within the window to the counts, newest first.
+ * Returns true when the per-issue limit cut the count short.
+ */
+async function countEvents(
+  client: BugsinkClient,
+  issueId: string,
+  start: number,
+  counts: number[],
+  options: FrequencyOptions
+): Promise<boolean> {
+  const size = INTERVAL_MS[options.interval];
+  let counted = 0;
+
+  for await (const event of client.iterateEvents(issueId, { order: 'desc' })) {
+    const timestamp = Date.parse(event.timestamp);
+    if (timestamp < start) return false;
+    if (++counted > options.maxEventsPerIssue) return true;
+
+    const bucket = Math.floor((timestamp - start) / size);
+    if (bucket < counts.length) counts[bucket]++;
+  }
+  return false;
+}
+
+function summarize(
+  scope: EventFrequency['scope'],
+  id: string,
+  start: number,
+  counts: number[],
+  options: FrequencyOptions,
+  issuesCounted: number,
+  truncated: boolean
+): EventFrequency {
+  const size = INTERVAL_MS[options.interval];
+  const baseline = counts.slice(0, -1);
+  const baselineMean = baseline.reduce((sum, count) => sum + count, 0) / baseline.length;
+  const latest = counts[counts.length - 1];
+  const ratio = baselineMean > 0 ? latest / baselineMean : null;
+
+  return {
+    scope,
+    id,
+    interval: options.interval,
+    window_start: new Date(start).toISOString(),
+    window_end: new Date(start + counts.length * size).toISOString(),
+    total: counts.reduce((sum, count) => sum + count, 0),
+    buckets: counts.map((count, i) => ({ start: new Date(start + i * size).toISOString(), count })),
+    sparkline: sparkline(counts),
+    baseline_mean: Math.round(baselineMean * 100) / 100,
+    latest,
+    spike: latest >= MIN_SPIKE_EVENTS && (ratio === null || ratio >= options.spikeFactor),
+    spike_ratio: ratio === null ? null : Math.round(ratio * 100) / 100,
+    issues_counted: issuesCounted,
+    truncated,
+  };
+}
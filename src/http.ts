@@ -0,0 +1,331 @@
+/**
+ * HTTP Transport
+ *
+ * Serves the MCP server over Streamable HTTP (`/mcp`) with the legacy
+ * HTTP+SSE transport (`GET /sse` + `POST /messages`) as a fallback for older
+ * clients. Each session gets its own MCP server instance.
+ *
+ * Every request except `GET /health` must carry one of the configured API
+ * keys, either as `Authorization: Bearer <key>` or `X-API-Key: <key>`. Keys
+ * can be scoped to a subset of instances, and a session stays bound to the
+ * key that created it. Without keys the server only listens on loopback, and
+ * only answers requests addressed to it by a loopback name or its bind
+ * address, so a web page cannot reach it through DNS rebinding.
+ *
+ * Sessions that see no requests for a while, with no stream open, are closed,
+ * so clients that vanish without ending their session do not pile up.
+ */
+
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { ApiKeyConfig, HttpConfig } from './config.js';
+import type { InstanceRegistry } from './instances.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+const INVALID_JSON = Symbol('invalid JSON');
+const BODY_TOO_LARGE = Symbol('body too large');
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  /** Name of the API key that opened the session */
+  keyName: string | null;
+  /** When the session last received a request (ms since the epoch) */
+  lastActive: number;
+  /** Number of open event streams; a session is not idle while one is open */
+  openStreams: number;
+}
+
+export interface HttpServerOptions {
+  config: HttpConfig;
+  instances: InstanceRegistry;
+  createServer: (instances: InstanceRegistry) => McpServer;
+  /** Close sessions idle for longer than this (default: 30 minutes) */
+  sessionIdleMs?: number;
+}
+
+/**
+ * Start the HTTP server and resolve once it is listening
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<{ url: string; close: () => Promise<void> }> {
+  const { config } = options;
+
+  if (config.apiKeys.length === 0 && !LOOPBACK_HOSTS.has(config.host)) {
+    throw new Error(
+      `Refusing to serve on ${config.host} without API keys. Configure http.api_keys or BUGSINK_MCP_API_KEYS, or bind to 127.0.0.1.`
+    );
+  }
+
+  const sessions = new Map<string, Session>();
+  const idleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const sweeper = setInterval(() => closeIdleSessions(sessions, idleMs), Math.min(idleMs, 60_000));
+  sweeper.unref();
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res, options, sessions).catch((error) => {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendJsonError(res, 500, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => resolve());
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : config.port;
+  const host = config.host.includes(':') ? `[${config.host}]` : config.host;
+
+  return {
+    url: `http://${host}:${port}`,
+    close: async () => {
+      clearInterval(sweeper);
+      await Promise.all([...sessions.values()].map((session) => session.transport.close()));
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+async function handleRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: HttpServerOptions,
+  sessions: Map<string, Session>
+): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  if (url.pathname === '/health' && req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"status":"ok"}');
+    return;
+  }
+
+  if (options.config.apiKeys.length === 0 && !allowedHost(req, options.config.host)) {
+    sendJsonError(res, 403, `Host "${req.headers.host ?? ''}" is not allowed`);
+    return;
+  }
+
+  const apiKey = authenticate(req, options.config.apiKeys);
+  if (apiKey === undefined) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    sendJsonError(res, 401, 'Missing or invalid API key');
+    return;
+  }
+  const keyName = apiKey?.name ?? null;
+
+  if (url.pathname === '/mcp') {
+    await handleStreamableHttp(req, res, options, sessions, apiKey);
+  } else if (url.pathname === '/sse' && req.method === 'GET') {
+    const transport = new SSEServerTransport('/messages', res);
+    const server = options.createServer(scopeInstances(options.instances, apiKey));
+    const session = { transport, server, keyName, lastActive: Date.now(), openStreams: 0 };
+    sessions.set(transport.sessionId, session);
+    trackStream(session, res);
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+  } else if (url.pathname === '/messages' && req.method === 'POST') {
+    const session = findSession(res, sessions, url.searchParams.get('sessionId'), keyName);
+    if (!session) return;
+    if (!(session.transport instanceof SSEServerTransport)) {
+      sendJsonError(res, 400, 'Session does not use the SSE transport');
+      return;
+    }
+    const body = await readJsonBody(req);
+    if (!checkBody(res, body)) return;
+    await session.transport.handlePostMessage(req, res, body);
+  } else {
+    sendJsonError(res, 404, 'Not found');
+  }
+}
+
+async function handleStreamableHttp(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: HttpServerOptions,
+  sessions: Map<string, Session>,
+  apiKey: ApiKeyConfig | null
+): Promise<void> {
+  const keyName = apiKey?.name ?? null;
+  const sessionId = req.headers['mcp-session-id'];
+  const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+  if (!checkBody(res, body)) return;
+
+  if (typeof sessionId === 'string') {
+    const session = findSession(res, sessions, sessionId, keyName);
+    if (!session) return;
+    if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+      sendJsonError(res, 400, 'Session does not use the Streamable HTTP transport');
+      return;
+    }
+    // GET opens the stream of server-initiated messages
+    if (req.method === 'GET') trackStream(session, res);
+    await session.transport.handleRequest(req, res, body);
+    return;
+  }
+
+  if (req.method !== 'POST' || !isInitializeRequest(body)) {
+    sendJsonError(res, 400, 'Missing mcp-session-id header; start a session with an initialize request');
+    return;
+  }
+
+  const server = options.createServer(scopeInstances(options.instances, apiKey));
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (id) => {
+      sessions.set(id, { transport, server, keyName, lastActive: Date.now(), openStreams: 0 });
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) sessions.delete(transport.sessionId);
+  };
+
+  await server.connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+/**
+ * Whether the Host header names a loopback host or the bind address
+ */
+function allowedHost(req: IncomingMessage, bindHost: string): boolean {
+  const host = req.headers.host;
+  if (!host) return false;
+
+  let hostname: string;
+  try {
+    hostname = new URL(`http://${host}`).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return false;
+  }
+  return LOOPBACK_HOSTS.has(hostname) || hostname === bindHost;
+}
+
+/**
+ * Match the request's credentials against the configured keys.
+ * Returns null when no keys are configured (open loopback server),
+ * and undefined when authentication fails.
+ */
+function authenticate(req: IncomingMessage, apiKeys: ApiKeyConfig[]): ApiKeyConfig | null | undefined {
+  if (apiKeys.length === 0) return null;
+
+  const authorization = req.headers.authorization;
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const headerKey = req.headers['x-api-key'];
+  const presented = bearer ?? (typeof headerKey === 'string' ? headerKey : undefined);
+  if (!presented) return undefined;
+
+  return apiKeys.find((apiKey) => safeEqual(apiKey.key, presented));
+}
+
+function safeEqual(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function scopeInstances(instances: InstanceRegistry, apiKey: ApiKeyConfig | null): InstanceRegistry {
+  return apiKey?.instances ? instances.scoped(apiKey.instances) : instances;
+}
+
+function findSession(
+  res: ServerResponse,
+  sessions: Map<string, Session>,
+  sessionId: string | null,
+  keyName: string | null
+): Session | undefined {
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  if (!session) {
+    sendJsonError(res, 404, 'Unknown or expired session');
+    return undefined;
+  }
+  if (session.keyName !== keyName) {
+    sendJsonError(res, 403, 'Session belongs to a different API key');
+    return undefined;
+  }
+  session.lastActive = Date.now();
+  return session;
+}
+
+/**
+ * Count an event stream as open until its response closes
+ */
+function trackStream(session: Session, res: ServerResponse): void {
+  session.openStreams++;
+  res.once('close', () => {
+    session.openStreams--;
+    session.lastActive = Date.now();
+  });
+}
+
+/**
+ * Close and forget sessions that have no stream open and have not received a
+ * request within `idleMs`
+ */
+function closeIdleSessions(sessions: Map<string, Session>, idleMs: number): void {
+  const cutoff = Date.now() - idleMs;
+  for (const [id, session] of sessions) {
+    if (session.openStreams > 0 || session.lastActive > cutoff) continue;
+    sessions.delete(id);
+    session.transport.close().catch((error) => {
+      console.error(`Could not close idle session ${id}:`, error);
+    });
+  }
+}
+
+/**
+ * Answer a body that could not be read with 413 or 400; true when the body is usable
+ */
+function checkBody(res: ServerResponse, body: unknown): boolean {
+  if (body === BODY_TOO_LARGE) {
+    // The rest of the body was not read, so the connection cannot be reused
+    res.setHeader('Connection', 'close');
+    sendJsonError(res, 413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    return false;
+  }
+  if (body === INVALID_JSON) {
+    sendJsonError(res, 400, 'Parse error: invalid JSON body');
+    return false;
+  }
+  return true;
+}
+
+async function readJsonBody(
+  req: IncomingMessage
+): Promise<unknown | typeof INVALID_JSON | typeof BODY_TOO_LARGE> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) return BODY_TOO_LARGE;
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return INVALID_JSON;
+  }
+}
+
+/**
+ * Send a JSON-RPC style error for failures outside an MCP session
+ */
+function sendJsonError(res: ServerResponse, status: number, message: string): void {
+  res
+    .writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
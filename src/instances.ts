@@ -0,0 +1,85 @@
+/**
+ * Instance Registry
+ *
+ * Routes tool calls to the BugsinkClient of a named instance. Clients are
+ * created on first use, so an unreachable instance never delays startup.
+ */
+
+import { BugsinkClient } from './bugsink-client.js';
+import type { ServerConfig } from './config.js';
+import { BugsinkValidationError } from './errors.js';
+
+export interface InstanceInfo {
+  name: string;
+  baseUrl: string;
+  isDefault: boolean;
+}
+
+export interface RegistryConfig {
+  defaultInstance: string;
+  instances: ServerConfig['instances'];
+}
+
+export class InstanceRegistry {
+  constructor(
+    private config: RegistryConfig,
+    private clients = new Map<string, BugsinkClient>()
+  ) {}
+
+  /**
+   * A view of this registry limited to some instances, sharing the same clients.
+   * The default stays the same if allowed, otherwise it becomes the first allowed instance.
+   */
+  scoped(names: string[]): InstanceRegistry {
+    const allowed = names.filter((name) => this.config.instances[name]);
+    const instances = Object.fromEntries(allowed.map((name) => [name, this.config.instances[name]]));
+    const defaultInstance = allowed.includes(this.config.defaultInstance)
+      ? this.config.defaultInstance
+      : allowed[0];
+
+    return new InstanceRegistry({ defaultInstance, instances }, this.clients);
+  }
+
+  get defaultInstance(): string {
+    return this.config.defaultInstance;
+  }
+
+  /**
+   * Names and URLs of all configured instances, default first
+   */
+  list(): InstanceInfo[] {
+    return Object.entries(this.config.instances)
+      .map(([name, instance]) => ({
+        name,
+        baseUrl: instance.baseUrl,
+        isDefault: name === this.config.defaultInstance,
+      }))
+      .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+  }
+
+  /**
+   * Resolve an instance name (or the default) to its name, validating it exists
+   */
+  resolve(name?: string): string {
+    const resolved = name || this.config.defaultInstance;
+    if (!this.config.instances[resolved]) {
+      const detail = `unknown instance "${resolved}"; available: ${Object.keys(this.config.instances).join(', ')}`;
+      throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+    }
+    return resolved;
+  }
+
+  /**
+   * Get the client for an instance, or for the default instance
+   */
+  get(name?: string): BugsinkClient {
+    const resolved = this.resolve(name);
+
+    let client = this.clients.get(resolved);
+    if (!client) {
+      client = new BugsinkClient(this.config.instances[resolved]);
+      this.clients.set(resolved, client);
+    }
+    return client;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Cross-Project Issue Search
+ *
+ * Bugsink lists issues one project at a time. This scans the issues of all
+ * projects (or one team's projects) for a text or regular expression in the
+ * exception type, exception value or transaction, so an issue can be found
+ * from an error message or module name alone.
+ */
+
+import type { BugsinkClient, Issue, Project } from './bugsink-client.js';
+import { matchesFilter, TIME_BOUNDS, type IssueFilter } from './bulk-triage.js';
+import { BugsinkValidationError } from './errors.js';
+import { parseTimeBound } from './time.js';
+
+export const SEARCH_FIELDS = ['calculated_type', 'calculated_value', 'transaction'] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+/** A match in the exception type says more than one in the value or transaction */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  calculated_type: 3,
+  calculated_value: 2,
+  transaction: 1,
+};
+
+export interface SearchQuery {
+  /** Text to look for (case-insensitive), or a regular expression when `regex` is set */
+  query: string;
+  regex?: boolean;
+  /** Fields to search (default: all) */
+  fields?: SearchField[];
+  /** Only search the projects of this team */
+  team_id?: string;
+  /** Only search these projects */
+  project_ids?: number[];
+  /** Status and first/last-seen bounds, as for bulk triage */
+  filter?: Pick<IssueFilter, 'status' | (typeof TIME_BOUNDS)[number]>;
+}
+
+export interface SearchLimits {
+  /** Maximum number of results returned */
+  maxResults: number;
+  /** Maximum number of issues scanned per project */
+  maxScanPerProject: number;
+}
+
+export interface SearchHit {
+  issue: Issue;
+  project: { id: number; name: string };
+  matched: SearchField[];
+  score: number;
+}
+
+export interface SearchResult {
+  projects_searched: number;
+  scanned: number;
+  /** More issues matched than were returned */
+  truncated: boolean;
+  /** Projects whose scan stopped at the per-project limit, so hits may be missing */
+  incomplete_projects: number[];
+  hits: SearchHit[];
+}
+
+/**
+ * Search the issues of all (or a team's) projects and rank the matches:
+ * by how many and which fields matched, whole-field matches first, then
+ * by most recently seen.
+ */
+export async function searchIssues(
+  client: BugsinkClient,
+  query: SearchQuery,
+  limits: SearchLimits
+): Promise<SearchResult> {
+  const matcher = compileQuery(query);
+  const fields = query.fields?.length ? query.fields : [...SEARCH_FIELDS];
+
+  // Reject invalid time bounds before scanning, and use the same cutoffs throughout
+  const now = Date.now();
+  for (const bound of TIME_BOUNDS) {
+    const value = query.filter?.[bound];
+    if (value) parseTimeBound(value, now);
+  }
+
+  const projects: Project[] = [];
+  for await (const project of client.iterateProjects()) {
+    if (query.team_id && project.team !== query.team_id) continue;
+    if (query.project_ids && !query.project_ids.includes(project.id)) continue;
+    projects.push(project);
+  }
+
+  const scans = await Promise.all(
+    projects.map(async (project) => {
+      const hits: SearchHit[] = [];
+      let scanned = 0;
+      let incomplete = false;
+
+      // One issue past the limit tells whether the project has more
+      for await (const issue of client.iterateIssues(project.id, {
+        maxItems: limits.maxScanPerProject + 1,
+      })) {
+        if (scanned === limits.maxScanPerProject) {
+          incomplete = true;
+          break;
+        }
+        scanned++;
+        if (query.filter && !matchesFilter(issue, query.filter, now)) continue;
+
+        const hit = scoreIssue(issue, fields, matcher);
+        if (hit) hits.push({ issue, project: { id: project.id, name: project.name }, ...hit });
+      }
+
+      return { project, hits, scanned, incomplete };
+    })
+  );
+
+  const hits = scans
+    .flatMap((scan) => scan.hits)
+    .sort(
+      (a, b) => b.score - a.score || Date.parse(b.issue.last_seen) - Date.parse(a.issue.last_seen)
+    );
+
+  return {
+    projects_searched: projects.length,
+    scanned: scans.reduce((sum, scan) => sum + scan.scanned, 0),
+    truncated: hits.length > limits.maxResults,
+    incomplete_projects: scans.filter((scan) => scan.incomplete).map((scan) => scan.project.id),
+    hits: hits.slice(0, limits.maxResults),
+  };
+}
+
+type Matcher = (text: string) => 'whole' | 'partial' | null;
+
+function compileQuery(query: SearchQuery): Matcher {
+  if (!query.query) {
+    const detail = 'query must not be empty';
+    throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+  }
+
+  if (query.regex) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(query.query, 'i');
+    } catch (error) {
+      // SyntaxError messages already read "Invalid regular expression: ..."
+      const detail = (error as Error).message;
+      throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+    }
+    return (text) => {
+      const match = pattern.exec(text);
+      if (!match) return null;
+      return match[0].length === text.length ? 'whole' : 'partial';
+    };
+  }
+
+  const needle = query.query.toLowerCase();
+  return (text) => {
+    const haystack = text.toLowerCase();
+    if (haystack === needle) return 'whole';
+    return haystack.includes(needle) ? 'partial' : null;
+  };
+}
+
+function scoreIssue(
+  issue: Issue,
+  fields: SearchField[],
+  matcher: Matcher
+): { matched: SearchField[]; score: number } | null {
+  const matched: SearchField[] = [];
+  let score = 0;
+
+  for (const field of fields) {
+    const match = matcher(issue[field] ?? '');
+    if (!match) continue;
+    matched.push(field);
+    score += FIELD_WEIGHTS[field] * (match === 'whole' ? 2 : 1);
+  }
+
+  return matched.length > 0 ? { matched, score } : null;
+}
@@ -0,0 +1,154 @@
+/**
+ * Permission Policy
+ *
+ * Decides which tools a server offers and which projects a call may touch.
+ * Read-only mode and the tool allow/deny lists leave tools out entirely, so
+ * an agent never sees them. Project restrictions are checked per call against
+ * the project the call targets: given directly as `project_id`, or looked up
+ * from the issue, event or release it names.
+ */
+
+import type { BugsinkClient } from './bugsink-client.js';
+import type { PermissionsConfig } from './config.js';
+import { BugsinkPolicyError } from './errors.js';
+
+/** Tools that change data in Bugsink; left out in read-only mode */
+export const MUTATING_TOOLS: ReadonlySet<string> = new Set([
+  'create_project',
+  'update_project',
+  'create_team',
+  'update_team',
+  'resolve_issue',
+  'resolve_issue_in_next_release',
+  'mute_issue',
+  'unmute_issue',
+  'reopen_issue',
+  'bulk_update_issues',
+  'create_release',
+]);
+
+/** Tools that only read; together with MUTATING_TOOLS, every tool the server has */
+export const READ_TOOLS: ReadonlySet<string> = new Set([
+  'test_connection',
+  'list_instances',
+  'get_cache_stats',
+  'get_audit_log',
+  'list_projects',
+  'get_project',
+  'list_teams',
+  'list_issues',
+  'get_issue',
+  'search_issues',
+  'list_events',
+  'get_event',
+  'compare_events',
+  'issue_breakdown',
+  'get_event_frequency',
+  'get_stacktrace',
+  'get_local_source',
+  'list_releases',
+  'get_release',
+  'release_report',
+  'generate_digest',
+  'get_changes_since',
+]);
+
+const EVENT_ARGS = ['event_id', 'event_a', 'event_b'];
+
+/**
+ * Whether a name is one of the server's tools
+ */
+export function isToolName(name: string): boolean {
+  return READ_TOOLS.has(name) || MUTATING_TOOLS.has(name);
+}
+
+export class PermissionPolicy {
+  constructor(private config: PermissionsConfig) {}
+
+  /**
+   * Whether a tool is offered at all
+   */
+  toolEnabled(tool: string): boolean {
+    if (this.config.readOnly && MUTATING_TOOLS.has(tool)) return false;
+    if (this.config.allowTools && !this.config.allowTools.includes(tool)) return false;
+    return !this.config.denyTools.includes(tool);
+  }
+
+  /**
+   * The projects of an instance that can be accessed, or undefined when all can
+   */
+  allowedProjects(instance: string): number[] | undefined {
+    return this.config.projects[instance]?.allowed;
+  }
+
+  /**
+   * Throw a BugsinkPolicyError unless the project can be accessed (or changed)
+   */
+  checkProject(instance: string, projectId: number, change = false): void {
+    const restrictions = this.config.projects[instance];
+    if (!restrictions) return;
+
+    if (restrictions.allowed && !restrictions.allowed.includes(projectId)) {
+      throw new BugsinkPolicyError(
+        `Denied by policy: project ${projectId} is not accessible on instance "${instance}"`
+      );
+    }
+    if (change && restrictions.readOnly.includes(projectId)) {
+      throw new BugsinkPolicyError(
+        `Denied by policy: project ${projectId} is read-only on instance "${instance}"`
+      );
+    }
+  }
+
+  /**
+   * Check a tool call against the project restrictions of its instance.
+   * Changes that target no project (such as creating a team) are denied when
+   * the instance is restricted to some projects.
+   */
+  async checkToolCall(
+    tool: string,
+    args: Record<string, unknown>,
+    client: BugsinkClient,
+    instance: string
+  ): Promise<void> {
+    const restrictions = this.config.projects[instance];
+    if (!restrictions) return;
+
+    const change = MUTATING_TOOLS.has(tool);
+    const projects = await targetProjects(args, client);
+    if (projects.length === 0 && change && restrictions.allowed) {
+      throw new BugsinkPolicyError(
+        `Denied by policy: ${tool} is not limited to a project, and instance "${instance}" is restricted to projects ${restrictions.allowed.join(', ')}`
+      );
+    }
+    for (const projectId of projects) {
+      this.checkProject(instance, projectId, change);
+    }
+  }
+}
+
+/**
+ * The projects a call's arguments refer to
+ */
+async function targetProjects(
+  args: Record<string, unknown>,
+  client: BugsinkClient
+): Promise<number[]> {
+  const projects = new Set<number>();
+
+  if (typeof args.project_id === 'number') projects.add(args.project_id);
+  if (Array.isArray(args.project_ids)) {
+    for (const id of args.project_ids) projects.add(id as number);
+  }
+  if (typeof args.issue_id === 'string') {
+    projects.add((await client.getIssue(args.issue_id)).project);
+  }
+  for (const name of EVENT_ARGS) {
+    if (typeof args[name] === 'string') projects.add((await client.getEvent(args[name])).project);
+  }
+  if (typeof args.release_id === 'string') {
+    projects.add((await client.getRelease(args.release_id)).project);
+  }
+
+  return [...projects];
+}
@@ -0,0 +1,297 @@
+/**
+ * MCP Prompts
+ *
+ * Reusable investigation workflows. Each prompt fetches the relevant Bugsink
+ * data up front and embeds it next to the instructions, so every teammate's
+ * agent starts from the same context and follows the same steps.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { BugsinkClient, Issue, Release } from './bugsink-client.js';
+import { truncateText, type OutputBudget } from './budget.js';
+import { BugsinkNotFoundError, BugsinkValidationError } from './errors.js';
+import { formatEventDetails, formatIssue, formatRelease } from './formatters.js';
+import type { InstanceRegistry } from './instances.js';
+import type { PermissionPolicy } from './permissions.js';
+import { withRedactionNote, type Redacted, type Redactor } from './redact.js';
+
+const DAY_MS = 86_400_000;
+const MAX_SCANNED_ISSUES = 500;
+const MAX_LISTED_ISSUES = 25;
+
+/**
+ * Wrap instructions and embedded data into a single user message
+ */
+function promptResult(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+function parseProjectId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id)) {
+    const detail = `project_id must be a number, got "${value}"`;
+    throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+  }
+  return id;
+}
+
+/**
+ * Fetch the stacktrace Markdown, falling back to a note when it is unavailable
+ */
+async function stacktraceOrNote(client: BugsinkClient, eventId: string): Promise<string> {
+  try {
+    return await client.getEventStacktrace(eventId);
+  } catch (error) {
+    return `(Stacktrace unavailable: ${error instanceof Error ? error.message : String(error)})`;
+  }
+}
+
+/**
+ * Collect a project's issues last seen at or after `since`, most recent first
+ */
+async function issuesSeenSince(
+  client: BugsinkClient,
+  projectId: number,
+  since: number
+): Promise<Issue[]> {
+  const issues: Issue[] = [];
+  const iterator = client.iterateIssues(projectId, {
+    sort: 'last_seen',
+    order: 'desc',
+    maxItems: MAX_SCANNED_ISSUES,
+  });
+
+  for await (const issue of iterator) {
+    if (Date.parse(issue.last_seen) < since) break;
+    issues.push(issue);
+  }
+  return issues;
+}
+
+/**
+ * List the first issues, redacted
+ */
+function issueList(issues: Issue[], redactor: Redactor): Redacted<string> {
+  if (issues.length === 0) return { value: '(none)', redacted: 0 };
+
+  const { value: listed, redacted } = redactor.redact(issues.slice(0, MAX_LISTED_ISSUES));
+  const shown = listed.map(formatIssue).join('\n\n');
+  const more = issues.length > MAX_LISTED_ISSUES ? `\n\n…and ${issues.length - MAX_LISTED_ISSUES} more` : '';
+  return { value: shown + more, redacted };
+}
+
+/**
+ * Register all Bugsink prompts on a server
+ */
+export function registerPrompts(
+  server: McpServer,
+  instances: InstanceRegistry,
+  policy: PermissionPolicy,
+  redactor: Redactor,
+  budget: OutputBudget
+): void {
+  const fitStacktrace = (markdown: string) =>
+    truncateText(markdown, budget.maxChars, 'use get_stacktrace with a larger max_chars');
+  const instanceArg = z
+    .string()
+    .optional()
+    .describe('Name of the Bugsink instance to use (default instance if omitted)');
+
+  server.prompt(
+    'triage_issue',
+    'Triage an issue: assess impact from its latest event and decide whether to fix, resolve or mute it',
+    {
+      issue_id: z.string().describe('The issue ID (UUID) to triage'),
+      instance: instanceArg,
+    },
+    async ({ issue_id, instance }) => {
+      const client = instances.get(instance);
+      const fetched = await client.getIssue(issue_id);
+      policy.checkProject(instances.resolve(instance), fetched.project);
+      const issue = redactor.redact(fetched);
+      const events = await client.listEvents(issue_id, { limit: 1, order: 'desc' });
+      const latest = events.results[0];
+      const event = latest ? redactor.redact(await client.getEvent(latest.id)) : null;
+      const stacktrace = event
+        ? redactor.redactText(await stacktraceOrNote(client, event.value.id))
+        : null;
+      const redacted = issue.redacted + (event?.redacted ?? 0) + (stacktrace?.redacted ?? 0);
+
+      const text = [
+        'Triage the following Bugsink issue.',
+        '',
+        '1. Summarize what fails and where, based on the exception and the in-app frames of the latest event.',
+        '2. Assess impact: occurrence count, how long it has been happening, and whether it is still recurring.',
+        '3. Recommend exactly one action: fix now (with a short fix outline), resolve (already fixed), resolve in next release, or mute (noise), and explain why.',
+        '4. If you recommend a state change, use resolve_issue, resolve_issue_in_next_release or mute_issue to apply it once confirmed.',
+        '',
+        '## Issue',
+        '',
+        formatIssue(issue.value),
+        '',
+        '## Latest event',
+        '',
+        event ? formatEventDetails(event.value, budget) : '(No events stored for this issue)',
+        ...(stacktrace ? ['', '## Stacktrace', '', fitStacktrace(stacktrace.value)] : []),
+      ].join('\n');
+
+      return promptResult(`Triage of issue ${fetched.id}`, withRedactionNote(text, redacted));
+    }
+  );
+
+  server.prompt(
+    'investigate_event',
+    'Root-cause analysis of a single event: read the stacktrace, find the in-app frame and propose a fix',
+    {
+      event_id: z.string().describe('The event ID (UUID) to investigate'),
+      instance: instanceArg,
+    },
+    async ({ event_id, instance }) => {
+      const client = instances.get(instance);
+      const fetched = await client.getEvent(event_id);
+      policy.checkProject(instances.resolve(instance), fetched.project);
+      const event = redactor.redact(fetched);
+      const stacktrace = redactor.redactText(await stacktraceOrNote(client, fetched.id));
+
+      const text = [
+        'Investigate the root cause of the following Bugsink event.',
+        '',
+        '1. Read the stacktrace from the most recent frame outwards and identify the first in-app frame (application code, not libraries).',
+        '2. Explain the failure: which value or state was unexpected at that frame, and how it got there.',
+        '3. Use the request, tags and contexts to identify the conditions needed to reproduce it.',
+        '4. Propose a concrete code fix for the in-app frame, and a test that would have caught it.',
+        '5. Say what additional information would confirm the diagnosis if it remains uncertain.',
+        '',
+        '## Event',
+        '',
+        formatEventDetails(event.value, budget),
+        '',
+        '## Stacktrace',
+        '',
+        fitStacktrace(stacktrace.value),
+      ].join('\n');
+
+      return promptResult(
+        `Investigation of event ${fetched.id}`,
+        withRedactionNote(text, event.redacted + stacktrace.redacted)
+      );
+    }
+  );
+
+  server.prompt(
+    'release_health',
+    "Assess a release's health: issues first seen since it was released and still-active older issues",
+    {
+      project_id: z.string().describe('The project ID the release belongs to'),
+      version: z.string().describe("The release version (e.g., '1.4.2')"),
+      instance: instanceArg,
+    },
+    async ({ project_id, version, instance }) => {
+      const client = instances.get(instance);
+      const projectId = parseProjectId(project_id);
+      policy.checkProject(instances.resolve(instance), projectId);
+
+      let release: Release | undefined;
+      for await (const candidate of client.iterateReleases(projectId)) {
+        if (candidate.version === version) {
+          release = candidate;
+          break;
+        }
+      }
+      if (!release) {
+        throw new BugsinkNotFoundError(`Release "${version}" not found in project ${projectId}`);
+      }
+
+      const releasedAt = Date.parse(release.date_released);
+      const active = await issuesSeenSince(client, projectId, releasedAt);
+      const introduced = active.filter((issue) => Date.parse(issue.first_seen) >= releasedAt);
+      const carriedOver = active.filter((issue) => Date.parse(issue.first_seen) < releasedAt);
+      const introducedList = issueList(introduced, redactor);
+      const carriedOverList = issueList(carriedOver, redactor);
+
+      const text = [
+        `Assess the health of release ${version} of project ${projectId}.`,
+        '',
+        '1. Decide whether any newly introduced issue is likely caused by this release, and how severe it is.',
+        '2. Note older issues that are still occurring after the release (not fixed by it).',
+        '3. Give a go / no-go verdict with a one-paragraph justification, and list follow-up actions.',
+        '',
+        '## Release',
+        '',
+        formatRelease(release),
+        '',
+        `## Issues first seen since the release (${introduced.length})`,
+        '',
+        introducedList.value,
+        '',
+        `## Older issues still occurring since the release (${carriedOver.length})`,
+        '',
+        carriedOverList.value,
+      ].join('\n');
+
+      return promptResult(
+        `Health of release ${version}`,
+        withRedactionNote(text, introducedList.redacted + carriedOverList.redacted)
+      );
+    }
+  );
+
+  server.prompt(
+    'weekly_error_review',
+    "Review a project's last 7 days of errors: new issues, the noisiest issues and recent releases",
+    {
+      project_id: z.string().describe('The project ID to review'),
+      instance: instanceArg,
+    },
+    async ({ project_id, instance }) => {
+      const client = instances.get(instance);
+      const projectId = parseProjectId(project_id);
+      policy.checkProject(instances.resolve(instance), projectId);
+      const since = Date.now() - 7 * DAY_MS;
+
+      const active = await issuesSeenSince(client, projectId, since);
+      const introduced = active.filter((issue) => Date.parse(issue.first_seen) >= since);
+      const noisiest = [...active]
+        .sort((a, b) => b.digested_event_count - a.digested_event_count)
+        .slice(0, 10);
+      const introducedList = issueList(introduced, redactor);
+      const noisiestList = issueList(noisiest, redactor);
+
+      const releases: Release[] = [];
+      for await (const release of client.iterateReleases(projectId)) {
+        if (Date.parse(release.date_released) >= since) releases.push(release);
+      }
+
+      const text = [
+        `Write a weekly error review for project ${projectId} covering the last 7 days.`,
+        '',
+        '1. Summarize the overall trend: how many issues were active and how many are new.',
+        '2. For each new issue, say whether it needs attention and, if it lines up with a release, which one.',
+        '3. For the noisiest issues, suggest whether to fix, resolve or mute them.',
+        '4. End with a short prioritized action list for the coming week.',
+        '',
+        `## New issues this week (${introduced.length})`,
+        '',
+        introducedList.value,
+        '',
+        `## Noisiest active issues (by total occurrences)`,
+        '',
+        noisiestList.value,
+        '',
+        `## Releases this week (${releases.length})`,
+        '',
+        releases.length > 0 ? releases.map(formatRelease).join('\n\n') : '(none)',
+      ].join('\n');
+
+      return promptResult(
+        `Weekly error review for project ${projectId}`,
+        withRedactionNote(text, introducedList.redacted + noisiestList.redacted)
+      );
+    }
+  );
+}
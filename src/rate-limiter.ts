@@ -0,0 +1,69 @@
+/**
+ * Client-side Rate Limiter
+ *
+ * Caps the number of in-flight requests and spaces request starts so a
+ * single agent paging through thousands of issues cannot flood the instance.
+ */
+
+export interface RateLimiterOptions {
+  /** Maximum number of concurrent requests (default: 4) */
+  maxConcurrency?: number;
+  /** Maximum request starts per second; 0 disables spacing (default: 0) */
+  requestsPerSecond?: number;
+}
+
+export class RateLimiter {
+  private readonly maxConcurrency: number;
+  private readonly minInterval: number;
+  private active = 0;
+  private nextStart = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 4);
+    this.minInterval = options.requestsPerSecond ? 1000 / options.requestsPerSecond : 0;
+  }
+
+  /**
+   * Run a task once a concurrency slot is free and the rate allows it
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+    } else {
+      // The releasing task hands its slot over directly
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    }
+
+    if (this.minInterval > 0) {
+      const now = Date.now();
+      const startAt = Math.max(now, this.nextStart);
+      this.nextStart = startAt + this.minInterval;
+      if (startAt > now) {
+        await sleep(startAt - now);
+      }
+    }
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
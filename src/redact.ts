@@ -0,0 +1,231 @@
+/**
+ * Redaction
+ *
+ * Events carry whatever the SDK captured: request headers with credentials
+ * and cookies, user emails and IP addresses, tokens in URLs and messages.
+ * Before an event is rendered for a model, values under sensitive keys are
+ * replaced entirely and sensitive patterns inside strings are masked. The
+ * event is copied, never changed in place, since it may live in the cache.
+ *
+ * Built-in rules can be extended with extra key names and regex patterns
+ * from the config file.
+ */
+
+import { isIPv4, isIPv6 } from 'node:net';
+import type { RedactionConfig } from './config.js';
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Substrings of key names whose values are always redacted, matched
+ * case-insensitively with `-` and `_` ignored (so `X-Api-Key` matches `apikey`)
+ */
+const SENSITIVE_KEYS = [
+  'authorization',
+  'cookie',
+  'password',
+  'passwd',
+  'secret',
+  'token',
+  'apikey',
+  'session',
+  'csrf',
+  'credential',
+  'privatekey',
+];
+
+/**
+ * Keys whose values may be lists of `[name, value]` pairs, as SDKs send
+ * headers and the like; each value is checked against its name
+ */
+const PAIR_LIST_KEYS = ['headers', 'cookies', 'env', 'querystring', 'tags'];
+
+/**
+ * Keys holding versions and product names, such as `Chrome 120.0.0.0` or
+ * `app@1.2.3.4`, which look like IPv4 addresses but are kept as they are
+ */
+const VERSION_KEYS = [
+  'version',
+  'release',
+  'dist',
+  'browser',
+  'browser.name',
+  'browser.version',
+  'os',
+  'os.name',
+  'os.version',
+  'runtime',
+  'sdk',
+  'useragent',
+];
+
+interface PatternRule {
+  name: string;
+  pattern: RegExp;
+  /** Extra check for a match, to avoid masking look-alikes */
+  accept?: (match: string) => boolean;
+  /** Replacement for a match; defaults to `[REDACTED:<name>]` */
+  replace?: (match: string, ...groups: string[]) => string;
+}
+
+const BUILTIN_PATTERNS: PatternRule[] = [
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  },
+  {
+    name: 'bearer',
+    pattern: /\b(Bearer|Basic|Token)\s+[A-Za-z0-9._~+/=-]{8,}/gi,
+    replace: (_match, scheme) => `${scheme} ${REDACTED}`,
+  },
+  {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  {
+    name: 'credit_card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: (match) => luhnValid(match.replace(/\D/g, '')),
+  },
+  {
+    name: 'ip',
+    // Not after `@` or a product token like `Chrome/`, where it is a version
+    pattern: /(?<![\w.@]|[A-Za-z]\/)\d{1,3}(?:\.\d{1,3}){3}(?![\w.])/g,
+    accept: isIPv4,
+  },
+  {
+    name: 'ip',
+    pattern: /(?<![\w:.])[0-9A-Fa-f]{0,4}(?::[0-9A-Fa-f]{0,4}){2,7}(?![\w:])/g,
+    // At least three groups, so `::1` and `a::b` style paths stay readable
+    accept: (match) => isIPv6(match) && match.split(':').filter(Boolean).length >= 3,
+  },
+];
+
+export interface Redacted<T> {
+  value: T;
+  /** Number of values (or parts of values) replaced */
+  redacted: number;
+}
+
+export class Redactor {
+  private readonly keys: string[];
+  private readonly patterns: PatternRule[];
+
+  constructor(private config: RedactionConfig) {
+    this.keys = [...SENSITIVE_KEYS, ...config.keys].map(normalizeKey);
+    this.patterns = [
+      // Query string parameters named like a sensitive key, e.g. `?access_token=...`
+      {
+        name: 'query',
+        pattern: /([?&;])([^=&#\s]+)=[^&#\s]+/g,
+        accept: (match) => this.isSensitiveKey(match.slice(1, match.indexOf('='))),
+        replace: (_match, separator, name) => `${separator}${name}=${REDACTED}`,
+      },
+      ...BUILTIN_PATTERNS,
+      ...config.patterns.map((rule) => ({
+        name: rule.name,
+        pattern: new RegExp(rule.regex, 'g'),
+      })),
+    ];
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Redact a copy of a JSON-like value
+   */
+  redact<T>(value: T): Redacted<T> {
+    if (!this.config.enabled) return { value, redacted: 0 };
+
+    let redacted = 0;
+    const visit = (node: unknown, key?: string): unknown => {
+      if (key !== undefined && this.isSensitiveKey(key) && node != null && node !== '') {
+        redacted++;
+        return REDACTED;
+      }
+      if (typeof node === 'string') {
+        const versionKey = key !== undefined && VERSION_KEYS.includes(normalizeKey(key));
+        const result = this.maskText(node, versionKey);
+        redacted += result.redacted;
+        return result.value;
+      }
+      if (Array.isArray(node)) {
+        const pairs = key !== undefined && PAIR_LIST_KEYS.includes(normalizeKey(key));
+        return node.map((item) =>
+          pairs && Array.isArray(item) && item.length === 2 && typeof item[0] === 'string'
+            ? [visit(item[0]), visit(item[1], item[0])]
+            : visit(item)
+        );
+      }
+      if (node && typeof node === 'object') {
+        return Object.fromEntries(Object.entries(node).map(([k, v]) => [k, visit(v, k)]));
+      }
+      return node;
+    };
+
+    return { value: visit(value) as T, redacted };
+  }
+
+  /**
+   * Mask sensitive patterns in free text, such as pre-rendered Markdown
+   */
+  redactText(text: string): Redacted<string> {
+    if (!this.config.enabled) return { value: text, redacted: 0 };
+    return this.maskText(text);
+  }
+
+  /**
+   * Mask the patterns in a string; `version` leaves out the IP address rules
+   */
+  private maskText(text: string, version = false): Redacted<string> {
+    let redacted = 0;
+    let value = text;
+    for (const rule of this.patterns) {
+      if (version && rule.name === 'ip') continue;
+      value = value.replace(rule.pattern, (match: string, ...groups: string[]) => {
+        if (rule.accept && !rule.accept(match)) return match;
+        redacted++;
+        return rule.replace ? rule.replace(match, ...groups) : `[REDACTED:${rule.name}]`;
+      });
+    }
+    return { value, redacted };
+  }
+
+  private isSensitiveKey(key: string): boolean {
+    const normalized = normalizeKey(key);
+    return this.keys.some((sensitive) => normalized.includes(sensitive));
+  }
+}
+
+/**
+ * The note appended to rendered text when values were redacted; empty when none were
+ */
+export function redactionNote(redacted: number): string {
+  return redacted > 0 ? `\n\n${redacted} sensitive value(s) redacted.` : '';
+}
+
+/**
+ * Append the number of redacted values to rendered text, when there are any
+ */
+export function withRedactionNote(text: string, redacted: number): string {
+  return `${text}${redactionNote(redacted)}`;
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_\s]/g, '');
+}
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
@@ -0,0 +1,238 @@
+/**
+ * Release Report
+ *
+ * Compares a project's issues before and after a release, as a go/no-go
+ * check after a deploy: which issues are new since the release, which issues
+ * marked as fixed came back, which stopped occurring, and how event volume
+ * changed.
+ *
+ * The release is compared with the window since the previous release (or
+ * `compare_to`). The window after it runs until the next release, or now.
+ */
+
+import type { BugsinkClient, Issue, Release } from './bugsink-client.js';
+import { BugsinkNotFoundError, BugsinkValidationError } from './errors.js';
+
+/** Number of issues whose events are counted concurrently */
+const VOLUME_BATCH_SIZE = 10;
+
+export interface ReleaseReportLimits {
+  /** Maximum number of issues scanned, most recently seen first */
+  maxScan: number;
+  /** Maximum number of events counted per issue for the volume comparison */
+  maxEventsPerIssue: number;
+}
+
+export interface ReleaseWindow {
+  /** Start of the baseline window: the compared release, or as long before as the window after */
+  baseline_start: string;
+  release_date: string;
+  /** End of the window after the release: the next release, or now */
+  end: string;
+}
+
+export interface EventVolume {
+  before: number;
+  after: number;
+  before_per_hour: number;
+  after_per_hour: number;
+  /** Relative change of the hourly rate in percent; null without a baseline */
+  change_percent: number | null;
+  /** Some issues had more events than were counted */
+  truncated: boolean;
+}
+
+export interface ReleaseReport {
+  project_id: number;
+  release: Release;
+  compare_to: Release | null;
+  window: ReleaseWindow;
+  /** First seen after the release */
+  new_issues: Issue[];
+  /** Marked as fixed (in a release or by the next one) but seen after the release */
+  regressed: Issue[];
+  /** Seen in the baseline window but not since the release */
+  stopped: Issue[];
+  volume: EventVolume;
+  scanned: number;
+  /** The issue scan stopped at maxScan before reaching the baseline window */
+  truncated: boolean;
+}
+
+/**
+ * Build the report for a release version of a project
+ */
+export async function buildReleaseReport(
+  client: BugsinkClient,
+  projectId: number,
+  version: string,
+  compareTo: string | undefined,
+  limits: ReleaseReportLimits
+): Promise<ReleaseReport> {
+  const releases: Release[] = [];
+  for await (const release of client.iterateReleases(projectId)) {
+    releases.push(release);
+  }
+  releases.sort(compareReleases);
+
+  const index = releases.findIndex((r) => r.version === version);
+  if (index === -1) {
+    throw new BugsinkNotFoundError(`Release ${version} not found in project ${projectId}`, 404);
+  }
+  const release = releases[index];
+
+  let baseline: Release | null = releases[index - 1] ?? null;
+  if (compareTo !== undefined) {
+    baseline = releases.find((r) => r.version === compareTo) ?? null;
+    if (!baseline) {
+      throw new BugsinkNotFoundError(`Release ${compareTo} not found in project ${projectId}`, 404);
+    }
+    if (compareReleases(baseline, release) >= 0) {
+      const detail = `compare_to (${compareTo}) must be an earlier release than ${version}`;
+      throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+    }
+  }
+
+  const releaseDate = Date.parse(release.date_released);
+  const next = releases[index + 1];
+  const end = next ? Date.parse(next.date_released) : Date.now();
+  // Without an earlier release, compare with a window as long as the one after
+  const baselineStart = baseline
+    ? Date.parse(baseline.date_released)
+    : releaseDate - (end - releaseDate);
+
+  const newIssues: Issue[] = [];
+  const regressed: Issue[] = [];
+  const stopped: Issue[] = [];
+  const active: Issue[] = [];
+  let scanned = 0;
+  let truncated = false;
+
+  // One issue past maxScan tells whether the listing went on into the baseline window
+  for await (const issue of client.iterateIssues(projectId, {
+    sort: 'last_seen',
+    order: 'desc',
+    maxItems: limits.maxScan + 1,
+  })) {
+    const firstSeen = Date.parse(issue.first_seen);
+    const lastSeen = Date.parse(issue.last_seen);
+    // Sorted by last seen: everything from here on predates the baseline
+    if (lastSeen < baselineStart) break;
+    if (scanned === limits.maxScan) {
+      truncated = true;
+      break;
+    }
+    scanned++;
+    if (firstSeen >= end) continue;
+
+    active.push(issue);
+    if (firstSeen >= releaseDate) {
+      newIssues.push(issue);
+    } else if (lastSeen >= releaseDate && wasFixed(issue)) {
+      regressed.push(issue);
+    } else if (lastSeen < releaseDate) {
+      stopped.push(issue);
+    }
+  }
+
+  const volume = await countVolume(client, active, baselineStart, releaseDate, end, limits);
+
+  return {
+    project_id: projectId,
+    release,
+    compare_to: baseline,
+    window: {
+      baseline_start: new Date(baselineStart).toISOString(),
+      release_date: new Date(releaseDate).toISOString(),
+      end: new Date(end).toISOString(),
+    },
+    new_issues: newIssues,
+    regressed,
+    stopped,
+    volume,
+    scanned,
+    truncated,
+  };
+}
+
+/**
+ * Count the events of the issues in the windows before and after the release
+ */
+async function countVolume(
+  client: BugsinkClient,
+  issues: Issue[],
+  baselineStart: number,
+  releaseDate: number,
+  end: number,
+  limits: ReleaseReportLimits
+): Promise<EventVolume> {
+  let before = 0;
+  let after = 0;
+  let truncated = false;
+
+  const countIssue = async (issue: Issue) => {
+    const maxItems = limits.maxEventsPerIssue + 1;
+    let fetched = 0;
+    let counted = 0;
+    // Fresh: the event pages are read once, caching them would only crowd out the cache
+    for await (const event of client.iterateEvents(issue.id, {
+      order: 'desc',
+      maxItems,
+      fresh: true,
+    })) {
+      fetched++;
+      const timestamp = Date.parse(event.timestamp);
+      if (timestamp < baselineStart) return;
+      // Events after the window (a later release) are skipped, not counted
+      if (timestamp >= end) continue;
+      if (++counted > limits.maxEventsPerIssue) {
+        truncated = true;
+        return;
+      }
+      if (timestamp >= releaseDate) after++;
+      else before++;
+    }
+    // Stopped at maxItems with events after the window among them
+    if (fetched === maxItems) truncated = true;
+  };
+
+  for (let i = 0; i < issues.length; i += VOLUME_BATCH_SIZE) {
+    await Promise.all(issues.slice(i, i + VOLUME_BATCH_SIZE).map(countIssue));
+  }
+
+  const hours = (ms: number) => Math.max(ms, 1) / 3_600_000;
+  const beforePerHour = before / hours(releaseDate - baselineStart);
+  const afterPerHour = after / hours(end - releaseDate);
+
+  return {
+    before,
+    after,
+    before_per_hour: round(beforePerHour),
+    after_per_hour: round(afterPerHour),
+    change_percent:
+      beforePerHour > 0 ? round(((afterPerHour - beforePerHour) / beforePerHour) * 100) : null,
+    truncated,
+  };
+}
+
+/**
+ * Order releases by Bugsink's sort key (semantic version order for semver
+ * releases), falling back to the release date
+ */
+function compareReleases(a: Release, b: Release): number {
+  if (a.sort_epoch != null && b.sort_epoch != null && a.sort_epoch !== b.sort_epoch) {
+    return a.sort_epoch - b.sort_epoch;
+  }
+  return Date.parse(a.date_released) - Date.parse(b.date_released);
+}
+
+/**
+ * Whether an issue was marked as fixed, in a release or by the next one
+ */
+export function wasFixed(issue: Pick<Issue, 'is_resolved_by_next_release' | 'fixed_at'>): boolean {
+  return issue.is_resolved_by_next_release || (issue.fixed_at?.length ?? 0) > 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,325 @@
+/**
+ * MCP Resources
+ *
+ * Exposes Bugsink objects as resources so clients can attach them to a
+ * conversation as context:
+ *
+ *   bugsink://projects/{project_id}
+ *   bugsink://issues/{issue_id}
+ *   bugsink://events/{event_id}
+ *   bugsink://events/{event_id}/stacktrace
+ *   bugsink://releases/{release_id}
+ *
+ * Each object is served as Markdown; appending `.json` to the ID (e.g.
+ * `bugsink://issues/{issue_id}.json`) serves the raw API object instead.
+ * Resources are always read from the default instance, and only from the
+ * projects the permission policy allows. Issues, events and stacktraces are
+ * redacted.
+ *
+ * In watch mode, `bugsink://changes` lists the latest changes detected in the
+ * watched projects. Clients can subscribe to it, and to the issue resources,
+ * to receive `notifications/resources/updated` when the watcher finds a change.
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+  type Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Project } from './bugsink-client.js';
+import type { OutputBudget } from './budget.js';
+import { BugsinkValidationError } from './errors.js';
+import {
+  formatEventDetails,
+  formatIssue,
+  formatIssueChanges,
+  formatProject,
+  formatRelease,
+} from './formatters.js';
+import type { InstanceRegistry } from './instances.js';
+import type { PermissionPolicy } from './permissions.js';
+import { redactionNote, withRedactionNote, type Redactor } from './redact.js';
+import type { IssueWatcher } from './watch.js';
+
+const MAX_LISTED_PROJECTS = 200;
+const RECENT_ISSUE_PROJECTS = 20;
+const RECENT_ISSUES_PER_PROJECT = 5;
+const RECENT_CHANGES = 50;
+const CHANGES_URI = 'bugsink://changes';
+
+interface ResourceId {
+  id: string;
+  json: boolean;
+}
+
+/**
+ * Split a template variable into the object ID and the requested variant
+ */
+function parseResourceId(value: string | string[]): ResourceId {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const id = decodeURIComponent(raw);
+  return id.endsWith('.json') ? { id: id.slice(0, -'.json'.length), json: true } : { id, json: false };
+}
+
+function parseNumericId(value: string, name: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id)) {
+    const detail = `${name} must be a number, got "${value}"`;
+    throw new BugsinkValidationError(`Invalid resource URI: ${detail}`, undefined, detail);
+  }
+  return id;
+}
+
+/**
+ * Build a read result in the requested variant
+ */
+function resourceContents(
+  uri: URL,
+  variant: ResourceId,
+  object: unknown,
+  title: string,
+  body: string
+): ReadResourceResult {
+  if (variant.json) {
+    return {
+      contents: [
+        { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(object, null, 2) },
+      ],
+    };
+  }
+  return {
+    contents: [{ uri: uri.href, mimeType: 'text/markdown', text: `# ${title}\n\n${body}\n` }],
+  };
+}
+
+/**
+ * Register all Bugsink resource templates on a server
+ */
+export function registerResources(
+  server: McpServer,
+  instances: InstanceRegistry,
+  policy: PermissionPolicy,
+  redactor: Redactor,
+  budget: OutputBudget,
+  watcher?: IssueWatcher
+): void {
+  const client = instances.get();
+  const allowed = policy.allowedProjects(instances.defaultInstance);
+  const checkProject = (projectId: number) =>
+    policy.checkProject(instances.defaultInstance, projectId);
+
+  server.resource(
+    'project',
+    new ResourceTemplate('bugsink://projects/{project_id}', {
+      list: async () => {
+        const resources: Resource[] = [];
+        for await (const project of client.iterateProjects({ maxItems: MAX_LISTED_PROJECTS })) {
+          if (allowed && !allowed.includes(project.id)) continue;
+          resources.push({
+            uri: `bugsink://projects/${project.id}`,
+            name: `Project: ${project.name}`,
+            mimeType: 'text/markdown',
+          });
+        }
+        return { resources };
+      },
+    }),
+    {
+      description: 'A Bugsink project with its settings. Append .json to the ID for raw JSON.',
+      mimeType: 'text/markdown',
+    },
+    async (uri, { project_id }) => {
+      const variant = parseResourceId(project_id);
+      const projectId = parseNumericId(variant.id, 'project_id');
+      checkProject(projectId);
+      const project = await client.getProject(projectId);
+      return resourceContents(uri, variant, project, project.name, formatProject(project));
+    }
+  );
+
+  server.resource(
+    'issue',
+    new ResourceTemplate('bugsink://issues/{issue_id}', {
+      list: async () => {
+        const projects: Project[] = [];
+        for await (const project of client.iterateProjects({ maxItems: RECENT_ISSUE_PROJECTS })) {
+          if (!allowed || allowed.includes(project.id)) projects.push(project);
+        }
+
+        const pages = await Promise.all(
+          projects.map((project) =>
+            client.listIssues(project.id, {
+              limit: RECENT_ISSUES_PER_PROJECT,
+              sort: 'last_seen',
+              order: 'desc',
+            })
+          )
+        );
+
+        const resources: Resource[] = pages.flatMap((page, i) =>
+          redactor.redact(page.results.slice(0, RECENT_ISSUES_PER_PROJECT)).value.map((issue) => ({
+            uri: `bugsink://issues/${issue.id}`,
+            name: `[${issue.calculated_type}] ${issue.calculated_value}`,
+            description: `${projects[i].name}: last seen ${issue.last_seen}`,
+            mimeType: 'text/markdown',
+          }))
+        );
+        return { resources };
+      },
+    }),
+    {
+      description:
+        'A Bugsink issue (grouped error). Lists the most recently seen issues per project. Append .json to the ID for raw JSON.',
+      mimeType: 'text/markdown',
+    },
+    async (uri, { issue_id }) => {
+      const variant = parseResourceId(issue_id);
+      const fetched = await client.getIssue(variant.id);
+      checkProject(fetched.project);
+      const { value: issue, redacted } = redactor.redact(fetched);
+      return resourceContents(
+        uri,
+        variant,
+        issue,
+        `Issue ${issue.id}`,
+        withRedactionNote(formatIssue(issue), redacted)
+      );
+    }
+  );
+
+  server.resource(
+    'event',
+    new ResourceTemplate('bugsink://events/{event_id}', { list: undefined }),
+    {
+      description:
+        'A single Bugsink event with stacktrace, tags and contexts. Append .json to the ID for raw JSON.',
+      mimeType: 'text/markdown',
+    },
+    async (uri, { event_id }) => {
+      const variant = parseResourceId(event_id);
+      const fetched = await client.getEvent(variant.id);
+      checkProject(fetched.project);
+      const { value: event, redacted } = redactor.redact(fetched);
+      return resourceContents(
+        uri,
+        variant,
+        event,
+        `Event ${event.id}`,
+        withRedactionNote(
+          formatEventDetails(event, budget, redactionNote(redacted).length),
+          redacted
+        )
+      );
+    }
+  );
+
+  server.resource(
+    'event-stacktrace',
+    new ResourceTemplate('bugsink://events/{event_id}/stacktrace', { list: undefined }),
+    {
+      description: "An event's stacktrace as pre-rendered Markdown",
+      mimeType: 'text/markdown',
+    },
+    async (uri, { event_id }) => {
+      const { id } = parseResourceId(event_id);
+      if (allowed) checkProject((await client.getEvent(id)).project);
+      const { value, redacted } = redactor.redactText(await client.getEventStacktrace(id));
+      const markdown = withRedactionNote(value, redacted);
+      return {
+        contents: [{ uri: uri.href, mimeType: 'text/markdown', text: markdown }],
+      };
+    }
+  );
+
+  server.resource(
+    'release',
+    new ResourceTemplate('bugsink://releases/{release_id}', { list: undefined }),
+    {
+      description: 'A Bugsink release. Append .json to the ID for raw JSON.',
+      mimeType: 'text/markdown',
+    },
+    async (uri, { release_id }) => {
+      const variant = parseResourceId(release_id);
+      const release = await client.getRelease(variant.id);
+      checkProject(release.project);
+      return resourceContents(
+        uri,
+        variant,
+        release,
+        `Release ${release.version || '(empty)'}`,
+        formatRelease(release)
+      );
+    }
+  );
+
+  if (watcher?.enabled) registerWatchResources(server, instances, policy, redactor, watcher);
+}
+
+/**
+ * Register the change log resource and handle subscriptions to it and to
+ * issues, notifying subscribers of changes the watcher detects
+ */
+function registerWatchResources(
+  server: McpServer,
+  instances: InstanceRegistry,
+  policy: PermissionPolicy,
+  redactor: Redactor,
+  watcher: IssueWatcher
+): void {
+  const names = instances.list().map((info) => info.name);
+  const visible = (instance: string, projectId: number) => {
+    const allowed = policy.allowedProjects(instance);
+    return names.includes(instance) && (!allowed || allowed.includes(projectId));
+  };
+  const subscriptions = new Set<string>();
+
+  server.resource(
+    'changes',
+    CHANGES_URI,
+    {
+      description: 'New issues, regressions and unmuted issues detected in the watched projects',
+      mimeType: 'text/markdown',
+    },
+    async (uri) => {
+      const { value: changes, redacted } = redactor.redact(
+        watcher.changesSince(undefined, RECENT_CHANGES, visible).changes
+      );
+      const body = changes.length > 0 ? formatIssueChanges(changes) : 'No changes detected yet.';
+      const text = `# Changes\n\n${withRedactionNote(body, redacted)}\n`;
+      return { contents: [{ uri: uri.href, mimeType: 'text/markdown', text }] };
+    }
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Issue resources are read from the default instance, so only its issues map to them
+  const defaultInstance = instances.defaultInstance;
+  const unsubscribe = watcher.subscribe((changes) => {
+    const relevant = changes.filter((change) => visible(change.instance, change.project_id));
+    if (relevant.length === 0) return;
+
+    const uris = new Set([CHANGES_URI]);
+    for (const change of relevant) {
+      if (change.instance !== defaultInstance) continue;
+      uris.add(`bugsink://issues/${change.issue.id}`);
+      uris.add(`bugsink://issues/${change.issue.id}.json`);
+    }
+    for (const uri of uris) {
+      if (subscriptions.has(uri)) {
+        // The client may have disconnected between polls; nothing to notify then
+        server.server.sendResourceUpdated({ uri }).catch(() => {});
+      }
+    }
+  });
+  server.server.onclose = unsubscribe;
+}
@@ -0,0 +1,196 @@
+/**
+ * Output Schemas
+ *
+ * Zod schemas mirroring the Bugsink API objects in bugsink-client.ts. Tools
+ * declare them as their `outputSchema` and return the matching objects as
+ * `structuredContent`.
+ *
+ * Objects pass unknown fields through, and fields the API may omit are
+ * optional, so a newer Bugsink version never fails output validation.
+ */
+
+import { z } from 'zod';
+
+export const projectSchema = z
+  .object({
+    id: z.number(),
+    team: z.string(),
+    name: z.string(),
+    slug: z.string(),
+    dsn: z.string(),
+    digested_event_count: z.number(),
+    stored_event_count: z.number(),
+    alert_on_new_issue: z.boolean(),
+    alert_on_regression: z.boolean(),
+    alert_on_unmute: z.boolean(),
+    visibility: z.string(),
+    retention_max_event_count: z.number(),
+  })
+  .passthrough();
+
+export const teamSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    visibility: z.string(),
+  })
+  .passthrough();
+
+export const issueSchema = z
+  .object({
+    id: z.string(),
+    project: z.number(),
+    digest_order: z.number(),
+    first_seen: z.string(),
+    last_seen: z.string(),
+    digested_event_count: z.number(),
+    stored_event_count: z.number(),
+    calculated_type: z.string(),
+    calculated_value: z.string(),
+    transaction: z.string(),
+    is_resolved: z.boolean(),
+    is_resolved_by_next_release: z.boolean(),
+    is_muted: z.boolean(),
+    fixed_at: z.array(z.string()).optional(),
+    unmute_after: z.string().nullish(),
+    unmute_on_volume_based_conditions: z.string().nullish(),
+  })
+  .passthrough();
+
+const stackFrameSchema = z
+  .object({
+    filename: z.string().nullish(),
+    function: z.string().nullish(),
+    lineno: z.number().nullish(),
+    colno: z.number().nullish(),
+    in_app: z.boolean().nullish(),
+    context_line: z.string().nullish(),
+    pre_context: z.array(z.string()).nullish(),
+    post_context: z.array(z.string()).nullish(),
+  })
+  .passthrough();
+
+const stacktraceSchema = z.object({ frames: z.array(stackFrameSchema) }).passthrough();
+
+const exceptionValueSchema = z
+  .object({
+    type: z.string().nullish(),
+    value: z.string().nullish(),
+    module: z.string().nullish(),
+    thread_id: z.union([z.number(), z.string()]).nullish(),
+    mechanism: z.record(z.unknown()).nullish(),
+    stacktrace: stacktraceSchema.nullish(),
+  })
+  .passthrough();
+
+const breadcrumbSchema = z
+  .object({
+    timestamp: z.union([z.string(), z.number()]).nullish(),
+    type: z.string().nullish(),
+    category: z.string().nullish(),
+    level: z.string().nullish(),
+    message: z.string().nullish(),
+    data: z.record(z.unknown()).nullish(),
+  })
+  .passthrough();
+
+const threadSchema = z
+  .object({
+    id: z.union([z.number(), z.string()]).nullish(),
+    name: z.string().nullish(),
+    crashed: z.boolean().nullish(),
+    current: z.boolean().nullish(),
+    main: z.boolean().nullish(),
+    // Frames are typed on exceptions only, which keeps the event schema's type small enough to emit
+    stacktrace: z.record(z.unknown()).nullish(),
+  })
+  .passthrough();
+
+const eventDataSchema = z
+  .object({
+    exception: z.object({ values: z.array(exceptionValueSchema).nullish() }).passthrough().nullish(),
+    message: z.unknown().optional(),
+    logentry: z.record(z.unknown()).nullish(),
+    level: z.string().nullish(),
+    platform: z.string().nullish(),
+    release: z.string().nullish(),
+    dist: z.string().nullish(),
+    environment: z.string().nullish(),
+    server_name: z.string().nullish(),
+    transaction: z.string().nullish(),
+    fingerprint: z.array(z.string()).nullish(),
+    user: z.record(z.unknown()).nullish(),
+    breadcrumbs: z
+      .object({ values: z.array(breadcrumbSchema).nullish() })
+      .passthrough()
+      .nullish(),
+    threads: z
+      .object({ values: z.array(threadSchema).nullish() })
+      .passthrough()
+      .nullish(),
+    tags: z.unknown().optional(),
+    contexts: z.record(z.unknown()).nullish(),
+    extra: z.record(z.unknown()).nullish(),
+    request: z.record(z.unknown()).nullish(),
+  })
+  .passthrough();
+
+export const eventSchema = z
+  .object({
+    id: z.string(),
+    event_id: z.string(),
+    issue: z.string(),
+    project: z.number(),
+    timestamp: z.string(),
+    ingested_at: z.string(),
+    digested_at: z.string(),
+    digest_order: z.number(),
+    grouping: z.number(),
+    data: eventDataSchema.optional(),
+    stacktrace_md: z.string().optional(),
+  })
+  .passthrough();
+
+export const releaseSchema = z
+  .object({
+    id: z.string(),
+    project: z.number(),
+    version: z.string(),
+    date_released: z.string(),
+    semver: z.string().nullish(),
+    is_semver: z.boolean().nullish(),
+    sort_epoch: z.number().nullish(),
+  })
+  .passthrough();
+
+/**
+ * Outcome of source map symbolication, added to symbolicated event output
+ */
+export const symbolicationSchema = z.object({
+  source_map_dir: z.string(),
+  frames: z.number(),
+  mapped: z.number(),
+  unmapped: z.array(
+    z.object({
+      filename: z.string().nullish(),
+      lineno: z.number().nullish(),
+      colno: z.number().nullish(),
+      reason: z.string(),
+    })
+  ),
+});
+
+/**
+ * Output shape of list tools: one page (or several) of results and the
+ * cursor to continue from, null when there are no more pages
+ */
+export function pagedSchema<T extends z.ZodTypeAny>(key: string, item: T) {
+  return z.object({
+    [key]: z.array(item),
+    next_cursor: z.string().nullable(),
+    omitted: z
+      .string()
+      .optional()
+      .describe('How many results of the page were left out to stay within max_chars'),
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * Server Factory
+ *
+ * Builds a fully registered MCP server. Stdio mode creates one; HTTP mode
+ * creates one per session.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuditLog } from "./audit.js";
+import type { ServerConfig } from "./config.js";
+import type { InstanceRegistry } from "./instances.js";
+import { PermissionPolicy } from "./permissions.js";
+import { registerPrompts } from "./prompts.js";
+import { Redactor } from "./redact.js";
+import { registerResources } from "./resources.js";
+import { registerTools } from "./tools.js";
+import type { IssueWatcher } from "./watch.js";
+
+export const SERVER_NAME = "bugsink-mcp";
+export const SERVER_VERSION = "0.2.0";
+
+/**
+ * Create an MCP server with all tools, resources and prompts registered
+ */
+export function createServer(
+  instances: InstanceRegistry,
+  config: ServerConfig,
+  audit: AuditLog,
+  watcher?: IssueWatcher
+): McpServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+
+  const policy = new PermissionPolicy(config.permissions);
+  const redactor = new Redactor(config.redaction);
+  registerTools(server, instances, config, policy, audit, redactor, watcher);
+  registerResources(server, instances, policy, redactor, config.budget, watcher);
+  registerPrompts(server, instances, policy, redactor, config.budget);
+
+  return server;
+}
@@ -0,0 +1,210 @@
+/**
+ * Source Map Symbolication
+ *
+ * Resolves minified JavaScript frames (e.g. `main.3f2a.js:1:48213`) to their
+ * original source positions and function names using the source maps of a
+ * local build directory, and re-renders context lines from `sourcesContent`.
+ *
+ * A frame is matched to `<basename>.map` anywhere under the directory, so
+ * `https://app.example.com/static/js/main.3f2a.js` uses `main.3f2a.js.map`.
+ */
+
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { SourceMapConsumer, type RawSourceMap } from 'source-map-js';
+import type { Event, ExceptionValue, StackFrame } from './bugsink-client.js';
+
+const CONTEXT_LINES = 5;
+const REINDEX_INTERVAL_MS = 30_000;
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+export interface UnmappedFrame {
+  filename: string;
+  lineno?: number;
+  colno?: number;
+  reason: string;
+}
+
+export interface SymbolicationReport {
+  source_map_dir: string;
+  frames: number;
+  mapped: number;
+  unmapped: UnmappedFrame[];
+}
+
+interface LoadedMap {
+  mtimeMs: number;
+  consumer: SourceMapConsumer;
+}
+
+type FrameResult = { frame: StackFrame } | { reason: string };
+
+/**
+ * The source maps of one build directory, indexed by generated file name
+ * and parsed on first use
+ */
+export class SourceMapDirectory {
+  private index = new Map<string, string>();
+  private indexedAt = 0;
+  private maps = new Map<string, LoadedMap>();
+
+  constructor(readonly dir: string) {}
+
+  /**
+   * Map a frame to its original position, or explain why it cannot be mapped
+   */
+  symbolicateFrame(frame: StackFrame): FrameResult {
+    if (!frame.filename) return { reason: 'no filename' };
+    if (!frame.lineno) return { reason: 'no line number' };
+    if (!frame.colno) return { reason: 'no column number' };
+
+    const mapPath = this.findMap(frame.filename);
+    if (!mapPath) return { reason: `no source map for ${generatedName(frame.filename)}` };
+
+    let consumer: SourceMapConsumer;
+    try {
+      consumer = this.load(mapPath);
+    } catch (error) {
+      return { reason: `cannot read ${mapPath}: ${(error as Error).message}` };
+    }
+
+    // Stack frames use 1-based columns, source maps 0-based ones
+    const position = consumer.originalPositionFor({ line: frame.lineno, column: frame.colno - 1 });
+    if (!position.source || position.line == null) {
+      return { reason: 'position not covered by the source map' };
+    }
+
+    const content = consumer.sourceContentFor(position.source, true);
+    const lines = content?.split(/\r?\n/);
+    const index = position.line - 1;
+
+    return {
+      frame: {
+        ...frame,
+        filename: position.source,
+        function: position.name || frame.function,
+        lineno: position.line,
+        colno: position.column + 1,
+        // The minified context is meaningless next to the original position
+        context_line: lines?.[index],
+        pre_context: lines?.slice(Math.max(0, index - CONTEXT_LINES), index),
+        post_context: lines?.slice(index + 1, index + 1 + CONTEXT_LINES),
+      },
+    };
+  }
+
+  private findMap(filename: string): string | undefined {
+    const name = `${generatedName(filename)}.map`;
+    const found = this.index.get(name);
+    if (found || Date.now() - this.indexedAt < REINDEX_INTERVAL_MS) return found;
+
+    // Unknown file: the build may have changed since the last scan
+    this.index = new Map();
+    this.scan(this.dir);
+    this.indexedAt = Date.now();
+    return this.index.get(name);
+  }
+
+  private scan(dir: string): void {
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)) {
+        this.scan(path);
+      } else if (entry.isFile() && entry.name.endsWith('.map') && !this.index.has(entry.name)) {
+        this.index.set(entry.name, path);
+      }
+    }
+  }
+
+  /**
+   * Parse a source map, reusing the parsed map until the file changes
+   */
+  private load(path: string): SourceMapConsumer {
+    const { mtimeMs } = statSync(path);
+    const cached = this.maps.get(path);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.consumer;
+
+    const raw = JSON.parse(readFileSync(path, 'utf8')) as RawSourceMap;
+    const consumer = new SourceMapConsumer(raw);
+    this.maps.set(path, { mtimeMs, consumer });
+    return consumer;
+  }
+}
+
+const directories = new Map<string, SourceMapDirectory>();
+
+/**
+ * Get the shared SourceMapDirectory for a directory, so parsed maps are reused across calls
+ */
+export function sourceMapDirectory(dir: string): SourceMapDirectory {
+  let directory = directories.get(dir);
+  if (!directory) {
+    directory = new SourceMapDirectory(dir);
+    directories.set(dir, directory);
+  }
+  return directory;
+}
+
+/**
+ * Symbolicate every exception frame of an event. Returns a copy of the event;
+ * the original (which may be cached) is left untouched.
+ */
+export function symbolicateEvent(
+  event: Event,
+  directory: SourceMapDirectory
+): { event: Event; report: SymbolicationReport } {
+  const report: SymbolicationReport = {
+    source_map_dir: directory.dir,
+    frames: 0,
+    mapped: 0,
+    unmapped: [],
+  };
+
+  const mapValue = (value: ExceptionValue): ExceptionValue => {
+    if (!value.stacktrace?.frames) return value;
+
+    const frames = value.stacktrace.frames.map((frame) => {
+      report.frames++;
+      const result = directory.symbolicateFrame(frame);
+      if ('frame' in result) {
+        report.mapped++;
+        return result.frame;
+      }
+      report.unmapped.push({
+        filename: frame.filename,
+        lineno: frame.lineno,
+        colno: frame.colno,
+        reason: result.reason,
+      });
+      return frame;
+    });
+
+    return { ...value, stacktrace: { ...value.stacktrace, frames } };
+  };
+
+  const values = event.data?.exception?.values;
+  if (!event.data || !values) return { event, report };
+
+  return {
+    event: {
+      ...event,
+      data: { ...event.data, exception: { ...event.data.exception, values: values.map(mapValue) } },
+    },
+    report,
+  };
+}
+
+/**
+ * File name of a frame's generated file, without its URL path, query or hash
+ */
+function generatedName(filename: string): string {
+  const path = filename.split(/[?#]/)[0];
+  return path.slice(path.lastIndexOf('/') + 1);
+}
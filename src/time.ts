@@ -0,0 +1,42 @@
+/**
+ * Time Helpers
+ *
+ * Parsing for the time bounds tools accept: either an ISO 8601 timestamp or
+ * a relative duration such as "30d" meaning "30 days ago".
+ */
+
+import { BugsinkValidationError } from './errors.js';
+
+const UNIT_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Parse a duration like "15m", "12h", "30d" or "2w" into milliseconds
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*([mhdw])$/i.exec(value.trim());
+  if (!match) return null;
+  return Number(match[1]) * UNIT_MS[match[2].toLowerCase()];
+}
+
+/**
+ * Resolve an ISO 8601 timestamp or relative duration to epoch milliseconds.
+ * Throws on input that is neither, so tools can report the bad argument.
+ */
+export function parseTimeBound(value: string, now: number = Date.now()): number {
+  const duration = parseDuration(value);
+  if (duration !== null) {
+    return now - duration;
+  }
+
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    const detail = `invalid time "${value}"; use an ISO 8601 timestamp or a duration like "12h", "30d" or "2w"`;
+    throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+  }
+  return timestamp;
+}
@@ -0,0 +1,1788 @@
+/**
+ * MCP Tools
+ *
+ * Tool definitions for querying and managing Bugsink. Every tool accepts an
+ * optional `instance` argument that routes the call to a configured instance,
+ * and an optional `format` argument selecting how its text content is
+ * rendered. Every tool declares an output schema and returns its result as
+ * `structuredContent` as well.
+ */
+
+import type { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { AUDIT_OUTCOMES, stateBefore, undoPayload, type AuditLog, type AuditOutcome } from "./audit.js";
+import { breakdownEvents, DEFAULT_BREAKDOWN_KEYS } from "./breakdown.js";
+import { DETAIL_LEVELS, fitSteps, resolveBudget, truncateText } from "./budget.js";
+import { getCursor, type Event, type PaginatedResponse } from "./bugsink-client.js";
+import { BULK_ACTIONS, applyBulkAction, selectIssues, type BulkAction } from "./bulk-triage.js";
+import type { ServerConfig } from "./config.js";
+import {
+  BugsinkAuthError,
+  BugsinkError,
+  BugsinkNetworkError,
+  BugsinkNotFoundError,
+  BugsinkPolicyError,
+  BugsinkRateLimitError,
+  BugsinkServerError,
+  BugsinkValidationError,
+} from "./errors.js";
+import { buildDigest, DIGEST_DEFAULTS, writeReport } from "./digest.js";
+import { diffEvents } from "./event-diff.js";
+import {
+  FREQUENCY_INTERVALS,
+  issueFrequency,
+  projectFrequency,
+  type FrequencyOptions,
+} from "./frequency.js";
+import {
+  formatAuditEntries,
+  formatBreakdown,
+  formatDigest,
+  formatEvent,
+  formatEventDetails,
+  formatEventDiff,
+  formatEventSection,
+  formatFrequency,
+  formatIssue,
+  formatIssueChanges,
+  formatLocalFrames,
+  formatMarkdown,
+  formatProject,
+  formatRelease,
+  formatReleaseReport,
+  formatStacktrace,
+  formatSymbolication,
+  EVENT_SECTIONS,
+  EVENT_TRIM_STEPS,
+  getIssueStatus,
+  omittedSectionsNote,
+  OUTPUT_FORMATS,
+  trimEvent,
+  type OutputFormat,
+} from "./formatters.js";
+import type { InstanceRegistry } from "./instances.js";
+import { isToolName, MUTATING_TOOLS, type PermissionPolicy } from "./permissions.js";
+import { redactionNote, withRedactionNote, type Redactor } from "./redact.js";
+import { parseDuration, parseTimeBound } from "./time.js";
+import { SEARCH_FIELDS, searchIssues } from "./issue-search.js";
+import {
+  eventSchema,
+  issueSchema,
+  pagedSchema,
+  projectSchema,
+  releaseSchema,
+  symbolicationSchema,
+  teamSchema,
+} from "./schemas.js";
+import { buildReleaseReport } from "./release-report.js";
+import { sourceMapDirectory, symbolicateEvent, type SymbolicationReport } from "./symbolicate.js";
+import { CHANGE_KINDS, type IssueWatcher } from "./watch.js";
+import { localFrame } from "./workspace.js";
+
+// Helper to turn a failed call into a short, actionable tool error
+function toolError(error: unknown): CallToolResult {
+  let text: string;
+
+  if (error instanceof BugsinkAuthError) {
+    text = `Authentication failed (${error.status}). Check that the API token is valid and allowed to access this object.`;
+  } else if (error instanceof BugsinkPolicyError) {
+    text = `${error.message}. This server's permission policy does not allow it; do not retry.`;
+  } else if (error instanceof BugsinkNotFoundError) {
+    text = `${error.message.replace(/\.$/, '')}. Check the ID (list_projects, list_issues and list_events show valid IDs).`;
+  } else if (error instanceof BugsinkValidationError) {
+    text = `Invalid request${error.status ? ` (${error.status})` : ''}: ${error.detail || 'rejected by Bugsink'}. Fix the arguments and retry.`;
+  } else if (error instanceof BugsinkRateLimitError) {
+    text = "Bugsink is rate limiting requests. Wait a moment before retrying, or request fewer pages.";
+  } else if (error instanceof BugsinkServerError) {
+    text = `Bugsink server error${error.status ? ` (${error.status})` : ''}: ${error.detail || error.message}. The instance may be down or overloaded; retry later.`;
+  } else if (error instanceof BugsinkNetworkError) {
+    text = `${error.message}. Check the instance URL and network connectivity.`;
+  } else if (error instanceof BugsinkError) {
+    text = error.message;
+  } else {
+    text = `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  return {
+    content: [{ type: "text", text }],
+    isError: true,
+  };
+}
+
+// Wrap a tool handler so client errors are reported through toolError
+function withErrorHandling<A extends unknown[]>(
+  handler: (...args: A) => Promise<CallToolResult>
+): (...args: A) => Promise<CallToolResult> {
+  return async (...args: A) => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      return toolError(error);
+    }
+  };
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Helper to send MCP progress notifications, if the client asked for them
+async function reportProgress(extra: ToolExtra, progress: number, total: number, message?: string) {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return;
+
+  await extra.sendNotification({
+    method: "notifications/progress",
+    params: { progressToken, progress, total, message },
+  });
+}
+
+// Shared instance argument for every tool
+const instanceParams = {
+  instance: z.string().optional().describe("Name of the Bugsink instance to use (see list_instances; default instance if omitted)"),
+};
+
+// Shared output format argument for every tool
+const formatParams = {
+  format: z.enum(OUTPUT_FORMATS).optional().describe("How to render the text content: 'text' (prose), 'json' or 'markdown'. structuredContent is always included. Defaults to the server's output format."),
+};
+
+// Helper to render structured data as the text content of the given format; for 'text',
+// as the compact JSON structuredContent is sent as, so its size can be budgeted too
+function renderData(format: OutputFormat, title: string, data: object): string {
+  return format === 'json'
+    ? JSON.stringify(data, null, 2)
+    : format === 'markdown'
+      ? formatMarkdown(title, data as Record<string, unknown>)
+      : JSON.stringify(data);
+}
+
+// Helper to return a tool's structured result along with its text content in the given format
+function toolResult(format: OutputFormat, title: string, data: object, text: string): CallToolResult {
+  return {
+    content: [{ type: "text", text: format === 'text' ? text : renderData(format, title, data) }],
+    structuredContent: data as Record<string, unknown>,
+  };
+}
+
+// Shared output size argument for tools that render events or long lists
+const budgetParams = {
+  max_chars: z.number().int().min(1).optional().describe("Maximum length of the output in any format; what does not fit is left out of the content and structuredContent, with a note on how to fetch it (default: the server's limit)"),
+};
+
+// Shared source map argument for event tools
+const symbolicateParams = {
+  symbolicate: z.boolean().optional().describe("Map minified JavaScript frames to original sources using the project's configured source-map directory (default: on when one is configured)"),
+};
+
+// Shared pagination arguments for list tools
+const DEFAULT_MAX_RESULTS = 500;
+
+const paginationParams = {
+  cursor: z.string().optional().describe("Cursor returned by a previous call, to continue where it stopped"),
+  all_pages: z.boolean().optional().default(false).describe("Keep following pages until exhausted or max_results is reached"),
+  max_results: z.number().int().positive().optional().default(DEFAULT_MAX_RESULTS).describe(`Stop fetching further pages once this many results are collected when all_pages is set (default: ${DEFAULT_MAX_RESULTS})`),
+};
+
+interface PaginationArgs {
+  cursor?: string;
+  all_pages?: boolean;
+  max_results?: number;
+}
+
+interface CollectedPages<T> {
+  results: T[];
+  nextCursor: string | null;
+}
+
+// Helper to fetch one page, or follow cursors across pages when all_pages is set.
+// Whole pages are kept so the returned cursor resumes exactly after the last result.
+async function collectPages<T>(
+  fetchPage: (cursor?: string) => Promise<PaginatedResponse<T>>,
+  args: PaginationArgs
+): Promise<CollectedPages<T>> {
+  const maxResults = args.max_results ?? DEFAULT_MAX_RESULTS;
+  const results: T[] = [];
+  let cursor = args.cursor;
+
+  while (true) {
+    const page = await fetchPage(cursor);
+    results.push(...page.results);
+
+    const nextCursor = getCursor(page.next);
+    if (!nextCursor || !args.all_pages || results.length >= maxResults) {
+      return { results, nextCursor };
+    }
+    cursor = nextCursor;
+  }
+}
+
+// Helper to render a list tool's result with a continuation hint when more pages exist,
+// and a note when `omitted` trailing items were left out to stay within maxChars
+function formatPagedList(noun: string, items: string[], nextCursor: string | null, separator = '\n', omitted = 0, maxChars: number | null = null): string {
+  const header = nextCursor
+    ? `Showing ${items.length + omitted} ${noun}(s); more results are available.`
+    : `Found ${items.length + omitted} ${noun}(s):`;
+  const trimmed = omitted > 0 ? `\n\n… ${omittedItemsNote(noun, omitted, maxChars)}` : '';
+  const footer = nextCursor
+    ? `\n\nTo continue, call again with cursor: "${nextCursor}" (or all_pages: true)`
+    : '';
+
+  return `${header}\n\n${items.join(separator)}${trimmed}${footer}`;
+}
+
+// Helper to say how many items of a list were left out to stay within maxChars
+function omittedItemsNote(noun: string, omitted: number, maxChars: number | null): string {
+  return `${omitted} more ${noun}(s) omitted to stay within max_chars (${maxChars}); lower limit or raise max_chars to see them.`;
+}
+
+// Helper to render a list within maxChars, together with `note` appended to it: trailing
+// items are left out, and a lone item that is still too long is cut short.
+// Returns the text without the note and the number of items it shows.
+function fitPagedList(noun: string, items: string[], nextCursor: string | null, separator: string, maxChars: number | null, note = ''): { text: string; shown: number } {
+  const render = (shown: number, first = items[0]) =>
+    formatPagedList(noun, [first, ...items.slice(1, shown)], nextCursor, separator, items.length - shown, maxChars);
+  const shown = items.length - fitSteps(items.length - 1, maxChars, (omitted) => render(items.length - omitted).length + note.length);
+
+  const text = render(shown);
+  if (maxChars === null || text.length + note.length <= maxChars) return { text, shown };
+
+  const hint = "raise max_chars to see the rest";
+  const first = truncateText(items[0], maxChars, hint, render(1, '').length + note.length);
+  return { text: truncateText(render(1, first), maxChars, hint, note.length), shown: 1 };
+}
+
+// Labels for bulk_update_issues results
+const BULK_ACTION_LABELS: Record<BulkAction, string> = {
+  resolve: 'resolved',
+  resolve_next_release: 'marked as resolved by next release',
+  mute: 'muted',
+  unmute: 'unmuted',
+  reopen: 'reopened',
+};
+
+// Output schemas of tools that do not return a Bugsink object
+const connectionSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+const instancesSchema = z.object({
+  instances: z.array(z.object({
+    name: z.string(),
+    base_url: z.string(),
+    is_default: z.boolean(),
+    connected: z.boolean(),
+    message: z.string(),
+  })),
+});
+
+const bulkUpdateSchema = z.object({
+  action: z.enum(BULK_ACTIONS),
+  dry_run: z.boolean(),
+  scanned: z.number(),
+  truncated: z.boolean().describe("More issues matched than max_issues"),
+  confirmation_token: z.string().nullable().describe("Token to apply a dry run; null once applied"),
+  stale_token: z.boolean().describe("A confirmation token was given but no longer matches the selection"),
+  issues: z.array(issueSchema).describe("Selected issues, in their state after the change when applied"),
+  results: z.array(z.object({
+    issue_id: z.string(),
+    ok: z.boolean(),
+    error: z.string().optional(),
+  })),
+});
+
+const cacheStatsSchema = z.object({
+  instance: z.string(),
+  enabled: z.boolean(),
+  file: z.string().nullable(),
+  entries: z.number(),
+  hits: z.number(),
+  misses: z.number(),
+  invalidations: z.number(),
+  resources: z.array(z.object({
+    resource: z.string(),
+    ttl_ms: z.number(),
+    entries: z.number(),
+    hits: z.number(),
+    misses: z.number(),
+  })),
+});
+
+// Added to the output of tools that render event or issue data
+const redactedShape = {
+  redacted: z.number().describe("Number of sensitive values redacted from the output"),
+};
+
+const stacktraceSchema = z.object({
+  event_id: z.string(),
+  stacktrace: z.string().describe("Stacktrace rendered as Markdown"),
+  symbolication: symbolicationSchema.optional(),
+  ...redactedShape,
+});
+
+const eventDiffSchema = z.object({
+  event_a: z.string(),
+  event_b: z.string(),
+  same_issue: z.boolean(),
+  fields: z.array(z.object({
+    field: z.string(),
+    a: z.string().nullable(),
+    b: z.string().nullable(),
+  })),
+  frames: z.array(z.object({
+    change: z.enum(['added', 'removed', 'moved']),
+    exception: z.number(),
+    filename: z.string(),
+    function: z.string(),
+    lineno_a: z.number().nullable(),
+    lineno_b: z.number().nullable(),
+  })),
+  ...redactedShape,
+});
+
+const searchSchema = z.object({
+  projects_searched: z.number(),
+  scanned: z.number(),
+  truncated: z.boolean().describe("More issues matched than max_results"),
+  incomplete_projects: z.array(z.number()).describe("Projects whose scan stopped at max_scan_per_project"),
+  hits: z.array(z.object({
+    issue: issueSchema,
+    project: z.object({ id: z.number(), name: z.string() }),
+    matched: z.array(z.enum(SEARCH_FIELDS)),
+    score: z.number(),
+  })),
+  ...redactedShape,
+});
+
+const breakdownSchema = z.object({
+  issue_id: z.string(),
+  sampled: z.number().describe("Number of events the breakdown is based on"),
+  fields: z.array(z.object({
+    field: z.string(),
+    events: z.number().describe("Sampled events that have the field"),
+    distinct: z.number(),
+    values: z.array(z.object({
+      value: z.string(),
+      count: z.number(),
+      percent: z.number().describe("Share of the sampled events"),
+    })),
+    other: z.number().describe("Events with a value beyond the top values listed"),
+  })),
+  ...redactedShape,
+});
+
+const frequencySchema = z.object({
+  scope: z.enum(['issue', 'project']),
+  id: z.string(),
+  interval: z.enum(FREQUENCY_INTERVALS),
+  window_start: z.string(),
+  window_end: z.string(),
+  total: z.number(),
+  buckets: z.array(z.object({ start: z.string(), count: z.number() })),
+  sparkline: z.string(),
+  baseline_mean: z.number().describe("Mean count of the buckets before the current one"),
+  latest: z.number().describe("Count of the current, possibly partial, bucket"),
+  spike: z.boolean(),
+  spike_ratio: z.number().nullable(),
+  issues_counted: z.number(),
+  truncated: z.boolean(),
+});
+
+const localSourceSchema = z.object({
+  event_id: z.string(),
+  frames: z.array(z.object({
+    filename: z.string(),
+    function: z.string(),
+    lineno: z.number().nullable(),
+    local_path: z.string().nullable(),
+    status: z.enum(['unchanged', 'changed', 'unverified', 'missing', 'no_rule']),
+    moved_to: z.number().nullable().describe("Line the event's context line is now at, if it moved"),
+    lines: z.array(z.object({ lineno: z.number(), text: z.string() })),
+  })),
+});
+
+const releaseReportSchema = z.object({
+  project_id: z.number(),
+  release: releaseSchema,
+  compare_to: releaseSchema.nullable(),
+  window: z.object({
+    baseline_start: z.string(),
+    release_date: z.string(),
+    end: z.string().describe("The next release, or now"),
+  }),
+  new_issues: z.array(issueSchema).describe("First seen after the release"),
+  regressed: z.array(issueSchema).describe("Marked as fixed but seen after the release"),
+  stopped: z.array(issueSchema).describe("Seen before but not since the release"),
+  volume: z.object({
+    before: z.number(),
+    after: z.number(),
+    before_per_hour: z.number(),
+    after_per_hour: z.number(),
+    change_percent: z.number().nullable(),
+    truncated: z.boolean(),
+  }),
+  scanned: z.number(),
+  truncated: z.boolean(),
+  ...redactedShape,
+});
+
+const digestIssueSchema = z.object({
+  id: z.string(),
+  calculated_type: z.string(),
+  calculated_value: z.string(),
+  is_resolved: z.boolean(),
+  is_resolved_by_next_release: z.boolean(),
+  is_muted: z.boolean(),
+  fixed_at: z.array(z.string()).optional(),
+  unmute_after: z.string().nullish(),
+  first_seen: z.string(),
+  last_seen: z.string(),
+  digested_event_count: z.number(),
+  window_events: z.number(),
+});
+
+const digestSchema = z.object({
+  since: z.string(),
+  until: z.string(),
+  projects: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    active: z.number().describe("Issues seen within the window"),
+    counts: z.object({ new_issues: z.number(), regressions: z.number(), noisy_muted: z.number() }),
+    new_issues: z.array(digestIssueSchema),
+    top_issues: z.array(digestIssueSchema),
+    regressions: z.array(digestIssueSchema),
+    noisy_muted: z.array(digestIssueSchema),
+    releases: z.array(releaseSchema),
+    truncated: z.boolean(),
+  })),
+  report: z.string().describe("The digest as Markdown"),
+  output_path: z.string().nullable().describe("File the report was written to"),
+  ...redactedShape,
+});
+
+const changesSchema = z.object({
+  cursor: z.string().describe("Pass as cursor next time to get only newer changes"),
+  changes: z.array(z.object({
+    cursor: z.string(),
+    kind: z.enum(CHANGE_KINDS),
+    instance: z.string(),
+    project_id: z.number(),
+    detected_at: z.string(),
+    issue: issueSchema,
+  })),
+  more: z.boolean().describe("More changes follow; call again with the returned cursor"),
+  missed: z.boolean().describe("Changes after the given cursor were dropped from the log"),
+  watching: z.array(z.object({
+    instance: z.string(),
+    project_id: z.number(),
+    last_polled: z.string().nullable(),
+    error: z.string().nullable(),
+  })),
+  ...redactedShape,
+});
+
+const auditLogSchema = z.object({
+  file: z.string().nullable().describe("JSONL file the log is kept in; null when kept in memory"),
+  entries: z.array(z.object({
+    id: z.string(),
+    timestamp: z.string(),
+    tool: z.string(),
+    instance: z.string(),
+    arguments: z.record(z.unknown()),
+    project_id: z.number().nullable(),
+    outcome: z.enum(AUDIT_OUTCOMES),
+    error: z.string().nullable(),
+    before: z.unknown().describe("State before the call; null for creations and bulk changes"),
+    after: z.unknown().describe("Result of the call; null when it failed"),
+    undo: z.object({ tool: z.string(), arguments: z.record(z.unknown()) }).nullable().optional()
+      .describe("Call that reverts the change (project and team updates, when requested)"),
+  })),
+});
+
+const symbolicatedEventSchema = eventSchema.extend({
+  symbolication: symbolicationSchema.optional(),
+  ...redactedShape,
+  omitted: z.string().optional().describe("Which sections were left out to stay within max_chars or the detail level, and how to fetch them"),
+});
+
+/**
+ * Register all Bugsink tools on a server
+ */
+export function registerTools(server: McpServer, instances: InstanceRegistry, config: ServerConfig, policy: PermissionPolicy, audit: AuditLog, redactor: Redactor, watcher?: IssueWatcher): void {
+  // Register tools through the permission policy: tools it leaves out are not
+  // registered at all, and every call is checked against its project restrictions.
+  // Calls of mutating tools are recorded in the audit log.
+  function registerTool<InputArgs extends z.ZodRawShape>(
+    name: string,
+    toolConfig: { description: string; inputSchema: InputArgs; outputSchema: z.AnyZodObject },
+    handler: ToolCallback<InputArgs>
+  ): void {
+    // The permission config is validated against the known tool names, so they must stay complete
+    if (!isToolName(name)) throw new Error(`Tool ${name} is missing from the tool lists in permissions.ts`);
+    if (!policy.toolEnabled(name)) return;
+
+    const run = handler as (args: Record<string, unknown>, extra: ToolExtra) => Promise<CallToolResult>;
+    const audited = MUTATING_TOOLS.has(name);
+    const guarded = async (args: Record<string, unknown>, extra: ToolExtra) => {
+      const instance = typeof args.instance === "string" ? args.instance : undefined;
+      let before: unknown = null;
+      const record = (outcome: AuditOutcome, error: string | null, after: unknown) => {
+        try {
+          audit.record({ tool: name, instance: instances.resolve(instance), arguments: args, outcome, error, before, after });
+        } catch (writeError) {
+          console.error(`Could not write audit log entry for ${name}: ${writeError instanceof Error ? writeError.message : String(writeError)}`);
+        }
+      };
+
+      try {
+        const client = instances.get(instance);
+        await policy.checkToolCall(name, args, client, instances.resolve(instance));
+        // Without a before-state the call is still made and recorded; it most likely fails the same way
+        if (audited) before = await stateBefore(name, args, client).catch(() => null);
+      } catch (error) {
+        if (audited && error instanceof BugsinkPolicyError) record('denied', error.message, null);
+        return toolError(error);
+      }
+
+      const result = await run(args, extra);
+      // Dry runs change nothing
+      if (audited && result.structuredContent?.dry_run !== true) {
+        const text = result.content.find(item => item.type === "text")?.text ?? null;
+        record(result.isError ? 'error' : 'success', result.isError ? text : null,
+          result.isError ? null : result.structuredContent ?? null);
+      }
+      return result;
+    };
+    server.registerTool(name, toolConfig, guarded as unknown as ToolCallback<InputArgs>);
+  }
+
+  // Helper to render a result in the requested format, or the server's default
+  const respond = (format: OutputFormat | undefined, title: string, data: object, text: string) =>
+    toolResult(format ?? config.outputFormat, title, data, text);
+
+  // Helper to respond with a page of results within maxChars in any format: trailing
+  // results that do not fit are left out of the content and structuredContent alike
+  const respondPaged = <T>(
+    format: OutputFormat | undefined,
+    title: string,
+    list: { noun: string; key: string; results: T[]; render: (item: T) => string; separator: string },
+    maxChars: number | null,
+    extra: { next_cursor: string | null; redacted?: number }
+  ) => {
+    const { noun, key, results, render, separator } = list;
+    const rendering = format ?? config.outputFormat;
+    const dataFor = (shown: number) => ({
+      [key]: results.slice(0, shown),
+      ...extra,
+      ...(shown < results.length && { omitted: omittedItemsNote(noun, results.length - shown, maxChars) }),
+    });
+
+    if (rendering === 'text') {
+      const redacted = extra.redacted ?? 0;
+      const { text, shown } = fitPagedList(noun, results.map(render), extra.next_cursor, separator, maxChars, redactionNote(redacted));
+      return respond(format, title, dataFor(shown), withRedactionNote(text, redacted));
+    }
+
+    // Unlike text, structured results cannot be cut short, so even the first may be left out
+    const omitted = fitSteps(results.length, maxChars, (steps) => renderData(rendering, title, dataFor(results.length - steps)).length);
+    return respond(format, title, dataFor(results.length - omitted), '');
+  };
+
+  // Helper to symbolicate an event with its project's source maps: always when
+  // requested, by default when a source-map directory is configured
+  const symbolicate = (instance: string | undefined, event: Event, requested: boolean | undefined) => {
+    if (requested === false) return null;
+
+    const dir = config.sourceMaps[instances.resolve(instance)]?.[String(event.project)];
+    if (!dir) {
+      if (!requested) return null;
+      const detail = `no source-map directory is configured for project ${event.project}`;
+      throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+    }
+    return symbolicateEvent(event, sourceMapDirectory(dir));
+  };
+
+  // ============================================================================
+  // Tool Definitions
+  // ============================================================================
+
+  // List Projects
+  registerTool(
+    "list_projects",
+    {
+      description: "List all projects in the Bugsink instance",
+      inputSchema: {
+        ...paginationParams,
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: pagedSchema('projects', projectSchema),
+    },
+    withErrorHandling(async (args) => {
+      const client = instances.get(args.instance);
+      const allowed = policy.allowedProjects(instances.resolve(args.instance));
+
+      const { results, nextCursor } = await collectPages(
+        (cursor) => client.listProjects({ cursor }),
+        args
+      );
+      const projects = allowed ? results.filter(p => allowed.includes(p.id)) : results;
+      const data = { projects, next_cursor: nextCursor };
+
+      if (projects.length === 0) {
+        return respond(args.format, "Projects", data, "No projects found.");
+      }
+
+      const items = projects.map(p =>
+        `- ${p.name} (ID: ${p.id}, slug: ${p.slug})\n  Events: ${p.stored_event_count} stored, ${p.digested_event_count} digested`
+      );
+
+      return respond(args.format, "Projects", data, formatPagedList('project', items, nextCursor));
+    })
+  );
+
+  // List Teams
+  registerTool(
+    "list_teams",
+    {
+      description: "List all teams in the Bugsink instance",
+      inputSchema: {
+        ...paginationParams,
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: pagedSchema('teams', teamSchema),
+    },
+    withErrorHandling(async (args) => {
+      const client = instances.get(args.instance);
+
+      const { results, nextCursor } = await collectPages(
+        (cursor) => client.listTeams({ cursor }),
+        args
+      );
+      const data = { teams: results, next_cursor: nextCursor };
+
+      if (results.length === 0) {
+        return respond(args.format, "Teams", data, "No teams found.");
+      }
+
+      const items = results.map(t =>
+        `- ${t.name} (ID: ${t.id}, visibility: ${t.visibility})`
+      );
+
+      return respond(args.format, "Teams", data, formatPagedList('team', items, nextCursor));
+    })
+  );
+
+  // List Issues
+  registerTool(
+    "list_issues",
+    {
+      description: "List issues for a specific project. Issues represent grouped error occurrences.",
+      inputSchema: {
+        project_id: z.number().describe("The project ID to list issues for"),
+        status: z.string().optional().describe("Filter by status (e.g., 'unresolved', 'resolved', 'muted')"),
+        limit: z.number().optional().default(25).describe("Maximum number of issues per page (default: 25)"),
+        sort: z.enum(['digest_order', 'last_seen']).optional().describe("Sort mode: 'digest_order' or 'last_seen' (default: digest_order)"),
+        order: z.enum(['asc', 'desc']).optional().describe("Sort order: 'asc' or 'desc' (default: desc)"),
+        ...paginationParams,
+        ...budgetParams,
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: pagedSchema('issues', issueSchema).extend(redactedShape),
+    },
+    withErrorHandling(async ({ project_id, status, limit, sort, order, max_chars, format, instance, ...pagination }) => {
+      const client = instances.get(instance);
+
+      const { results, nextCursor } = await collectPages(
+        (cursor) => client.listIssues(project_id, { status, limit, sort, order, cursor }),
+        pagination
+      );
+      const { value: issues, redacted } = redactor.redact(results);
+      const data = { issues, next_cursor: nextCursor, redacted };
+      const title = `Issues in project ${project_id}`;
+
+      if (issues.length === 0) {
+        return respond(format, title, data, `No issues found for project ${project_id}.`);
+      }
+
+      const { maxChars } = resolveBudget(config.budget, max_chars, undefined);
+      return respondPaged(format, title, { noun: 'issue', key: 'issues', results: issues, render: formatIssue, separator: '\n\n' },
+        maxChars, { next_cursor: nextCursor, redacted });
+    })
+  );
+
+  // Get Issue Details
+  registerTool(
+    "get_issue",
+    {
+      description: "Get detailed information about a specific issue",
+      inputSchema: {
+        issue_id: z.string().describe("The issue ID (UUID) to retrieve"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: issueSchema.extend(redactedShape),
+    },
+    withErrorHandling(async ({ issue_id, format, instance }) => {
+      const client = instances.get(instance);
+
+      const { value: issue, redacted } = redactor.redact(await client.getIssue(issue_id));
+
+      const text = withRedactionNote(formatIssue(issue), redacted);
+
+      return respond(format, `Issue ${issue.id}`, { ...issue, redacted }, text);
+    })
+  );
+
+  // Search Issues
+  registerTool(
+    "search_issues",
+    {
+      description: "Search issues across all projects (or a team's projects) by exception type, exception value or transaction, using a case-insensitive substring or a regular expression. Results are ranked and show the project of each issue.",
+      inputSchema: {
+        query: z.string().describe("Text to search for, e.g. an error message, transaction or module name"),
+        regex: z.boolean().optional().default(false).describe("Treat query as a case-insensitive regular expression"),
+        fields: z.array(z.enum(SEARCH_FIELDS)).optional().describe("Fields to search (default: all)"),
+        team_id: z.string().optional().describe("Only search the projects of this team (UUID)"),
+        status: z.enum(['unresolved', 'resolved', 'muted']).optional().describe("Only issues with this status"),
+        last_seen_before: z.string().optional().describe("Only issues last seen before this time (ISO 8601, or a duration like '30d' meaning 30 days ago)"),
+        last_seen_after: z.string().optional().describe("Only issues last seen after this time (ISO 8601 or duration)"),
+        first_seen_before: z.string().optional().describe("Only issues first seen before this time (ISO 8601 or duration)"),
+        first_seen_after: z.string().optional().describe("Only issues first seen after this time (ISO 8601 or duration)"),
+        max_results: z.number().int().positive().optional().default(25).describe("Maximum number of results (default: 25)"),
+        max_scan_per_project: z.number().int().positive().optional().default(2000).describe("Maximum number of issues scanned per project (default: 2000)"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: searchSchema,
+    },
+    withErrorHandling(async (args) => {
+      const { query, regex, fields, team_id, max_results, max_scan_per_project, format, instance, ...filter } = args;
+      const client = instances.get(instance);
+
+      const project_ids = policy.allowedProjects(instances.resolve(instance));
+
+      const found = await searchIssues(client, { query, regex, fields, team_id, project_ids, filter }, {
+        maxResults: max_results,
+        maxScanPerProject: max_scan_per_project,
+      });
+      const { value: hits, redacted } = redactor.redact(found.hits);
+      const result = { ...found, hits, redacted };
+      const title = `Issues matching "${query}"`;
+      const scope = `${result.scanned} issue(s) in ${result.projects_searched} project(s)`;
+
+      if (result.hits.length === 0) {
+        return respond(format, title, result, `No issues match "${query}" (searched ${scope}).`);
+      }
+
+      const items = result.hits.map((hit, i) =>
+        `${i + 1}. [${hit.issue.calculated_type}] ${hit.issue.calculated_value}\n   Project: ${hit.project.name} (${hit.project.id}), ID: ${hit.issue.id}, status: ${getIssueStatus(hit.issue)}, events: ${hit.issue.digested_event_count}, last seen: ${hit.issue.last_seen}\n   Matched: ${hit.matched.join(', ')}${hit.issue.transaction ? `; transaction: ${hit.issue.transaction}` : ''}`
+      );
+      const notes = [
+        result.truncated ? `More issues matched; only the top ${max_results} are shown.` : null,
+        result.incomplete_projects.length > 0
+          ? `Projects ${result.incomplete_projects.join(', ')} have more than ${max_scan_per_project} issues; raise max_scan_per_project to search them fully.`
+          : null,
+      ].filter(Boolean);
+
+      return respond(format, title, result, withRedactionNote(
+        `Found ${result.hits.length} issue(s) matching "${query}" (searched ${scope}):\n\n${items.join('\n\n')}${notes.length > 0 ? `\n\n${notes.join('\n')}` : ''}`, redacted));
+    })
+  );
+
+  // List Events
+  registerTool(
+    "list_events",
+    {
+      description: "List events (individual error occurrences) for a specific issue. Returns basic event info.",
+      inputSchema: {
+        issue_id: z.string().describe("The issue ID (UUID) to list events for"),
+        limit: z.number().optional().default(10).describe("Maximum number of events per page (default: 10)"),
+        order: z.enum(['asc', 'desc']).optional().describe("Sort order: 'asc' or 'desc'"),
+        ...paginationParams,
+        ...budgetParams,
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: pagedSchema('events', eventSchema).extend(redactedShape),
+    },
+    withErrorHandling(async ({ issue_id, limit, order, max_chars, format, instance, ...pagination }) => {
+      const client = instances.get(instance);
+
+      const { results, nextCursor } = await collectPages(
+        (cursor) => client.listEvents(issue_id, { limit, order, cursor }),
+        pagination
+      );
+      const { value: events, redacted } = redactor.redact(results);
+      const data = { events, next_cursor: nextCursor, redacted };
+      const title = `Events of issue ${issue_id}`;
+
+      if (events.length === 0) {
+        return respond(format, title, data, `No events found for issue ${issue_id}.`);
+      }
+
+      const { maxChars } = resolveBudget(config.budget, max_chars, undefined);
+      return respondPaged(format, title, { noun: 'event', key: 'events', results: events, render: e => formatEvent(e), separator: '\n\n---\n\n' },
+        maxChars, { next_cursor: nextCursor, redacted });
+    })
+  );
+
+  // Get Event Details
+  registerTool(
+    "get_event",
+    {
+      description: "Get detailed information about a specific event: chained exceptions, the crashed thread, breadcrumbs, user, release, tags and contexts. Large events are trimmed to fit max_chars, keeping in-app frames first; use section to fetch a trimmed part in full.",
+      inputSchema: {
+        event_id: z.string().describe("The event ID (UUID) to retrieve"),
+        detail: z.enum(DETAIL_LEVELS).optional().describe("'brief' (summary and in-app frames), 'normal' (everything that fits max_chars) or 'full' (everything; no default limit). Defaults to the server's detail level."),
+        section: z.enum(EVENT_SECTIONS).optional().describe("Show only this part of the event, in full: 'stacktrace' (all exceptions and frames with source context), 'breadcrumbs', 'threads', 'tags', 'contexts', 'extra' or 'request'"),
+        ...budgetParams,
+        ...symbolicateParams,
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: symbolicatedEventSchema,
+    },
+    withErrorHandling(async ({ event_id, detail, section, max_chars, symbolicate: requested, format, instance }) => {
+      const client = instances.get(instance);
+
+      const fetched = await client.getEvent(event_id);
+
+      // Redact after symbolication, which may bring in original source lines
+      const symbolicated = symbolicate(instance, fetched, requested);
+      const { value: event, redacted } = redactor.redact(symbolicated?.event ?? fetched);
+      const budget = resolveBudget(config.budget, max_chars, detail);
+      const title = `Event ${event.id}`;
+      const report = symbolicated?.report;
+
+      // Structured output leaves out whole sections, least important first, until it fits
+      const minSteps = budget.detail === 'brief' ? EVENT_TRIM_STEPS : 0;
+      const dataFor = (steps: number) => {
+        const trimmed = trimEvent(event, steps, section);
+        const reason = steps > minSteps ? `to stay within max_chars (${budget.maxChars})` : `at detail '${budget.detail}'`;
+        return {
+          ...trimmed.event,
+          ...(report && { symbolication: report }),
+          redacted,
+          ...(trimmed.omitted.length > 0 && { omitted: omittedSectionsNote(trimmed.omitted, reason) }),
+        };
+      };
+      const rendering = format ?? config.outputFormat;
+      const steps = minSteps + fitSteps(EVENT_TRIM_STEPS - minSteps, budget.maxChars,
+        (more) => renderData(rendering, title, dataFor(minSteps + more)).length);
+      const data = dataFor(steps);
+      if (rendering !== 'text') {
+        return respond(format, title, data, '');
+      }
+
+      // The symbolication report and redaction note come after the details, within the budget
+      const suffix = `${report ? `\n\n${formatSymbolication(report)}` : ''}${redactionNote(redacted)}`;
+      const details = section
+        ? truncateText(formatEventSection(event, section), budget.maxChars, "raise max_chars to see the rest", suffix.length)
+        : formatEventDetails(event, budget, suffix.length);
+      return respond(format, title, data, `${details}${suffix}`);
+    })
+  );
+
+  // Compare Events
+  registerTool(
+    "compare_events",
+    {
+      description: "Diff two events (usually of the same issue) field by field: tags, contexts, request, browser, OS, exception type and value, and stack frames added, removed or moved to another line",
+      inputSchema: {
+        event_a: z.string().describe("The first event ID (UUID)"),
+        event_b: z.string().describe("The second event ID (UUID)"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: eventDiffSchema,
+    },
+    withErrorHandling(async ({ event_a, event_b, format, instance }) => {
+      const client = instances.get(instance);
+
+      const [a, b] = (await Promise.all([client.getEvent(event_a), client.getEvent(event_b)]))
+        .map(event => redactor.redact(event));
+      const diff = diffEvents(a.value, b.value);
+      const redacted = a.redacted + b.redacted;
+
+      return respond(format, `Event ${a.value.id} vs ${b.value.id}`, { ...diff, redacted },
+        withRedactionNote(formatEventDiff(diff), redacted));
+    })
+  );
+
+  // Issue Breakdown
+  registerTool(
+    "issue_breakdown",
+    {
+      description: "Show how an issue's events are distributed over tag values, browsers, OSes, request paths, levels and context keys, as ranked percentages of a sample of its most recent events",
+      inputSchema: {
+        issue_id: z.string().describe("The issue ID (UUID) to break down"),
+        sample_size: z.number().int().min(1).max(1000).optional().default(100).describe("Number of most recent events to sample (default: 100, max: 1000)"),
+        keys: z.array(z.string()).optional().describe(`Fields to include, e.g. ['tags.release', 'browser', 'contexts.os.name']; 'tags' and 'contexts' include all their keys (default: ${DEFAULT_BREAKDOWN_KEYS.join(', ')})`),
+        top: z.number().int().min(1).optional().default(10).describe("Maximum number of values listed per field (default: 10)"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: breakdownSchema,
+    },
+    withErrorHandling(async ({ issue_id, sample_size, keys, top, format, instance }) => {
+      const client = instances.get(instance);
+
+      const events: Event[] = [];
+      for await (const event of client.iterateEvents(issue_id, { order: 'desc', maxItems: sample_size })) {
+        events.push(event);
+      }
+
+      // Listings may leave out event data; fetch those events individually
+      const { value: detailed, redacted } = redactor.redact(
+        await Promise.all(events.map(e => (e.data ? e : client.getEvent(e.id))))
+      );
+      const breakdown = { ...breakdownEvents(issue_id, detailed, { keys, top }), redacted };
+
+      if (detailed.length === 0) {
+        return respond(format, `Breakdown of issue ${issue_id}`, breakdown, `No events found for issue ${issue_id}.`);
+      }
+
+      return respond(format, `Breakdown of issue ${issue_id}`, breakdown,
+        withRedactionNote(formatBreakdown(breakdown), redacted));
+    })
+  );
+
+  // Event Frequency
+  registerTool(
+    "get_event_frequency",
+    {
+      description: "Count an issue's (or a whole project's) events per hour or day over a window ending now, with a sparkline, and flag a spike when the current bucket is well above the baseline. Shows whether an issue is spiking or fading.",
+      inputSchema: {
+        issue_id: z.string().optional().describe("The issue ID (UUID); give this or project_id"),
+        project_id: z.number().optional().describe("The project ID, to count the events of all its issues; give this or issue_id"),
+        interval: z.enum(FREQUENCY_INTERVALS).optional().default('hour').describe("Bucket size (default: hour)"),
+        window: z.string().optional().describe("Window length as a duration such as '24h', '7d' or '2w' (default: 48h for hourly, 30d for daily buckets)"),
+        spike_factor: z.number().optional().default(3).describe("Flag a spike when the current bucket has this many times the baseline mean (default: 3)"),
+        max_events_per_issue: z.number().int().positive().optional().default(5000).describe("Maximum number of events counted per issue (default: 5000)"),
+        max_issues: z.number().int().positive().optional().default(100).describe("For projects: maximum number of issues counted, most recently seen first (default: 100)"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: frequencySchema,
+    },
+    withErrorHandling(async ({ issue_id, project_id, interval, window, spike_factor, max_events_per_issue, max_issues, format, instance }) => {
+      const client = instances.get(instance);
+
+      const windowMs = parseDuration(window ?? (interval === 'hour' ? '48h' : '30d'));
+      if (windowMs === null) {
+        const detail = `invalid window "${window}"; use a duration like "24h", "7d" or "2w"`;
+        throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+      }
+
+      const options: FrequencyOptions = {
+        interval,
+        windowMs,
+        spikeFactor: spike_factor,
+        maxEventsPerIssue: max_events_per_issue,
+        maxIssues: max_issues,
+      };
+      let frequency;
+      if (issue_id !== undefined && project_id === undefined) {
+        frequency = await issueFrequency(client, issue_id, options);
+      } else if (project_id !== undefined && issue_id === undefined) {
+        frequency = await projectFrequency(client, project_id, options);
+      } else {
+        const detail = "give exactly one of issue_id and project_id";
+        throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+      }
+      const title = `Event frequency of ${frequency.scope} ${frequency.id}`;
+
+      return respond(format, title, frequency, formatFrequency(frequency));
+    })
+  );
+
+  // Test Connection
+  registerTool(
+    "test_connection",
+    {
+      description: "Test the connection to the Bugsink instance",
+      inputSchema: {
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: connectionSchema,
+    },
+    withErrorHandling(async ({ format, instance }) => {
+      const client = instances.get(instance);
+
+      const result = await client.testConnection();
+
+      return respond(format, "Connection test", result, result.success
+        ? `Connection successful: ${result.message}`
+        : `Connection failed: ${result.message}`);
+    })
+  );
+
+  // List Instances
+  registerTool(
+    "list_instances",
+    {
+      description: "List the configured Bugsink instances and check connectivity to each",
+      inputSchema: {
+        ...formatParams,
+      },
+      outputSchema: instancesSchema,
+    },
+    withErrorHandling(async ({ format }) => {
+      const results = await Promise.all(
+        instances.list().map(async (info) => ({
+          info,
+          result: await instances.get(info.name).testConnection(),
+        }))
+      );
+
+      const text = results.map(({ info, result }) =>
+        `- ${info.name}${info.isDefault ? ' (default)' : ''}: ${info.baseUrl}\n  ${result.success ? `✓ ${result.message}` : `✗ ${result.message}`}`
+      ).join('\n');
+
+      const data = {
+        instances: results.map(({ info, result }) => ({
+          name: info.name,
+          base_url: info.baseUrl,
+          is_default: info.isDefault,
+          connected: result.success,
+          message: result.message,
+        })),
+      };
+
+      return respond(format, "Instances", data, `Found ${results.length} instance(s):\n\n${text}`);
+    })
+  );
+
+  // Get Project Details
+  registerTool(
+    "get_project",
+    {
+      description: "Get detailed information about a specific project including DSN",
+      inputSchema: {
+        project_id: z.number().describe("The project ID to retrieve"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: projectSchema,
+    },
+    withErrorHandling(async ({ project_id, format, instance }) => {
+      const client = instances.get(instance);
+
+      const project = await client.getProject(project_id);
+
+      return respond(format, `Project ${project.name}`, project, formatProject(project));
+    })
+  );
+
+  // ============================================================================
+  // Mutation Tools
+  // ============================================================================
+
+  // Create Project
+  registerTool(
+    "create_project",
+    {
+      description: "Create a new project in a team",
+      inputSchema: {
+        team_id: z.string().describe("The team UUID to create the project in"),
+        name: z.string().describe("The project name"),
+        visibility: z.enum(['joinable', 'discoverable', 'team_members']).optional().default('team_members').describe("Project visibility"),
+        alert_on_new_issue: z.boolean().optional().default(true).describe("Send alerts for new issues"),
+        alert_on_regression: z.boolean().optional().default(true).describe("Send alerts for regressions"),
+        alert_on_unmute: z.boolean().optional().default(true).describe("Send alerts when issues are unmuted"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: projectSchema,
+    },
+    withErrorHandling(async ({ team_id, name, visibility, alert_on_new_issue, alert_on_regression, alert_on_unmute, format, instance }) => {
+      const client = instances.get(instance);
+
+      const project = await client.createProject({
+        team: team_id,
+        name,
+        visibility,
+        alert_on_new_issue,
+        alert_on_regression,
+        alert_on_unmute,
+      });
+
+      return respond(format, `Project ${project.name}`, project,
+        `Project created successfully:\n  Name: ${project.name}\n  ID: ${project.id}\n  DSN: ${project.dsn}`);
+    })
+  );
+
+  // Update Project
+  registerTool(
+    "update_project",
+    {
+      description: "Update an existing project's settings",
+      inputSchema: {
+        project_id: z.number().describe("The project ID to update"),
+        name: z.string().optional().describe("New project name"),
+        visibility: z.enum(['joinable', 'discoverable', 'team_members']).optional().describe("Project visibility"),
+        alert_on_new_issue: z.boolean().optional().describe("Send alerts for new issues"),
+        alert_on_regression: z.boolean().optional().describe("Send alerts for regressions"),
+        alert_on_unmute: z.boolean().optional().describe("Send alerts when issues are unmuted"),
+        retention_max_event_count: z.number().optional().describe("Maximum events to retain"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: projectSchema,
+    },
+    withErrorHandling(async ({ project_id, format, instance, ...updates }) => {
+      const client = instances.get(instance);
+
+      // Filter out undefined values
+      const input = Object.fromEntries(
+        Object.entries(updates).filter(([_, v]) => v !== undefined)
+      );
+
+      const project = await client.updateProject(project_id, input);
+
+      return respond(format, `Project ${project.name}`, project,
+        `Project updated successfully:\n  Name: ${project.name}\n  ID: ${project.id}\n  Visibility: ${project.visibility}`);
+    })
+  );
+
+  // Create Team
+  registerTool(
+    "create_team",
+    {
+      description: "Create a new team",
+      inputSchema: {
+        name: z.string().describe("The team name"),
+        visibility: z.enum(['joinable', 'discoverable', 'hidden']).optional().default('discoverable').describe("Team visibility"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: teamSchema,
+    },
+    withErrorHandling(async ({ name, visibility, format, instance }) => {
+      const client = instances.get(instance);
+
+      const team = await client.createTeam({ name, visibility });
+
+      return respond(format, `Team ${team.name}`, team,
+        `Team created successfully:\n  Name: ${team.name}\n  ID: ${team.id}\n  Visibility: ${team.visibility}`);
+    })
+  );
+
+  // Update Team
+  registerTool(
+    "update_team",
+    {
+      description: "Update an existing team",
+      inputSchema: {
+        team_id: z.string().describe("The team UUID to update"),
+        name: z.string().optional().describe("New team name"),
+        visibility: z.enum(['joinable', 'discoverable', 'hidden']).optional().describe("Team visibility"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: teamSchema,
+    },
+    withErrorHandling(async ({ team_id, name, visibility, format, instance }) => {
+      const client = instances.get(instance);
+
+      const input = Object.fromEntries(
+        Object.entries({ name, visibility }).filter(([_, v]) => v !== undefined)
+      );
+
+      const team = await client.updateTeam(team_id, input);
+
+      return respond(format, `Team ${team.name}`, team,
+        `Team updated successfully:\n  Name: ${team.name}\n  ID: ${team.id}\n  Visibility: ${team.visibility}`);
+    })
+  );
+
+  // ============================================================================
+  // Issue State Tools
+  // ============================================================================
+
+  // Resolve Issue
+  registerTool(
+    "resolve_issue",
+    {
+      description: "Mark an issue as resolved, optionally as fixed in a specific release",
+      inputSchema: {
+        issue_id: z.string().describe("The issue ID (UUID) to resolve"),
+        release: z.string().optional().describe("Version of the release that fixed the issue (e.g., '1.4.2')"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: issueSchema,
+    },
+    withErrorHandling(async ({ issue_id, release, format, instance }) => {
+      const client = instances.get(instance);
+
+      const issue = await client.resolveIssue(issue_id, { release });
+
+      return respond(format, `Issue ${issue.id}`, issue, `Issue resolved:\n\n${formatIssue(issue)}`);
+    })
+  );
+
+  // Resolve Issue In Next Release
+  registerTool(
+    "resolve_issue_in_next_release",
+    {
+      description: "Mark an issue as resolved by the next release created for its project",
+      inputSchema: {
+        issue_id: z.string().describe("The issue ID (UUID) to resolve"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: issueSchema,
+    },
+    withErrorHandling(async ({ issue_id, format, instance }) => {
+      const client = instances.get(instance);
+
+      const issue = await client.resolveIssueByNextRelease(issue_id);
+
+      return respond(format, `Issue ${issue.id}`, issue, `Issue marked as resolved by next release:\n\n${formatIssue(issue)}`);
+    })
+  );
+
+  // Mute Issue
+  registerTool(
+    "mute_issue",
+    {
+      description: "Mute an issue indefinitely, until a given time, or until it exceeds an event volume",
+      inputSchema: {
+        issue_id: z.string().describe("The issue ID (UUID) to mute"),
+        until: z.string().optional().describe("Unmute automatically after this time (ISO 8601 format)"),
+        unmute_volume: z.number().int().positive().optional().describe("Unmute automatically once this many events occur within the period"),
+        unmute_period: z.enum(['minute', 'hour', 'day', 'week', 'month', 'year']).optional().default('day').describe("Period for unmute_volume (default: day)"),
+        unmute_nr_of_periods: z.number().int().positive().optional().default(1).describe("Number of periods for unmute_volume (default: 1)"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: issueSchema,
+    },
+    withErrorHandling(async ({ issue_id, until, unmute_volume, unmute_period, unmute_nr_of_periods, format, instance }) => {
+      const client = instances.get(instance);
+
+      const issue = await client.muteIssue(issue_id, {
+        until,
+        volume: unmute_volume
+          ? { period: unmute_period, nr_of_periods: unmute_nr_of_periods, volume: unmute_volume }
+          : undefined,
+      });
+
+      return respond(format, `Issue ${issue.id}`, issue, `Issue muted:\n\n${formatIssue(issue)}`);
+    })
+  );
+
+  // Unmute Issue
+  registerTool(
+    "unmute_issue",
+    {
+      description: "Unmute a muted issue",
+      inputSchema: {
+        issue_id: z.string().describe("The issue ID (UUID) to unmute"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: issueSchema,
+    },
+    withErrorHandling(async ({ issue_id, format, instance }) => {
+      const client = instances.get(instance);
+
+      const issue = await client.unmuteIssue(issue_id);
+
+      return respond(format, `Issue ${issue.id}`, issue, `Issue unmuted:\n\n${formatIssue(issue)}`);
+    })
+  );
+
+  // Reopen Issue
+  registerTool(
+    "reopen_issue",
+    {
+      description: "Reopen a resolved issue",
+      inputSchema: {
+        issue_id: z.string().describe("The issue ID (UUID) to reopen"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: issueSchema,
+    },
+    withErrorHandling(async ({ issue_id, format, instance }) => {
+      const client = instances.get(instance);
+
+      const issue = await client.reopenIssue(issue_id);
+
+      return respond(format, `Issue ${issue.id}`, issue, `Issue reopened:\n\n${formatIssue(issue)}`);
+    })
+  );
+
+  // Bulk Update Issues
+  registerTool(
+    "bulk_update_issues",
+    {
+      description: "Apply one state change to every issue in a project matching a filter. Without confirmation_token this is a dry run that lists the affected issues and returns a token; call again with that token to apply.",
+      inputSchema: {
+        project_id: z.number().describe("The project ID whose issues to update"),
+        action: z.enum(BULK_ACTIONS).describe("State change to apply"),
+        calculated_type: z.string().optional().describe("Only issues with exactly this exception type (e.g., 'ConnectionResetError')"),
+        value_contains: z.string().optional().describe("Only issues whose exception value contains this text (case-insensitive)"),
+        transaction_contains: z.string().optional().describe("Only issues whose transaction contains this text (case-insensitive)"),
+        status: z.enum(['unresolved', 'resolved', 'muted']).optional().describe("Only issues with this status"),
+        last_seen_before: z.string().optional().describe("Only issues last seen before this time (ISO 8601, or a duration like '30d' meaning 30 days ago)"),
+        last_seen_after: z.string().optional().describe("Only issues last seen after this time (ISO 8601 or duration)"),
+        first_seen_before: z.string().optional().describe("Only issues first seen before this time (ISO 8601 or duration)"),
+        first_seen_after: z.string().optional().describe("Only issues first seen after this time (ISO 8601 or duration)"),
+        min_events: z.number().optional().describe("Only issues with at least this many events"),
+        max_events: z.number().optional().describe("Only issues with at most this many events"),
+        release: z.string().optional().describe("For 'resolve': version of the release that fixed the issues"),
+        until: z.string().optional().describe("For 'mute': unmute automatically after this time (ISO 8601)"),
+        max_issues: z.number().int().positive().optional().default(100).describe("Maximum number of issues to change (default: 100)"),
+        max_scan: z.number().int().positive().optional().default(5000).describe("Maximum number of project issues to scan (default: 5000)"),
+        confirmation_token: z.string().optional().describe("Token from a dry run; applies the change if the selection is unchanged"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: bulkUpdateSchema,
+    },
+    withErrorHandling(async (args, extra) => {
+      const { project_id, action, release, until, max_issues, max_scan, confirmation_token, format, instance, ...filter } = args;
+      const client = instances.get(instance);
+
+      const options = { release, until };
+
+      const selection = await selectIssues(client, project_id, filter, action, options, {
+        maxIssues: max_issues,
+        maxScan: max_scan,
+      });
+      const label = BULK_ACTION_LABELS[action];
+      const title = `Bulk ${action} in project ${project_id}`;
+      const dryRun = !confirmation_token || confirmation_token !== selection.token;
+      const summary = {
+        action,
+        dry_run: dryRun,
+        scanned: selection.scanned,
+        truncated: selection.truncated,
+        confirmation_token: dryRun ? selection.token : null,
+        stale_token: dryRun && Boolean(confirmation_token),
+      };
+
+      if (selection.issues.length === 0) {
+        return respond(format, title, { ...summary, issues: [], results: [] },
+          `No issues matched the filter (scanned ${selection.scanned} issue(s) in project ${project_id}).`);
+      }
+
+      const limitNote = selection.truncated
+        ? `\n\nMore issues matched than max_issues (${max_issues}); only the first ${max_issues} are included. Run again afterwards for the rest.`
+        : '';
+
+      if (dryRun) {
+        const stale = confirmation_token
+          ? "The confirmation token does not match the current selection (issues changed since the preview). Nothing was applied.\n\n"
+          : '';
+        const items = selection.issues.map(issue =>
+          `- [${issue.calculated_type}] ${issue.calculated_value}\n  ID: ${issue.id}, status: ${getIssueStatus(issue)}, events: ${issue.digested_event_count}, last seen: ${issue.last_seen}`
+        );
+
+        return respond(format, title, { ...summary, issues: selection.issues, results: [] },
+          `${stale}Dry run: ${selection.issues.length} issue(s) would be ${label}:\n\n${items.join('\n')}${limitNote}\n\nTo apply, call again with the same arguments and confirmation_token: "${selection.token}"`);
+      }
+
+      const results = await applyBulkAction(client, selection.issues, action, options, (done, total) =>
+        reportProgress(extra, done, total, `${done}/${total} issue(s) processed`)
+      );
+      const succeeded = results.filter(r => r.ok).length;
+      const items = results.map(r =>
+        r.ok
+          ? `✓ ${r.issue.id} [${r.issue.calculated_type}] now ${getIssueStatus(r.issue)}`
+          : `✗ ${r.issue.id} [${r.issue.calculated_type}] failed: ${r.error}`
+      );
+
+      const data = {
+        ...summary,
+        issues: results.map(r => r.issue),
+        results: results.map(r => ({ issue_id: r.issue.id, ok: r.ok, error: r.error })),
+      };
+
+      return {
+        ...respond(format, title, data, `${succeeded}/${results.length} issue(s) ${label}:\n\n${items.join('\n')}${limitNote}`),
+        isError: succeeded === 0,
+      };
+    })
+  );
+
+  // ============================================================================
+  // Stacktrace Tools
+  // ============================================================================
+
+  // Get Event Stacktrace (Markdown)
+  registerTool(
+    "get_stacktrace",
+    {
+      description: "Get an event's stacktrace as pre-rendered Markdown. More readable than raw frame data. Minified JavaScript frames are mapped to original sources when source maps are configured.",
+      inputSchema: {
+        event_id: z.string().describe("The event ID (UUID) to get stacktrace for"),
+        ...budgetParams,
+        ...symbolicateParams,
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: stacktraceSchema,
+    },
+    withErrorHandling(async ({ event_id, max_chars, symbolicate: requested, format, instance }) => {
+      const client = instances.get(instance);
+      const { maxChars } = resolveBudget(config.budget, max_chars, undefined);
+
+      // The stacktrace is Markdown already: 'text' returns it as is, 'markdown' adds
+      // a title, and 'json' renders the structured result
+      const rendering = format ?? config.outputFormat;
+      const title = `Stacktrace of event ${event_id}`;
+      const hint = "raise max_chars to see the rest";
+      const render = (markdown: string, redacted: number, symbolication?: SymbolicationReport) => {
+        const dataFor = (stacktrace: string) => ({ event_id, stacktrace, ...(symbolication && { symbolication }), redacted });
+        if (rendering === 'json') {
+          // Cut the stacktrace until the JSON around it, with its escapes, fits as well
+          const cut = (reserved: number) => dataFor(truncateText(markdown, maxChars, hint, reserved));
+          const reserved = fitSteps(maxChars ?? 0, maxChars, (steps) => renderData('json', title, cut(steps)).length);
+          return respond('json', title, cut(reserved), '');
+        }
+
+        const heading = rendering === 'markdown' ? `# ${title}\n\n` : '';
+        const note = redactionNote(redacted);
+        const text = truncateText(markdown, maxChars, hint, heading.length + note.length);
+        return respond('text', title, dataFor(text), `${heading}${text}${note}`);
+      };
+
+      // Bugsink renders the original frames; symbolicated ones are rendered from the event
+      const hasSourceMaps = Object.keys(config.sourceMaps[instances.resolve(instance)] ?? {}).length > 0;
+      const symbolicated = (requested ?? hasSourceMaps)
+        ? symbolicate(instance, await client.getEvent(event_id), requested)
+        : null;
+      if (symbolicated) {
+        const { value: event, redacted } = redactor.redact(symbolicated.event);
+        const markdown = `${formatStacktrace(event)}\n\n${formatSymbolication(symbolicated.report)}`;
+        return render(markdown, redacted, symbolicated.report);
+      }
+
+      const { value: markdown, redacted } = redactor.redactText(await client.getEventStacktrace(event_id));
+      return render(markdown, redacted);
+    })
+  );
+
+  // Get Local Source
+  registerTool(
+    "get_local_source",
+    {
+      description: "Map an event's in-app frames to files in the local checkout (via the project's path rewrite rules) and show the current source around each line, flagging frames whose code changed since the event",
+      inputSchema: {
+        event_id: z.string().describe("The event ID (UUID) whose frames to map"),
+        all_frames: z.boolean().optional().default(false).describe("Include library frames, not only in_app ones"),
+        ...symbolicateParams,
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: localSourceSchema,
+    },
+    withErrorHandling(async ({ event_id, all_frames, symbolicate: requested, format, instance }) => {
+      const client = instances.get(instance);
+
+      const fetched = await client.getEvent(event_id);
+      const rules = config.pathRewrites[instances.resolve(instance)]?.[String(fetched.project)];
+      if (!rules?.length) {
+        const detail = `no path rewrite rules are configured for project ${fetched.project}`;
+        throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+      }
+
+      // Map minified frames first, so rules can match the original source paths
+      const event = symbolicate(instance, fetched, requested)?.event ?? fetched;
+      const files = new Map<string, string[] | null>();
+      const frames = (event.data?.exception?.values ?? [])
+        .flatMap(exc => [...(exc.stacktrace?.frames ?? [])].reverse())
+        .filter(frame => all_frames || frame.in_app)
+        .map(frame => localFrame(frame, rules, files));
+
+      return respond(format, `Local source of event ${event_id}`, { event_id, frames }, formatLocalFrames(frames));
+    })
+  );
+
+  // ============================================================================
+  // Release Tools
+  // ============================================================================
+
+  // List Releases
+  registerTool(
+    "list_releases",
+    {
+      description: "List releases for a project. Releases help track which version introduced or fixed issues.",
+      inputSchema: {
+        project_id: z.number().describe("The project ID to list releases for"),
+        ...paginationParams,
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: pagedSchema('releases', releaseSchema),
+    },
+    withErrorHandling(async ({ project_id, format, instance, ...pagination }) => {
+      const client = instances.get(instance);
+
+      const { results, nextCursor } = await collectPages(
+        (cursor) => client.listReleases(project_id, { cursor }),
+        pagination
+      );
+      const data = { releases: results, next_cursor: nextCursor };
+      const title = `Releases of project ${project_id}`;
+
+      if (results.length === 0) {
+        return respond(format, title, data, `No releases found for project ${project_id}.`);
+      }
+
+      const items = results.map(r =>
+        `- ${r.version || '(empty)'} (ID: ${r.id})\n  Released: ${r.date_released}`
+      );
+
+      return respond(format, title, data, formatPagedList('release', items, nextCursor));
+    })
+  );
+
+  // Get Release Details
+  registerTool(
+    "get_release",
+    {
+      description: "Get detailed information about a specific release",
+      inputSchema: {
+        release_id: z.string().describe("The release ID (UUID) to retrieve"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: releaseSchema,
+    },
+    withErrorHandling(async ({ release_id, format, instance }) => {
+      const client = instances.get(instance);
+
+      const release = await client.getRelease(release_id);
+
+      return respond(format, `Release ${release.version || release.id}`, release, formatRelease(release));
+    })
+  );
+
+  // Create Release
+  registerTool(
+    "create_release",
+    {
+      description: "Create a new release for a project",
+      inputSchema: {
+        project_id: z.number().describe("The project ID to create the release for"),
+        version: z.string().describe("The release version string (e.g., '1.0.0', 'v2.3.1')"),
+        timestamp: z.string().optional().describe("Release timestamp (ISO 8601 format). Defaults to now."),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: releaseSchema,
+    },
+    withErrorHandling(async ({ project_id, version, timestamp, format, instance }) => {
+      const client = instances.get(instance);
+
+      const release = await client.createRelease({
+        project: project_id,
+        version,
+        timestamp,
+      });
+
+      return respond(format, `Release ${release.version || release.id}`, release,
+        `Release created successfully:\n  Version: ${release.version}\n  ID: ${release.id}\n  Released: ${release.date_released}`);
+    })
+  );
+
+  // Release Report
+  registerTool(
+    "release_report",
+    {
+      description: "Go/no-go check for a release: issues new since the release, regressions (issues marked as fixed but seen again), issues that stopped occurring, and event volume before and after, compared with the previous release or compare_to",
+      inputSchema: {
+        project_id: z.number().describe("The project ID"),
+        version: z.string().describe("The release version to report on"),
+        compare_to: z.string().optional().describe("Earlier release version to compare with (default: the previous release)"),
+        max_scan: z.number().int().positive().optional().default(2000).describe("Maximum number of issues to scan, most recently seen first (default: 2000)"),
+        max_events_per_issue: z.number().int().positive().optional().default(1000).describe("Maximum number of events counted per issue for the volume comparison (default: 1000)"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: releaseReportSchema,
+    },
+    withErrorHandling(async ({ project_id, version, compare_to, max_scan, max_events_per_issue, format, instance }) => {
+      const client = instances.get(instance);
+
+      const { value: report, redacted } = redactor.redact(await buildReleaseReport(client, project_id, version, compare_to, {
+        maxScan: max_scan,
+        maxEventsPerIssue: max_events_per_issue,
+      }));
+
+      return respond(format, `Release report for ${version}`, { ...report, redacted },
+        withRedactionNote(formatReleaseReport(report), redacted));
+    })
+  );
+
+  // ============================================================================
+  // Report Tools
+  // ============================================================================
+
+  // Generate Digest
+  registerTool(
+    "generate_digest",
+    {
+      description: "Generate a Markdown digest for a set of projects over a time window: new issues, top issues by events, regressions, muted issues that are noisy again and releases created. Optionally writes the report to a file.",
+      inputSchema: {
+        project_ids: z.array(z.number()).optional().describe("Projects to include (default: all)"),
+        since: z.string().optional().default(DIGEST_DEFAULTS.since).describe(`Start of the window: ISO 8601, or a duration like '24h' or '7d' meaning that long ago (default: ${DIGEST_DEFAULTS.since})`),
+        top: z.number().optional().default(DIGEST_DEFAULTS.top).describe(`Maximum number of issues per section (default: ${DIGEST_DEFAULTS.top})`),
+        max_issues: z.number().int().positive().optional().default(DIGEST_DEFAULTS.maxIssues).describe(`Maximum number of issues examined per project, most recently seen first (default: ${DIGEST_DEFAULTS.maxIssues})`),
+        max_events_per_issue: z.number().int().positive().optional().default(DIGEST_DEFAULTS.maxEventsPerIssue).describe(`Maximum number of events counted per issue (default: ${DIGEST_DEFAULTS.maxEventsPerIssue})`),
+        output_path: z.string().optional().describe("Write the Markdown report to this file (stdio transport only)"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: digestSchema,
+    },
+    withErrorHandling(async ({ project_ids, since, top, max_issues, max_events_per_issue, output_path, format, instance }) => {
+      const client = instances.get(instance);
+
+      // Over HTTP the caller is remote; never let it write files on the server
+      if (output_path && config.transport === "http") {
+        const detail = "output_path is only available with the stdio transport";
+        throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+      }
+
+      const { value: digest, redacted } = redactor.redact(await buildDigest(client, {
+        projectIds: project_ids ?? policy.allowedProjects(instances.resolve(instance)),
+        since: parseTimeBound(since),
+        top,
+        maxIssues: max_issues,
+        maxEventsPerIssue: max_events_per_issue,
+      }));
+      const report = withRedactionNote(formatDigest(digest), redacted);
+      const written = output_path ? writeReport(output_path, report) : null;
+      const data = { ...digest, report, output_path: written, redacted };
+
+      // The report is Markdown already; a generic Markdown rendering of it would only flatten it
+      return respond(format === 'json' ? format : 'text', `Digest since ${digest.since}`, data,
+        written ? `${report}\n\n---\n\nReport written to ${written}` : report);
+    })
+  );
+
+  // Get Changes Since (watch mode only)
+  if (watcher?.enabled) {
+    registerTool(
+      "get_changes_since",
+      {
+        description: "Get the new issues, regressions and unmuted issues the server detected in the watched projects since a cursor. Call without a cursor to get the latest changes and a cursor, then pass the returned cursor on the next call. For clients that do not subscribe to resource updates.",
+        inputSchema: {
+          cursor: z.string().optional().describe("Cursor returned by the previous call (omit to get the latest changes)"),
+          limit: z.number().optional().default(50).describe("Maximum number of changes to return (default: 50)"),
+          format: formatParams.format,
+          instance: z.string().optional().describe("Only changes of this Bugsink instance (see list_instances; default: all instances)"),
+        },
+        outputSchema: changesSchema,
+      },
+      withErrorHandling(async ({ cursor, limit, format, instance }) => {
+        const names = instance ? [instances.resolve(instance)] : instances.list().map(info => info.name);
+        const visible = (name: string, projectId: number) => {
+          const allowed = policy.allowedProjects(name);
+          return names.includes(name) && (!allowed || allowed.includes(projectId));
+        };
+
+        const latest = watcher.changesSince(cursor, limit, visible);
+        const { value: changes, redacted } = redactor.redact(latest.changes);
+        const result = { ...latest, changes, redacted };
+        const errors = result.watching.filter(project => project.error).map(project => `Polling project ${project.project_id} (${project.instance}) failed: ${project.error}`);
+        const text = [
+          result.changes.length > 0 ? formatIssueChanges(result.changes) : 'No changes.',
+          ...(result.missed ? ['Some changes after the given cursor were dropped from the log.'] : []),
+          ...errors,
+          `Next cursor: ${result.cursor}${result.more ? ' (more changes follow)' : ''}`,
+        ].join('\n\n');
+
+        return respond(format, `Changes since ${cursor ?? 'start'}`, result, withRedactionNote(text, redacted));
+      })
+    );
+  }
+
+  // ============================================================================
+  // Diagnostic Tools
+  // ============================================================================
+
+  // Audit Log
+  registerTool(
+    "get_audit_log",
+    {
+      description: "List recent calls of tools that change Bugsink data (create/update project, team and release, issue state changes, bulk updates), newest first, with arguments, outcome and the state before and after. Optionally includes undo payloads for project and team updates.",
+      inputSchema: {
+        tool: z.string().optional().describe("Only calls of this tool, e.g. 'update_project'"),
+        since: z.string().optional().describe("Only calls at or after this time (ISO 8601, or a duration like '24h' meaning that long ago)"),
+        limit: z.number().optional().default(20).describe("Maximum number of entries (default: 20)"),
+        undo: z.boolean().optional().default(false).describe("Include for each successful update_project and update_team call the call that reverts it"),
+        format: formatParams.format,
+        instance: z.string().optional().describe("Only calls on this Bugsink instance (see list_instances; default: all instances)"),
+      },
+      outputSchema: auditLogSchema,
+    },
+    withErrorHandling(async ({ tool, since, limit, undo, format, instance }) => {
+      const names = instance ? [instances.resolve(instance)] : instances.list().map(info => info.name);
+
+      const entries = audit
+        .query({
+          limit,
+          tool,
+          since: since ? parseTimeBound(since) : undefined,
+          instances: names,
+          allowedProjects: (name) => policy.allowedProjects(name),
+        })
+        .map(entry => (undo ? { ...entry, undo: undoPayload(entry) } : entry));
+      const data = { file: audit.file, entries };
+
+      if (entries.length === 0) {
+        return respond(format, "Audit log", data, "No audit log entries found.");
+      }
+      return respond(format, "Audit log", data,
+        `${entries.length} audit log entr${entries.length === 1 ? 'y' : 'ies'}, newest first:\n\n${formatAuditEntries(entries)}`);
+    })
+  );
+
+  // Cache Statistics
+  registerTool(
+    "get_cache_stats",
+    {
+      description: "Show response cache hit/miss statistics and entry counts per resource, optionally clearing the cache",
+      inputSchema: {
+        clear: z.boolean().optional().default(false).describe("Drop all cached responses after reading the statistics"),
+        ...formatParams,
+        ...instanceParams,
+      },
+      outputSchema: cacheStatsSchema,
+    },
+    withErrorHandling(async ({ clear, format, instance }) => {
+      const client = instances.get(instance);
+
+      const stats = { instance: instances.resolve(instance), ...client.cacheStats() };
+      if (clear) client.clearCache();
+
+      const lookups = stats.hits + stats.misses;
+      const hitRate = lookups > 0 ? `${Math.round((stats.hits / lookups) * 100)}%` : 'n/a';
+      const rows = stats.resources.map(r =>
+        `- ${r.resource}: ${r.entries} cached, ${r.hits} hit(s), ${r.misses} miss(es), TTL ${r.ttl_ms / 1000}s`
+      );
+      const text = stats.enabled
+        ? `Cache for instance ${stats.instance}: ${stats.entries} entries, ${stats.hits} hit(s), ${stats.misses} miss(es) (hit rate ${hitRate}), ${stats.invalidations} invalidated${stats.file ? `\nPersisted to ${stats.file}` : ''}\n\n${rows.join('\n')}${clear ? '\n\nCache cleared.' : ''}`
+        : `Cache is disabled for instance ${stats.instance}.`;
+
+      return respond(format, `Cache statistics for ${stats.instance}`, stats, text);
+    })
+  );
+}
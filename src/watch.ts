@@ -0,0 +1,313 @@
+/**
+ * Watch Mode
+ *
+ * Polls configured projects in the background and detects new issues,
+ * regressions and unmuted issues by comparing snapshots of `digest_order`,
+ * `last_seen` and the issue flags between polls. Detected changes are kept in
+ * a bounded log that clients read with a cursor (`get_changes_since`), and are
+ * pushed to subscribed clients as `notifications/resources/updated`.
+ *
+ * Polls bypass the response cache; issues found to have changed are dropped
+ * from it, so the next read of them is fresh.
+ */
+
+import type { Issue } from './bugsink-client.js';
+import type { WatchConfig } from './config.js';
+import { BugsinkNotFoundError, BugsinkValidationError } from './errors.js';
+import type { InstanceRegistry } from './instances.js';
+import { wasFixed } from './release-report.js';
+
+export const CHANGE_KINDS = ['new', 'regressed', 'unmuted'] as const;
+
+export type ChangeKind = (typeof CHANGE_KINDS)[number];
+
+/** Changes kept for get_changes_since; older ones are dropped first */
+const MAX_CHANGES = 1000;
+/** Issues scanned per poll, most recently seen first */
+const MAX_POLL_SCAN = 500;
+/** Issue states remembered per project between polls */
+const MAX_REMEMBERED_ISSUES = 5000;
+
+export interface IssueChange {
+  /** Position in the change log; pass it to get_changes_since to continue after it */
+  cursor: string;
+  kind: ChangeKind;
+  instance: string;
+  project_id: number;
+  detected_at: string;
+  issue: Issue;
+}
+
+export interface WatchedProject {
+  instance: string;
+  project_id: number;
+  last_polled: string | null;
+  /** Error of the last poll, if it failed */
+  error: string | null;
+}
+
+export interface ChangesSince {
+  /** Cursor to pass next time; unchanged when there are no new changes */
+  cursor: string;
+  changes: IssueChange[];
+  /** More changes follow the returned ones */
+  more: boolean;
+  /** The given cursor is older than the oldest change kept, so some changes were dropped */
+  missed: boolean;
+  watching: WatchedProject[];
+}
+
+type ChangeListener = (changes: IssueChange[]) => void;
+
+type DetectedChange = Omit<IssueChange, 'cursor' | 'detected_at'>;
+
+interface IssueState {
+  last_seen: string;
+  muted: boolean;
+  resolved: boolean;
+}
+
+interface ProjectWatch {
+  instance: string;
+  projectId: number;
+  /** Null until the first successful poll has taken the baseline */
+  issues: Map<string, IssueState> | null;
+  muted: Set<string>;
+  maxDigestOrder: number;
+  /** Latest `last_seen` of the previous poll (epoch ms); issues seen before it are unchanged */
+  watermark: number;
+  lastPolled: string | null;
+  error: string | null;
+}
+
+export class IssueWatcher {
+  private readonly projects: ProjectWatch[];
+  private changes: IssueChange[] = [];
+  private sequence = 0;
+  private listeners = new Set<ChangeListener>();
+  private timer: NodeJS.Timeout | undefined;
+  private polling = false;
+
+  constructor(
+    private instances: InstanceRegistry,
+    private config: WatchConfig
+  ) {
+    this.projects = Object.entries(config.projects).flatMap(([instance, ids]) =>
+      ids.map((projectId) => ({
+        instance,
+        projectId,
+        issues: null,
+        muted: new Set<string>(),
+        maxDigestOrder: 0,
+        watermark: 0,
+        lastPolled: null,
+        error: null,
+      }))
+    );
+  }
+
+  get enabled(): boolean {
+    return this.projects.length > 0;
+  }
+
+  /**
+   * Take the baseline now and poll at the configured interval
+   */
+  start(): void {
+    if (!this.enabled || this.timer) return;
+
+    void this.poll();
+    this.timer = setInterval(() => void this.poll(), this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Call a listener with every batch of detected changes. Returns a function
+   * that removes the listener.
+   */
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Changes after a cursor, oldest first; without a cursor, the most recent
+   * changes. Only changes of the projects `visible` accepts are included.
+   */
+  changesSince(
+    cursor: string | undefined,
+    limit: number,
+    visible: (instance: string, projectId: number) => boolean
+  ): ChangesSince {
+    const changes = this.changes.filter((change) => visible(change.instance, change.project_id));
+    const watching = this.projects
+      .filter((project) => visible(project.instance, project.projectId))
+      .map((project) => ({
+        instance: project.instance,
+        project_id: project.projectId,
+        last_polled: project.lastPolled,
+        error: project.error,
+      }));
+
+    if (cursor === undefined) {
+      return {
+        cursor: String(this.sequence),
+        changes: changes.slice(-limit),
+        more: false,
+        missed: false,
+        watching,
+      };
+    }
+
+    const after = Number(cursor);
+    if (!/^\d+$/.test(cursor) || after > this.sequence) {
+      const detail = `invalid cursor "${cursor}"; use a cursor returned by get_changes_since`;
+      throw new BugsinkValidationError(`Invalid argument: ${detail}`, undefined, detail);
+    }
+
+    const pending = changes.filter((change) => Number(change.cursor) > after);
+    const page = pending.slice(0, limit);
+    const more = pending.length > page.length;
+
+    return {
+      cursor: more ? page[page.length - 1].cursor : String(this.sequence),
+      changes: page,
+      more,
+      missed: this.changes.length > 0 && Number(this.changes[0].cursor) > after + 1,
+      watching,
+    };
+  }
+
+  /**
+   * Poll every watched project once and record and announce what changed
+   */
+  async poll(): Promise<IssueChange[]> {
+    if (this.polling) return [];
+    this.polling = true;
+
+    try {
+      const detected = (
+        await Promise.all(this.projects.map((project) => this.pollProject(project)))
+      ).flat();
+      const now = new Date().toISOString();
+      const changes = detected.map((change) => ({
+        ...change,
+        cursor: String(++this.sequence),
+        detected_at: now,
+      }));
+
+      this.changes.push(...changes);
+      if (this.changes.length > MAX_CHANGES) {
+        this.changes = this.changes.slice(-MAX_CHANGES);
+      }
+      if (changes.length > 0) {
+        for (const listener of this.listeners) listener(changes);
+      }
+      return changes;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async pollProject(project: ProjectWatch): Promise<DetectedChange[]> {
+    const client = this.instances.get(project.instance);
+    const detected: DetectedChange[] = [];
+    const record = (kind: ChangeKind, issue: Issue) =>
+      detected.push({ kind, instance: project.instance, project_id: project.projectId, issue });
+    // A muted issue that was deleted is simply no longer watched
+    const getIssueIfExists = (id: string) =>
+      client.getIssue(id).catch((error: unknown) => {
+        if (error instanceof BugsinkNotFoundError) return null;
+        throw error;
+      });
+
+    try {
+      const recent: Issue[] = [];
+      for await (const issue of client.iterateIssues(project.projectId, {
+        sort: 'last_seen',
+        order: 'desc',
+        maxItems: MAX_POLL_SCAN,
+        fresh: true,
+      })) {
+        if (Date.parse(issue.last_seen) < project.watermark) break;
+        recent.push(issue);
+      }
+
+      const muted = new Set<string>();
+      for await (const issue of client.iterateIssues(project.projectId, {
+        status: 'muted',
+        maxItems: MAX_POLL_SCAN,
+        fresh: true,
+      })) {
+        if (issue.is_muted) muted.add(issue.id);
+      }
+
+      if (project.issues) {
+        for (const issue of recent) {
+          const before = project.issues.get(issue.id);
+          if (before && before.last_seen === issue.last_seen) continue;
+
+          if (issue.digest_order > project.maxDigestOrder) {
+            record('new', issue);
+          } else if (!issue.is_resolved && (before ? before.resolved : wasFixed(issue))) {
+            record('regressed', issue);
+          } else if ((before?.muted || project.muted.has(issue.id)) && !issue.is_muted) {
+            record('unmuted', issue);
+          }
+        }
+
+        // Issues can be unmuted without new events (by time or by hand)
+        const reported = new Set(detected.map((change) => change.issue.id));
+        const unmuted = [...project.muted].filter((id) => !muted.has(id) && !reported.has(id));
+        client.forgetIssues(unmuted);
+        for (const id of unmuted) {
+          const issue = await getIssueIfExists(id);
+          if (
+            issue &&
+            !issue.is_muted &&
+            !issue.is_resolved &&
+            !issue.is_resolved_by_next_release
+          ) {
+            record('unmuted', issue);
+          }
+        }
+      }
+
+      this.remember(project, recent, muted);
+      client.forgetIssues(detected.map((change) => change.issue.id));
+      project.error = null;
+    } catch (error) {
+      project.error = error instanceof Error ? error.message : String(error);
+    }
+    project.lastPolled = new Date().toISOString();
+
+    return detected;
+  }
+
+  private remember(project: ProjectWatch, recent: Issue[], muted: Set<string>): void {
+    const issues = project.issues ?? new Map<string, IssueState>();
+    for (const issue of recent) {
+      // Re-inserting keeps the most recently seen issues last, so the oldest are dropped first
+      issues.delete(issue.id);
+      issues.set(issue.id, {
+        last_seen: issue.last_seen,
+        muted: issue.is_muted,
+        resolved: issue.is_resolved || issue.is_resolved_by_next_release,
+      });
+      project.maxDigestOrder = Math.max(project.maxDigestOrder, issue.digest_order);
+      project.watermark = Math.max(project.watermark, Date.parse(issue.last_seen));
+    }
+    for (const id of issues.keys()) {
+      if (issues.size <= MAX_REMEMBERED_ISSUES) break;
+      issues.delete(id);
+    }
+
+    project.issues = issues;
+    project.muted = muted;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Local Workspace Mapping
+ *
+ * Maps in-app stack frames to files in a local checkout using path-prefix
+ * rewrite rules (e.g. `/app/` → `/home/me/shop/`), reads the current source
+ * around each frame's line and compares it with the context captured in the
+ * event, since the code may have changed since the crash.
+ */
+
+import { readFileSync } from 'node:fs';
+import { isAbsolute, join, relative } from 'node:path';
+import type { StackFrame } from './bugsink-client.js';
+
+const CONTEXT_LINES = 5;
+/** How far from the original line to look for a moved context line */
+const SEARCH_RADIUS = 50;
+
+export interface PathRewrite {
+  /** Prefix of the frame's filename as reported in the event */
+  from: string;
+  /** Local directory that prefix corresponds to */
+  to: string;
+}
+
+/**
+ * How the local file relates to the event:
+ * - unchanged: the lines around the frame match the captured context
+ * - changed: they differ; the code was edited since the crash
+ * - unverified: the event carries no context to compare with
+ * - missing: the rewritten file or line does not exist locally
+ * - no_rule: no rewrite rule matches the frame's filename
+ */
+export type LocalSourceStatus = 'unchanged' | 'changed' | 'unverified' | 'missing' | 'no_rule';
+
+export interface LocalSourceLine {
+  lineno: number;
+  text: string;
+}
+
+export interface LocalFrame {
+  filename: string;
+  function: string;
+  lineno: number | null;
+  local_path: string | null;
+  status: LocalSourceStatus;
+  /** Where the captured context line is now, if it moved */
+  moved_to: number | null;
+  lines: LocalSourceLine[];
+}
+
+/**
+ * Rewrite a frame's filename to a local path using the first matching rule.
+ * Returns null when no rule matches or the result would escape the rule's directory.
+ */
+export function localPath(filename: string, rules: PathRewrite[]): string | null {
+  for (const rule of rules) {
+    if (!filename.startsWith(rule.from)) continue;
+
+    const path = join(rule.to, filename.slice(rule.from.length));
+    const inside = relative(rule.to, path);
+    return inside.startsWith('..') || isAbsolute(inside) ? null : path;
+  }
+  return null;
+}
+
+/**
+ * Read the local source around a frame and compare it with the event's context.
+ * `files` caches file contents across the frames of one event.
+ */
+export function localFrame(
+  frame: StackFrame,
+  rules: PathRewrite[],
+  files = new Map<string, string[] | null>()
+): LocalFrame {
+  const result: LocalFrame = {
+    filename: frame.filename,
+    function: frame.function,
+    lineno: frame.lineno ?? null,
+    local_path: localPath(frame.filename, rules),
+    status: 'no_rule',
+    moved_to: null,
+    lines: [],
+  };
+  if (!result.local_path) return result;
+
+  const source = readLines(result.local_path, files);
+  if (!source || !frame.lineno || frame.lineno > source.length) {
+    return { ...result, status: 'missing' };
+  }
+
+  const index = frame.lineno - 1;
+  result.lines = source
+    .slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1)
+    .map((text, i) => ({ lineno: Math.max(0, index - CONTEXT_LINES) + i + 1, text }));
+
+  if (frame.context_line === undefined) {
+    return { ...result, status: 'unverified' };
+  }
+
+  const pre = frame.pre_context ?? [];
+  const post = frame.post_context ?? [];
+  const captured = [...pre, frame.context_line, ...post];
+  const start = index - pre.length;
+  if (start >= 0 && captured.every((line, i) => sameLine(line, source[start + i]))) {
+    return { ...result, status: 'unchanged' };
+  }
+
+  return { ...result, status: 'changed', moved_to: findMovedLine(source, index, frame.context_line) };
+}
+
+/**
+ * Find the nearest line with the same content as the captured context line
+ */
+function findMovedLine(source: string[], index: number, contextLine: string): number | null {
+  if (!contextLine.trim()) return null;
+
+  for (let distance = 1; distance <= SEARCH_RADIUS; distance++) {
+    for (const candidate of [index - distance, index + distance]) {
+      if (candidate >= 0 && candidate < source.length && sameLine(contextLine, source[candidate])) {
+        return candidate + 1;
+      }
+    }
+  }
+  return null;
+}
+
+// Indentation may be normalized by the SDK that captured the context
+function sameLine(captured: string, local: string | undefined): boolean {
+  return local !== undefined && captured.trim() === local.trim();
+}
+
+function readLines(path: string, files: Map<string, string[] | null>): string[] | null {
+  if (!files.has(path)) {
+    try {
+      files.set(path, readFileSync(path, 'utf8').replace(/\r?\n$/, '').split(/\r?\n/));
+    } catch {
+      files.set(path, null);
+    }
+  }
+  return files.get(path) ?? null;
+}
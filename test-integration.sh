@@ -1,17 +1,35 @@
 #!/bin/bash
 # Integration test for Bugsink MCP Server
-# Tests the server against a live Bugsink instance
+# Tests the server against the Bugsink instance in BUGSINK_URL/BUGSINK_TOKEN,
+# or against the bundled fake Bugsink server when they are not set
 
 set -e
 
 echo "=== Bugsink MCP Server Integration Test ==="
 echo ""
 
+cd "$(dirname "$0")"
+
 # Configuration
-export BUGSINK_URL="https://error-tracking.bookingmanager.com"
-export BUGSINK_TOKEN="9eb79cc2ca05503cc75b30174b14c201fd3006dd"
+if [ -z "$BUGSINK_URL" ]; then
+  FAKE_PORT="${FAKE_PORT:-8787}"
+  export BUGSINK_URL="http://127.0.0.1:$FAKE_PORT"
+  export BUGSINK_TOKEN="integration-test"
 
-cd "$(dirname "$0")"
+  node dist/fake-bugsink.js --port "$FAKE_PORT" --token "$BUGSINK_TOKEN" 2>/dev/null &
+  FAKE_PID=$!
+  trap 'kill $FAKE_PID 2>/dev/null' EXIT
+
+  for _ in $(seq 1 50); do
+    curl -s -o /dev/null "$BUGSINK_URL/" && break
+    sleep 0.1
+  done
+  echo "Using the fake Bugsink server at $BUGSINK_URL"
+  echo ""
+elif [ -z "$BUGSINK_TOKEN" ]; then
+  echo "BUGSINK_TOKEN is required when BUGSINK_URL is set"
+  exit 1
+fi
 
 echo "[1/5] Testing API connectivity directly..."
 PROJECTS=$(curl -s -H "Authorization: Bearer $BUGSINK_TOKEN" "$BUGSINK_URL/api/canonical/0/projects/")
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { FieldBreakdown, IssueBreakdown } from '../src/breakdown.js';
+import { CHECKOUT_ISSUE, connect, data, text, type Harness } from './helpers.js';
+
+const STOREFRONT_ISSUE = 'e1f4a9b5-6c2d-4e73-9a2b-1c4d5e6f7a03';
+
+let harness: Harness | undefined;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+async function breakdown(args: Record<string, unknown>) {
+  harness ??= await connect();
+  const result = await harness.call('issue_breakdown', args);
+  const value = data<IssueBreakdown>(result);
+  const field = (name: string) => value.fields.find((f) => f.field === name);
+  return { breakdown: value, field, text: text(result) };
+}
+
+describe('issue_breakdown', () => {
+  it('ranks the values of the default fields across the sampled events', async () => {
+    const { breakdown: result, field } = await breakdown({ issue_id: CHECKOUT_ISSUE });
+
+    expect(result.sampled).toBe(3);
+    expect(field('tags.release')?.values).toEqual([{ value: 'api@1.8.0', count: 3, percent: 100 }]);
+    // Request URLs are counted by path
+    expect(field('url')?.values).toEqual([{ value: '/api/orders/', count: 3, percent: 100 }]);
+    expect(field('contexts.os.name')?.values[0].value).toBe('Linux');
+    // Only the named context keys are included by default
+    expect(field('contexts.runtime.version')).toBeUndefined();
+    // Fields follow the order of the keys
+    expect(result.fields[0].field.startsWith('tags.')).toBe(true);
+  });
+
+  it('breaks down the requested keys and counts values beyond top as other', async () => {
+    const { field, text } = await breakdown({
+      issue_id: STOREFRONT_ISSUE,
+      keys: ['tags.browser'],
+      top: 1,
+    });
+
+    expect(field('tags.browser')).toEqual<FieldBreakdown>({
+      field: 'tags.browser',
+      events: 2,
+      distinct: 2,
+      // Ties are ranked alphabetically
+      values: [{ value: 'Chrome 127.0', count: 1, percent: 50 }],
+      other: 1,
+    });
+    expect(text).toContain('Chrome 127.0');
+    expect(text).not.toContain('Firefox 128.0');
+  });
+
+  it('samples only the most recent events', async () => {
+    const { breakdown: result, field } = await breakdown({
+      issue_id: STOREFRONT_ISSUE,
+      keys: ['tags.browser'],
+      sample_size: 1,
+    });
+
+    expect(result.sampled).toBe(1);
+    expect(field('tags.browser')?.values).toEqual([
+      { value: 'Chrome 127.0', count: 1, percent: 100 },
+    ]);
+  });
+});
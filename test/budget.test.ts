@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { fitSteps, resolveBudget, selectParts, truncateText } from '../src/budget.js';
+
+const lines = (count: number) =>
+  Array.from({ length: count }, (_, i) => `line ${i} of the text`).join('\n');
+
+describe('truncateText', () => {
+  it('keeps text that fits', () => {
+    expect(truncateText('short', 5, 'hint')).toBe('short');
+    expect(truncateText('short', null, 'hint')).toBe('short');
+  });
+
+  it('cuts at a line break and stays within max_chars, marker included', () => {
+    const text = lines(200);
+
+    for (const maxChars of [150, 500, 2000]) {
+      const cut = truncateText(text, maxChars, 'raise max_chars to see the rest');
+      expect(cut.length).toBeLessThanOrEqual(maxChars);
+      expect(cut).toMatch(/\n\n… \d+ more character\(s\) omitted .*raise max_chars/);
+      const kept = cut.slice(0, cut.indexOf('\n\n…'));
+      expect(text.startsWith(`${kept}\n`)).toBe(true);
+    }
+  });
+
+  it('leaves room for reserved characters', () => {
+    const cut = truncateText(lines(200), 500, 'hint', 100);
+
+    expect(cut.length).toBeLessThanOrEqual(400);
+    expect(cut).toContain('max_chars (500)');
+  });
+
+  it('cuts without a marker when not even the marker fits', () => {
+    expect(truncateText(lines(10), 20, 'hint')).toBe(lines(10).slice(0, 20));
+  });
+});
+
+describe('fitSteps', () => {
+  const size = (steps: number) => 100 - steps * 10;
+
+  it('leaves out the fewest steps that fit', () => {
+    expect(fitSteps(10, null, size)).toBe(0);
+    expect(fitSteps(10, 100, size)).toBe(0);
+    expect(fitSteps(10, 65, size)).toBe(4);
+    expect(fitSteps(10, 0, size)).toBe(10);
+  });
+
+  it('returns the maximum when nothing fits', () => {
+    expect(fitSteps(3, 10, size)).toBe(3);
+  });
+});
+
+describe('selectParts', () => {
+  it('keeps parts by priority until one does not fit', () => {
+    const parts = [
+      { text: 'aaaa', priority: 2 },
+      { text: 'bb', priority: 0 },
+      { text: 'cccccc', priority: 1 },
+    ];
+
+    expect(selectParts(parts, 10)).toEqual([false, true, true]);
+    expect(selectParts(parts, 5)).toEqual([false, true, false]);
+    expect(selectParts(parts, null)).toEqual([true, true, true]);
+  });
+});
+
+describe('resolveBudget', () => {
+  const defaults = { maxChars: 1000, detail: 'normal' as const };
+
+  it('lifts the default limit at full detail, but not an explicit one', () => {
+    expect(resolveBudget(defaults, undefined, 'full')).toEqual({ maxChars: null, detail: 'full' });
+    expect(resolveBudget(defaults, 200, 'full')).toEqual({ maxChars: 200, detail: 'full' });
+    expect(resolveBudget(defaults, undefined, undefined)).toEqual(defaults);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { ResponseCache } from '../src/cache.js';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe('ResponseCache', () => {
+  it('shares one load between concurrent misses', async () => {
+    const cache = new ResponseCache();
+    let loads = 0;
+    const load = async () => ++loads;
+
+    const [a, b] = await Promise.all([
+      cache.getOrLoad('issues', '/issues/1', load),
+      cache.getOrLoad('issues', '/issues/1', load),
+    ]);
+
+    expect([a, b, loads]).toEqual([1, 1, 1]);
+  });
+
+  it('does not cache a load that an invalidation overtook', async () => {
+    const cache = new ResponseCache();
+    const stale = deferred<string>();
+
+    const inFlight = cache.getOrLoad('issues', '/issues/1', () => stale.promise);
+    cache.invalidate('/issues/');
+    // A read after the invalidation must not join the load from before it
+    const fresh = cache.getOrLoad('issues', '/issues/1', async () => 'resolved');
+    stale.resolve('unresolved');
+
+    expect(await inFlight).toBe('unresolved');
+    expect(await fresh).toBe('resolved');
+    expect(await cache.getOrLoad('issues', '/issues/1', async () => 'reloaded')).toBe('resolved');
+  });
+
+  it('does not cache a load that a clear overtook', async () => {
+    const cache = new ResponseCache();
+    const stale = deferred<string>();
+
+    const inFlight = cache.getOrLoad('projects', '/projects/', () => stale.promise);
+    cache.clear();
+    stale.resolve('before');
+    await inFlight;
+
+    expect(await cache.getOrLoad('projects', '/projects/', async () => 'after')).toBe('after');
+  });
+});
@@ -0,0 +1,152 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Project } from '../src/bugsink-client.js';
+import type { Interaction } from '../src/cassette.js';
+import { CHECKOUT_ISSUE, connect, data, text, type Harness } from './helpers.js';
+
+// Never contacted: replayed requests are answered from the cassette
+const REPLAY_URL = 'http://bugsink.invalid';
+
+let harness: Harness | undefined;
+
+async function start(env: Record<string, string> = {}): Promise<Harness> {
+  harness = await connect(env);
+  return harness;
+}
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+/**
+ * Record a session against the fake server and return the cassette directory
+ */
+async function record(calls: [string, Record<string, unknown>][]): Promise<string> {
+  const dir = mkdtempSync(join(tmpdir(), 'bugsink-cassette-'));
+  const recording = await connect({ BUGSINK_CASSETTE_MODE: 'record', BUGSINK_CASSETTE_DIR: dir });
+  try {
+    for (const [name, args] of calls) data(await recording.call(name, args));
+  } finally {
+    await recording.close();
+  }
+  return dir;
+}
+
+function replay(dir: string, env: Record<string, string> = {}): Promise<Harness> {
+  return start({
+    BUGSINK_URL: REPLAY_URL,
+    BUGSINK_CASSETTE_MODE: 'replay',
+    BUGSINK_CASSETTE_DIR: dir,
+    ...env,
+  });
+}
+
+function readCassette(dir: string): Interaction[] {
+  return readFileSync(join(dir, 'default.jsonl'), 'utf8')
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line) as Interaction);
+}
+
+function writeCassette(dir: string, interactions: Interaction[]): void {
+  writeFileSync(
+    join(dir, 'default.jsonl'),
+    interactions.map((interaction) => `${JSON.stringify(interaction)}\n`).join('')
+  );
+}
+
+const rateLimited = (request: Interaction['request'], retryAfter: string): Interaction => ({
+  request,
+  response: {
+    status: 429,
+    content_type: 'application/json',
+    retry_after: retryAfter,
+    body: '{"detail":"Request was throttled."}',
+  },
+});
+
+describe('cassettes', () => {
+  it('replays a recorded session without the server', async () => {
+    const dir = await record([
+      ['list_projects', {}],
+      ['get_issue', { issue_id: CHECKOUT_ISSUE }],
+    ]);
+    const { call } = await replay(dir);
+
+    const { projects } = data<{ projects: Project[] }>(await call('list_projects'));
+    const issue = data(await call('get_issue', { issue_id: CHECKOUT_ISSUE }));
+
+    expect(projects.map((project) => project.name)).toEqual(['Checkout API', 'Storefront']);
+    expect(issue.id).toBe(CHECKOUT_ISSUE);
+  });
+
+  it('replays against a base URL served under a path', async () => {
+    const dir = await record([['list_projects', {}]]);
+    const { call } = await replay(dir, { BUGSINK_URL: `${REPLAY_URL}/bugsink` });
+
+    expect(readCassette(dir)[0].request.path).toMatch(/^\/projects\//);
+    expect(data(await call('list_projects')).projects).toHaveLength(2);
+  });
+
+  it('never writes the API token to the cassette', async () => {
+    const dir = await record([['list_projects', {}]]);
+
+    expect(readFileSync(join(dir, 'default.jsonl'), 'utf8')).not.toContain('test-token');
+  });
+
+  it('replays repeated requests in recorded order', async () => {
+    const dir = await record([
+      ['get_issue', { issue_id: CHECKOUT_ISSUE }],
+      ['resolve_issue', { issue_id: CHECKOUT_ISSUE }],
+      ['get_issue', { issue_id: CHECKOUT_ISSUE }],
+    ]);
+    const { call } = await replay(dir);
+
+    const before = data(await call('get_issue', { issue_id: CHECKOUT_ISSUE }));
+    data(await call('resolve_issue', { issue_id: CHECKOUT_ISSUE }));
+    const after = data(await call('get_issue', { issue_id: CHECKOUT_ISSUE }));
+
+    expect(before.is_resolved).toBe(false);
+    expect(after.is_resolved).toBe(true);
+  });
+
+  it('reports requests missing from the cassette', async () => {
+    const dir = await record([['list_projects', {}]]);
+    const { call } = await replay(dir);
+
+    const result = await call('get_issue', { issue_id: CHECKOUT_ISSUE });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('no recorded response for GET');
+  });
+});
+
+describe('retries', () => {
+  it('waits as long as Retry-After asks before retrying', async () => {
+    const dir = await record([['list_projects', {}]]);
+    const [interaction] = readCassette(dir);
+    writeCassette(dir, [rateLimited(interaction.request, '1'), interaction]);
+    const { call } = await replay(dir);
+
+    const started = Date.now();
+    const result = await call('list_projects');
+
+    expect(data(result).projects).toHaveLength(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(950);
+  });
+
+  it('gives up once the retries are used up', async () => {
+    const dir = await record([['list_projects', {}]]);
+    const [interaction] = readCassette(dir);
+    writeCassette(dir, [rateLimited(interaction.request, '0'), interaction]);
+    const { call } = await replay(dir, { BUGSINK_MAX_RETRIES: '0' });
+
+    const result = await call('list_projects');
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toMatch(/rate limit/i);
+  });
+});
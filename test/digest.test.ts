@@ -0,0 +1,91 @@
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Digest, DigestIssue, ProjectDigest } from '../src/digest.js';
+import {
+  CHECKOUT_API,
+  CHECKOUT_ISSUE,
+  connect,
+  data,
+  PAYMENTS_ISSUE,
+  type Harness,
+} from './helpers.js';
+
+const STOREFRONT = 1;
+const STOREFRONT_ISSUE = 'e1f4a9b5-6c2d-4e73-9a2b-1c4d5e6f7a03';
+
+type DigestResult = Digest & { report: string; output_path: string | null };
+
+let harness: Harness | undefined;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+async function digest(args: Record<string, unknown>) {
+  harness ??= await connect();
+  const result = data<DigestResult>(await harness.call('generate_digest', args));
+  const project = (id: number) => result.projects.find((p) => p.id === id) as ProjectDigest;
+  return { digest: result, project };
+}
+
+const ids = (issues: DigestIssue[]) => issues.map((issue) => issue.id);
+
+describe('generate_digest', () => {
+  it('sorts the issues seen in the window into sections', async () => {
+    const { project } = await digest({ since: '24h' });
+    const checkout = project(CHECKOUT_API);
+    const storefront = project(STOREFRONT);
+
+    // Ranked by events within the window, not in total
+    expect(ids(checkout.top_issues)).toEqual([CHECKOUT_ISSUE, PAYMENTS_ISSUE]);
+    expect(checkout.top_issues.map((issue) => issue.window_events)).toEqual([2, 1]);
+    expect(ids(checkout.noisy_muted)).toEqual([PAYMENTS_ISSUE]);
+    expect(checkout.new_issues).toEqual([]);
+    // Marked as resolved by the next release, but seen again
+    expect(ids(storefront.regressions)).toEqual([STOREFRONT_ISSUE]);
+    expect(storefront.releases).toEqual([]);
+  });
+
+  it('counts issues first seen in the window as new and lists its releases', async () => {
+    const { project } = await digest({ since: '48h', project_ids: [STOREFRONT] });
+    const storefront = project(STOREFRONT);
+
+    expect(ids(storefront.new_issues)).toEqual([STOREFRONT_ISSUE]);
+    expect(storefront.regressions).toEqual([]);
+    expect(storefront.releases.map((release) => release.version)).toEqual(['storefront@2.4.0']);
+    expect(project(CHECKOUT_API)).toBeUndefined();
+  });
+
+  it('marks counts cut short by the limits', async () => {
+    const capped = await digest({ since: '24h', project_ids: [CHECKOUT_API], max_issues: 1 });
+    const sampled = await digest({
+      since: '24h',
+      project_ids: [CHECKOUT_API],
+      max_events_per_issue: 1,
+    });
+
+    expect(capped.project(CHECKOUT_API)).toMatchObject({ active: 1, truncated: true });
+    expect(capped.digest.report).toContain('counts are lower bounds');
+    expect(sampled.project(CHECKOUT_API).top_issues[0].window_events).toBe(1);
+    expect(sampled.project(CHECKOUT_API).truncated).toBe(true);
+  });
+
+  it('lists only the top issues per section', async () => {
+    const { digest: result, project } = await digest({ since: '24h', top: 1 });
+
+    expect(project(CHECKOUT_API).top_issues).toHaveLength(1);
+    expect(result.report).toContain('_And 1 more._');
+  });
+
+  it('writes the report to a file', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'bugsink-digest-')), 'reports', 'daily.md');
+
+    const { digest: result } = await digest({ since: '24h', output_path: path });
+
+    expect(result.output_path).toBe(path);
+    expect(readFileSync(path, 'utf8')).toBe(`${result.report}\n`);
+  });
+});
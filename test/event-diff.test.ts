@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Event } from '../src/bugsink-client.js';
+import { diffEvents, type EventDiff } from '../src/event-diff.js';
+import { defaultFixtures } from '../src/fixtures.js';
+import { CHECKOUT_EVENT, connect, data, text, type Harness } from './helpers.js';
+
+const EARLIER_CHECKOUT_EVENT = '1a2b3c4d-5e6f-4a1b-9c2d-3e4f5a6b7c12';
+const FIREFOX_EVENT = '4d5e6f7a-8b9c-4d4e-8f5a-6b7c8d9e0f15';
+const CHROME_EVENT = '5e6f7a8b-9c0d-4e5f-9a6b-7c8d9e0f1a16';
+
+let harness: Harness | undefined;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+async function compare(event_a: string, event_b: string) {
+  harness ??= await connect();
+  const result = await harness.call('compare_events', { event_a, event_b });
+  return { diff: data<EventDiff>(result), text: text(result) };
+}
+
+function fixtureEvent(id: string): Event {
+  return defaultFixtures().events.find((event) => event.id === id)!;
+}
+
+describe('compare_events', () => {
+  it('lists the fields that differ between two events of an issue', async () => {
+    const { diff } = await compare(EARLIER_CHECKOUT_EVENT, CHECKOUT_EVENT);
+
+    expect(diff.same_issue).toBe(true);
+    expect(diff.fields).toEqual([{ field: 'exception[0].value', a: "'MUG-01'", b: "'TEE-42'" }]);
+    expect(diff.frames).toEqual([]);
+  });
+
+  it('compares tags and context fields', async () => {
+    const { diff, text } = await compare(FIREFOX_EVENT, CHROME_EVENT);
+
+    expect(diff.fields).toContainEqual({
+      field: 'tags.browser',
+      a: 'Firefox 128.0',
+      b: 'Chrome 127.0',
+    });
+    expect(diff.fields).toContainEqual({
+      field: 'contexts.browser.name',
+      a: 'Firefox',
+      b: 'Chrome',
+    });
+    expect(text).toContain('tags.browser');
+  });
+
+  it('reports frames of another issue as removed and added', async () => {
+    const { diff } = await compare(CHECKOUT_EVENT, CHROME_EVENT);
+
+    expect(diff.same_issue).toBe(false);
+    expect(diff.frames).toContainEqual(
+      expect.objectContaining({ change: 'removed', exception: 0, filename: 'checkout/orders.py' })
+    );
+    expect(diff.frames).toContainEqual(
+      expect.objectContaining({ change: 'added', exception: 0, function: 'n' })
+    );
+    // The second exception only exists in the checkout event
+    expect(diff.frames.filter((frame) => frame.exception === 1)).toHaveLength(2);
+  });
+});
+
+describe('diffEvents', () => {
+  it('reports a frame on another line as moved', () => {
+    const a = fixtureEvent(CHECKOUT_EVENT);
+    const b = structuredClone(a);
+    b.data!.exception!.values[0].stacktrace!.frames[0].lineno = 25;
+
+    expect(diffEvents(a, b).frames).toEqual([
+      {
+        change: 'moved',
+        exception: 0,
+        filename: 'checkout/orders.py',
+        function: 'build_order',
+        lineno_a: 22,
+        lineno_b: 25,
+      },
+    ]);
+  });
+
+  it('pairs repeated frames in order', () => {
+    const a = fixtureEvent(CHECKOUT_EVENT);
+    const b = structuredClone(a);
+    const frames = b.data!.exception!.values[0].stacktrace!.frames;
+    frames.push({ ...frames[0], lineno: 30 });
+
+    expect(diffEvents(a, b).frames).toEqual([
+      expect.objectContaining({ change: 'added', lineno_a: null, lineno_b: 30 }),
+    ]);
+  });
+});
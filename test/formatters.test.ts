@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { formatEvent, formatEventDetails } from '../src/formatters.js';
+import { defaultFixtures } from '../src/fixtures.js';
+
+const fixtures = defaultFixtures(new Date('2026-01-15T12:00:00Z'));
+const event = (id: string) => fixtures.events.find((e) => e.id === id)!;
+const checkoutEvent = event('2b3c4d5e-6f7a-4b2c-8d3e-4f5a6b7c8d13');
+const workerEvent = event('3c4d5e6f-7a8b-4c3d-9e4f-5a6b7c8d9e14');
+const unlimited = { maxChars: null, detail: 'normal' } as const;
+
+describe('formatEventDetails', () => {
+  it('renders the whole event when it fits', () => {
+    const text = formatEventDetails(checkoutEvent, { maxChars: null, detail: 'normal' });
+
+    expect(text).not.toContain('omitted');
+    expect(text).toContain('Breadcrumbs (oldest first):');
+  });
+
+  it('stays within max_chars, leaving reserved characters free', () => {
+    for (const maxChars of [300, 600, 1200]) {
+      for (const reserved of [0, 120]) {
+        const text = formatEventDetails(checkoutEvent, { maxChars, detail: 'normal' }, reserved);
+        expect(text.length).toBeLessThanOrEqual(maxChars - reserved);
+      }
+    }
+  });
+
+  it('names the sections that show what was omitted', () => {
+    const text = formatEventDetails(checkoutEvent, { maxChars: 1200, detail: 'normal' });
+
+    expect(text).toMatch(/Parts of this event were omitted to stay within max_chars \(1200\)/);
+    expect(text).toMatch(/Call get_event with section: .*'(contexts|extra|tags)'/);
+  });
+
+  it('keeps only the summary and in-app frames at brief detail', () => {
+    const text = formatEventDetails(checkoutEvent, { maxChars: null, detail: 'brief' });
+
+    expect(text).toContain('create_order');
+    expect(text).not.toContain('_get_response');
+    expect(text).toContain("omitted at detail 'brief'");
+  });
+});
+
+describe('exception chains', () => {
+  it('shows the raised exception first and what caused it after', () => {
+    const text = formatEventDetails(checkoutEvent, unlimited);
+
+    const raised = text.indexOf('CheckoutError: Cannot build order (unhandled, via django)');
+    const cause = text.indexOf("Caused by: KeyError: 'TEE-42'");
+    expect(raised).toBeGreaterThan(-1);
+    expect(cause).toBeGreaterThan(raised);
+    // Each exception is followed by its own frames
+    expect(text.indexOf('checkout/views.py:48 in create_order')).toBeLessThan(cause);
+    expect(text.indexOf('checkout/orders.py:22 in build_order')).toBeGreaterThan(cause);
+  });
+
+  it('lists the chain in the event summary', () => {
+    expect(formatEvent(checkoutEvent)).toContain(
+      "    CheckoutError: Cannot build order (unhandled, via django)\n    Caused by: KeyError: 'TEE-42'"
+    );
+  });
+});
+
+describe('threads', () => {
+  it('shows the stack of the crashed thread when the exception has none', () => {
+    const text = formatEventDetails(workerEvent, unlimited);
+
+    expect(text).toContain(
+      [
+        '  Crashed thread: payments-worker (2)',
+        '    Stacktrace (most recent first):',
+        '      payments/worker.py:71 in capture',
+      ].join('\n')
+    );
+    expect(text).toContain('  Threads: 2');
+    expect(formatEvent(workerEvent)).not.toContain('Crashed thread');
+  });
+
+  it('falls back to the thread the exception names', () => {
+    const data = structuredClone(workerEvent.data)!;
+    delete data.threads!.values[1].crashed;
+
+    const text = formatEventDetails({ ...workerEvent, data }, unlimited);
+
+    expect(text).toContain('Crashed thread: payments-worker (2)');
+  });
+});
+
+describe('breadcrumbs', () => {
+  it('lists breadcrumbs oldest first, with level and data', () => {
+    const text = formatEventDetails(checkoutEvent, unlimited);
+
+    expect(text).toContain(
+      [
+        'Breadcrumbs (oldest first):',
+        '  2026-01-15T11:58:48.000Z http: GET /api/cart/ {"status_code":200}',
+        '  2026-01-15T11:59:24.000Z query: SELECT * FROM checkout_cartline WHERE cart_id = %s',
+        '  2026-01-15T11:59:24.000Z checkout [warning]: Unknown SKU TEE-42',
+      ].join('\n')
+    );
+  });
+
+  it('converts epoch timestamps and cuts long data short', () => {
+    const data = structuredClone(checkoutEvent.data)!;
+    data.breadcrumbs = {
+      values: [{ timestamp: 1768478400, category: 'sql', data: { query: 'x'.repeat(500) } }],
+    };
+
+    const text = formatEventDetails({ ...checkoutEvent, data }, unlimited);
+
+    expect(text).toContain('2026-01-15T12:00:00.000Z sql: {"query":"xxx');
+    expect(text).not.toContain('x'.repeat(300));
+  });
+
+  it('keeps the most recent breadcrumbs when trimming', () => {
+    const text = formatEventDetails(checkoutEvent, { maxChars: 1250, detail: 'normal' });
+
+    expect(text).toContain('Unknown SKU TEE-42');
+    expect(text).not.toContain('GET /api/cart/');
+    expect(text).toContain('… 2 earlier breadcrumb(s) omitted');
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { defaultFixtures, type Fixtures } from '../src/fixtures.js';
+import { sparkline, type EventFrequency } from '../src/frequency.js';
+import { CHECKOUT_API, CHECKOUT_ISSUE, connect, data, text, type Harness } from './helpers.js';
+
+let harness: Harness | undefined;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+async function frequency(
+  args: Record<string, unknown>,
+  fixtures?: Fixtures
+): Promise<EventFrequency> {
+  harness ??= await connect({}, fixtures);
+  return data<EventFrequency>(await harness.call('get_event_frequency', args));
+}
+
+/**
+ * The default fixtures plus `count` events of the checkout issue occurring now
+ */
+function burst(count: number): Fixtures {
+  const fixtures = defaultFixtures();
+  const [latest] = fixtures.events.filter((e) => e.issue === CHECKOUT_ISSUE).slice(-1);
+  const now = new Date().toISOString();
+  for (let i = 0; i < count; i++) {
+    const id = `9f8e7d6c-5b4a-4c3d-8e2f-${String(i).padStart(12, '0')}`;
+    fixtures.events.push({ ...latest, id, event_id: id.replace(/-/g, ''), timestamp: now });
+  }
+  return fixtures;
+}
+
+describe('get_event_frequency', () => {
+  it('counts the events of an issue within the window per bucket', async () => {
+    const result = await frequency({ issue_id: CHECKOUT_ISSUE, window: '48h' });
+
+    // The first checkout event (72h ago) is outside the window
+    expect(result).toMatchObject({ scope: 'issue', interval: 'hour', total: 2, spike: false });
+    expect(result.buckets).toHaveLength(48);
+    expect(result.sparkline).toHaveLength(48);
+    expect(Date.parse(result.window_end)).toBeGreaterThan(Date.now());
+    expect(result.truncated).toBe(false);
+  });
+
+  it('uses daily buckets', async () => {
+    const result = await frequency({ issue_id: CHECKOUT_ISSUE, interval: 'day', window: '7d' });
+
+    expect(result.buckets).toHaveLength(7);
+    expect(result.total).toBe(3);
+  });
+
+  it('flags a spike in the current bucket', async () => {
+    const result = await frequency({ issue_id: CHECKOUT_ISSUE, window: '48h' }, burst(6));
+
+    expect(result.latest).toBeGreaterThanOrEqual(6);
+    expect(result.spike).toBe(true);
+    expect(result.sparkline.endsWith('█')).toBe(true);
+  });
+
+  it('does not flag a handful of events as a spike', async () => {
+    const result = await frequency({ issue_id: CHECKOUT_ISSUE, window: '48h' }, burst(2));
+
+    expect(result.spike).toBe(false);
+  });
+
+  it('counts all issues of a project within the limits', async () => {
+    const all = await frequency({ project_id: CHECKOUT_API, window: '48h' });
+    const capped = await frequency({ project_id: CHECKOUT_API, window: '48h', max_issues: 1 });
+    const sampled = await frequency({ issue_id: CHECKOUT_ISSUE, max_events_per_issue: 1 });
+
+    expect(all).toMatchObject({ scope: 'project', total: 3, issues_counted: 2, truncated: false });
+    expect(capped).toMatchObject({ total: 2, issues_counted: 1, truncated: true });
+    expect(sampled).toMatchObject({ total: 1, truncated: true });
+  });
+
+  it('rejects windows that are too short and ambiguous scopes', async () => {
+    harness = await connect();
+
+    const short = await harness.call('get_event_frequency', {
+      issue_id: CHECKOUT_ISSUE,
+      window: '1h',
+    });
+    const both = await harness.call('get_event_frequency', {
+      issue_id: CHECKOUT_ISSUE,
+      project_id: CHECKOUT_API,
+    });
+
+    expect(text(short)).toContain('window must span between 2 and 500 hours');
+    expect(text(both)).toContain('give exactly one of issue_id and project_id');
+  });
+});
+
+describe('sparkline', () => {
+  it('scales counts to the largest one', () => {
+    expect(sparkline([0, 1, 2, 4])).toBe('▁▃▅█');
+    expect(sparkline([0, 0])).toBe('▁▁');
+  });
+});
@@ -0,0 +1,77 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AuditLog } from '../src/audit.js';
+import { loadConfig } from '../src/config.js';
+import { startFakeBugsink } from '../src/fake-bugsink.js';
+import type { Fixtures } from '../src/fixtures.js';
+import { InstanceRegistry } from '../src/instances.js';
+import { createServer } from '../src/server.js';
+
+export const TOKEN = 'test-token';
+
+/** Fixture IDs used across the specs */
+export const CHECKOUT_API = 2;
+export const CHECKOUT_ISSUE = 'a3c1f7e2-4b8d-4e51-9f0a-6d2b7c8e9f01';
+export const PAYMENTS_ISSUE = 'c7d2e8f3-1a9b-4c62-8e1f-0b3a4d5c6e02';
+export const CHECKOUT_EVENT = '2b3c4d5e-6f7a-4b2c-8d3e-4f5a6b7c8d13';
+
+export interface Harness {
+  /** Base URL of the fake Bugsink server, or null when the server answers from a cassette */
+  bugsinkUrl: string | null;
+  client: Client;
+  call: (name: string, args?: Record<string, unknown>) => Promise<CallToolResult>;
+  /** Send an authenticated request to the fake server, bypassing the MCP server */
+  bugsink: (method: string, path: string, body?: unknown) => Promise<unknown>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Connect an MCP client to a server configured from `env`, backed by a fresh
+ * fake Bugsink server (serving `fixtures`, or the default ones) unless `env`
+ * sets BUGSINK_URL (e.g. to replay a cassette)
+ */
+export async function connect(
+  env: Record<string, string> = {},
+  fixtures?: Fixtures
+): Promise<Harness> {
+  const fake = env.BUGSINK_URL ? null : await startFakeBugsink({ port: 0, token: TOKEN, fixtures });
+  const config = loadConfig([], { BUGSINK_URL: fake?.url ?? '', BUGSINK_TOKEN: TOKEN, ...env });
+  const server = createServer(new InstanceRegistry(config), config, new AuditLog(null));
+
+  const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: 'bugsink-mcp-tests', version: '1.0.0' });
+  await client.connect(clientTransport);
+
+  return {
+    bugsinkUrl: fake?.url ?? null,
+    client,
+    call: async (name, args = {}) =>
+      (await client.callTool({ name, arguments: args })) as CallToolResult,
+    bugsink: async (method, path, body) => {
+      const response = await fetch(`${fake?.url}/api/canonical/0${path}`, {
+        method,
+        headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      return response.json();
+    },
+    close: async () => {
+      await client.close();
+      await fake?.close();
+    },
+  };
+}
+
+/**
+ * The structured result of a tool call, failing on tool errors
+ */
+export function data<T = Record<string, unknown>>(result: CallToolResult): T {
+  if (result.isError) throw new Error(`Tool failed: ${text(result)}`);
+  return result.structuredContent as T;
+}
+
+export function text(result: CallToolResult): string {
+  return result.content.map((item) => (item.type === 'text' ? item.text : '')).join('\n');
+}
@@ -0,0 +1,119 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { get, request } from 'node:http';
+import { afterEach, describe, expect, it } from 'vitest';
+import { startHttpServer } from '../src/http.js';
+import { InstanceRegistry } from '../src/instances.js';
+
+const instances = new InstanceRegistry({ defaultInstance: 'default', instances: {} });
+const headers = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+const initialize = JSON.stringify({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' },
+  },
+});
+
+let close: (() => Promise<void>) | undefined;
+
+async function start(sessionIdleMs?: number): Promise<string> {
+  const server = await startHttpServer({
+    config: { host: '127.0.0.1', port: 0, apiKeys: [] },
+    instances,
+    createServer: () => new McpServer({ name: 'test', version: '1.0.0' }),
+    sessionIdleMs,
+  });
+  close = server.close;
+  return server.url;
+}
+
+/**
+ * GET `path` with the given Host header and return the status code
+ */
+function statusFor(url: string, path: string, host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(`${url}${path}`, { headers: { Host: host } }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on('error', reject).end();
+  });
+}
+
+afterEach(async () => {
+  await close?.();
+  close = undefined;
+});
+
+describe('HTTP transport', () => {
+  it('answers an oversized body with 413', async () => {
+    const url = await start();
+
+    const response = await fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers,
+      body: `"${'x'.repeat(5 * 1024 * 1024)}"`,
+    });
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.message).toMatch(/exceeds/);
+  });
+
+  it('closes sessions that stay idle', async () => {
+    const url = await start(50);
+    const opened = await fetch(`${url}/mcp`, { method: 'POST', headers, body: initialize });
+    const sessionId = opened.headers.get('mcp-session-id');
+    await opened.text();
+    expect(sessionId).toBeTruthy();
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const response = await fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'mcp-session-id': sessionId! },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('rejects requests addressed to a host other than loopback', async () => {
+    const url = await start();
+    const { port } = new URL(url);
+
+    // A GET without a session is a bad request, but one that got past the check
+    expect(await statusFor(url, '/mcp', `localhost:${port}`)).toBe(400);
+    expect(await statusFor(url, '/mcp', `[::1]:${port}`)).toBe(400);
+    expect(await statusFor(url, '/mcp', `evil.example.com:${port}`)).toBe(403);
+  });
+
+  it('keeps an SSE session open while its stream is', async () => {
+    const url = await start(50);
+    const stream = await new Promise<import('node:http').IncomingMessage>((resolve, reject) =>
+      get(`${url}/sse`, resolve).on('error', reject)
+    );
+    const endpoint = await new Promise<string>((resolve) => {
+      let received = '';
+      stream.on('data', (chunk: Buffer) => {
+        received += chunk.toString();
+        const match = /data: (\S+)/.exec(received);
+        if (match) resolve(match[1]);
+      });
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const response = await fetch(new URL(endpoint, url), {
+      method: 'POST',
+      headers,
+      body: initialize,
+    });
+    stream.destroy();
+
+    expect(response.status).toBe(202);
+  });
+});
@@ -0,0 +1,149 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { ConfigError, loadConfig } from '../src/config.js';
+import { startFakeBugsink } from '../src/fake-bugsink.js';
+import { defaultFixtures } from '../src/fixtures.js';
+import { connect, data, text, TOKEN, type Harness } from './helpers.js';
+
+let harness: Harness | undefined;
+const closers: (() => Promise<void>)[] = [];
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+  await Promise.all(closers.splice(0).map((close) => close()));
+});
+
+function configFile(content: string, name = 'config.yaml'): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'bugsink-instances-')), name);
+  writeFileSync(path, content);
+  return path;
+}
+
+/**
+ * Connect through a config file naming two fake servers: production and
+ * staging, whose storefront project is named differently
+ */
+async function connectTwoInstances(): Promise<Harness> {
+  const stagingFixtures = defaultFixtures();
+  stagingFixtures.projects[0].name = 'Storefront (staging)';
+  const production = await startFakeBugsink({ port: 0, token: TOKEN });
+  const staging = await startFakeBugsink({ port: 0, token: TOKEN, fixtures: stagingFixtures });
+  closers.push(production.close, staging.close);
+
+  const path = configFile(
+    [
+      'default: production',
+      'instances:',
+      '  staging:',
+      `    url: ${staging.url}`,
+      '    token_env: STAGING_TOKEN',
+      '  production:',
+      `    url: ${production.url}`,
+      `    token: ${TOKEN}`,
+    ].join('\n')
+  );
+  return connect({ BUGSINK_URL: production.url, BUGSINK_CONFIG: path, STAGING_TOKEN: TOKEN });
+}
+
+describe('instances', () => {
+  it('lists the configured instances, default first', async () => {
+    harness = await connectTwoInstances();
+
+    const { instances } = data<{ instances: { name: string; is_default: boolean }[] }>(
+      await harness.call('list_instances')
+    );
+
+    expect(instances).toMatchObject([
+      { name: 'production', is_default: true, connected: true },
+      { name: 'staging', is_default: false, connected: true },
+    ]);
+  });
+
+  it('routes calls to the named instance', async () => {
+    harness = await connectTwoInstances();
+
+    const names = async (instance?: string) =>
+      data<{ projects: { name: string }[] }>(
+        await harness!.call('list_projects', instance ? { instance } : {})
+      ).projects.map((project) => project.name);
+
+    expect(await names()).toContain('Storefront');
+    expect(await names('staging')).toContain('Storefront (staging)');
+    expect(await names('production')).not.toContain('Storefront (staging)');
+  });
+
+  it('rejects an unknown instance', async () => {
+    harness = await connectTwoInstances();
+
+    const result = await harness.call('list_projects', { instance: 'qa' });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('unknown instance "qa"; available: staging, production');
+  });
+});
+
+describe('config file', () => {
+  const instance = ['instances:', '  main:', '    url: http://127.0.0.1:1'];
+
+  it('reads JSON as well as YAML', () => {
+    const path = configFile(
+      JSON.stringify({ instances: { main: { url: 'http://127.0.0.1:1', token: 'secret' } } }),
+      'config.json'
+    );
+
+    const config = loadConfig(['--config', path], {});
+
+    expect(config.defaultInstance).toBe('main');
+    expect(config.instances.main).toMatchObject({
+      baseUrl: 'http://127.0.0.1:1',
+      apiToken: 'secret',
+    });
+  });
+
+  it('resolves relative directories against the config file', () => {
+    const path = configFile(
+      [...instance, '    token: secret', '    source_maps:', '      "3": ./dist'].join('\n')
+    );
+
+    const config = loadConfig(['--config', path], {});
+
+    expect(config.sourceMaps.main['3']).toBe(join(path, '..', 'dist'));
+  });
+
+  it('names what is wrong with an invalid file', () => {
+    const missingToken = configFile(instance.join('\n'));
+    const unsetTokenEnv = configFile([...instance, '    token_env: MAIN_TOKEN'].join('\n'));
+    const unknownDefault = configFile(['default: prod', ...instance, '    token: t'].join('\n'));
+
+    expect(() => loadConfig(['--config', missingToken], {})).toThrow(
+      /instances\.main: either token or token_env is required/
+    );
+    expect(() => loadConfig(['--config', unsetTokenEnv], {})).toThrow(
+      'instance "main" reads its token from MAIN_TOKEN, which is not set'
+    );
+    expect(() => loadConfig(['--config', unknownDefault], {})).toThrow(ConfigError);
+    expect(() => loadConfig(['--config', unknownDefault], {})).toThrow(
+      'default instance "prod" is not defined (available: main)'
+    );
+  });
+});
+
+describe('environment', () => {
+  const env = { BUGSINK_URL: 'http://127.0.0.1:1', BUGSINK_TOKEN: 'secret' };
+
+  it('requires a positive timeout and rate limits', () => {
+    expect(() => loadConfig([], { ...env, BUGSINK_TIMEOUT_MS: '0' })).toThrow(
+      'BUGSINK_TIMEOUT_MS must be a positive number, got "0"'
+    );
+    expect(() => loadConfig([], { ...env, BUGSINK_REQUESTS_PER_SECOND: '0' })).toThrow(ConfigError);
+    expect(() => loadConfig([], { ...env, BUGSINK_MAX_CONCURRENCY: '1.5' })).toThrow(
+      'BUGSINK_MAX_CONCURRENCY must be a positive integer, got "1.5"'
+    );
+    expect(loadConfig([], { ...env, BUGSINK_MAX_RETRIES: '0' }).instances.default).toMatchObject({
+      maxRetries: 0,
+    });
+  });
+});
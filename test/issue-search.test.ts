@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { SearchResult } from '../src/issue-search.js';
+import {
+  CHECKOUT_API,
+  CHECKOUT_ISSUE,
+  connect,
+  data,
+  PAYMENTS_ISSUE,
+  text,
+  type Harness,
+} from './helpers.js';
+
+const STOREFRONT_ISSUE = 'e1f4a9b5-6c2d-4e73-9a2b-1c4d5e6f7a03';
+
+let harness: Harness | undefined;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+async function search(args: Record<string, unknown>): Promise<SearchResult> {
+  harness ??= await connect();
+  return data<SearchResult>(await harness.call('search_issues', args));
+}
+
+const ids = (result: SearchResult) => result.hits.map((hit) => hit.issue.id);
+
+describe('search_issues', () => {
+  it('searches every project and ranks equal scores by last seen', async () => {
+    const result = await search({ query: 'error', fields: ['calculated_type'] });
+
+    expect(result).toMatchObject({ projects_searched: 2, scanned: 3, truncated: false });
+    expect(ids(result)).toEqual([CHECKOUT_ISSUE, STOREFRONT_ISSUE, PAYMENTS_ISSUE]);
+    expect(result.hits[0].project).toEqual({ id: CHECKOUT_API, name: 'Checkout API' });
+  });
+
+  it('ranks whole-field and exception type matches first', async () => {
+    const result = await search({ query: 'ConnectionResetError|checkout', regex: true });
+
+    // A whole exception type outweighs a partial one, however recent
+    expect(ids(result)).toEqual([PAYMENTS_ISSUE, CHECKOUT_ISSUE]);
+    expect(result.hits.map((hit) => hit.score)).toEqual([6, 3]);
+  });
+
+  it('adds up the fields that matched', async () => {
+    const result = await search({ query: 'order' });
+
+    expect(result.hits).toEqual([
+      expect.objectContaining({ matched: ['calculated_value', 'transaction'], score: 3 }),
+    ]);
+  });
+
+  it('applies the status filter', async () => {
+    const result = await search({ query: 'error', fields: ['calculated_type'], status: 'muted' });
+
+    expect(ids(result)).toEqual([PAYMENTS_ISSUE]);
+  });
+
+  it('reports truncated results and incomplete projects', async () => {
+    const result = await search({ query: 'e', max_results: 1, max_scan_per_project: 1 });
+
+    expect(result.hits).toHaveLength(1);
+    expect(result.truncated).toBe(true);
+    // The storefront has a single issue, so its scan is complete
+    expect(result.incomplete_projects).toEqual([CHECKOUT_API]);
+  });
+
+  it('rejects an invalid regular expression', async () => {
+    harness = await connect();
+
+    const result = await harness.call('search_issues', { query: '(', regex: true });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('Invalid regular expression');
+  });
+});
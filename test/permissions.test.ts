@@ -0,0 +1,56 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { ConfigError, loadConfig } from '../src/config.js';
+import { PermissionPolicy } from '../src/permissions.js';
+
+const env = { BUGSINK_URL: 'http://127.0.0.1:1', BUGSINK_TOKEN: 'token' };
+
+function configFile(content: string): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'bugsink-mcp-')), 'config.yaml');
+  writeFileSync(path, content);
+  return path;
+}
+
+describe('tool allow/deny lists', () => {
+  it('rejects unknown tool names in the environment', () => {
+    expect(() =>
+      loadConfig([], { ...env, BUGSINK_DENY_TOOLS: 'resolve_issue,delete_isue' })
+    ).toThrow(new ConfigError('BUGSINK_DENY_TOOLS names unknown tool(s): delete_isue'));
+    expect(() => loadConfig([], { ...env, BUGSINK_ALLOW_TOOLS: 'list_issue' })).toThrow(
+      ConfigError
+    );
+  });
+
+  it('rejects unknown tool names in the config file', () => {
+    const path = configFile(
+      [
+        'permissions:',
+        '  deny_tools: [update_projct]',
+        'instances:',
+        '  main:',
+        '    url: http://127.0.0.1:1',
+        '    token: token',
+      ].join('\n')
+    );
+
+    expect(() => loadConfig(['--config', path], {})).toThrow(
+      /permissions\.deny_tools\.0: unknown tool "update_projct"/
+    );
+  });
+
+  it('offers only the allowed tools, minus denied and mutating ones in read-only mode', () => {
+    const { permissions } = loadConfig(['--read-only'], {
+      ...env,
+      BUGSINK_ALLOW_TOOLS: 'list_issues,get_issue,resolve_issue',
+      BUGSINK_DENY_TOOLS: 'get_issue',
+    });
+    const policy = new PermissionPolicy(permissions);
+
+    expect(policy.toolEnabled('list_issues')).toBe(true);
+    expect(policy.toolEnabled('get_issue')).toBe(false);
+    expect(policy.toolEnabled('resolve_issue')).toBe(false);
+    expect(policy.toolEnabled('list_projects')).toBe(false);
+  });
+});
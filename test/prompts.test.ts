@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  CHECKOUT_API,
+  CHECKOUT_EVENT,
+  CHECKOUT_ISSUE,
+  connect,
+  PAYMENTS_ISSUE,
+  type Harness,
+} from './helpers.js';
+
+let harness: Harness | undefined;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+async function prompt(
+  name: string,
+  args: Record<string, string>,
+  env: Record<string, string> = {}
+): Promise<string> {
+  harness ??= await connect(env);
+  const { messages } = await harness.client.getPrompt({ name, arguments: args });
+  expect(messages).toHaveLength(1);
+  const [{ role, content }] = messages;
+  expect(role).toBe('user');
+  return content.type === 'text' ? content.text : '';
+}
+
+describe('prompts', () => {
+  it('offers the investigation workflows', async () => {
+    harness = await connect();
+
+    const { prompts } = await harness.client.listPrompts();
+
+    expect(prompts.map((p) => p.name).sort()).toEqual([
+      'investigate_event',
+      'release_health',
+      'triage_issue',
+      'weekly_error_review',
+    ]);
+  });
+
+  it('embeds the issue, its latest event and stacktrace for triage, redacted', async () => {
+    const text = await prompt('triage_issue', { issue_id: CHECKOUT_ISSUE });
+
+    expect(text).toMatch(/^Triage the following Bugsink issue\./);
+    expect(text).toContain('## Issue');
+    expect(text).toContain('Cannot build order');
+    expect(text).toContain(`## Latest event\n\nEvent ${CHECKOUT_EVENT}`);
+    expect(text).toContain('## Stacktrace');
+    expect(text).not.toContain('customer17@example.com');
+    expect(text).toMatch(/\d+ sensitive value\(s\) redacted\.$/);
+  });
+
+  it('redacts the issue header of a triage', async () => {
+    const text = await prompt(
+      'triage_issue',
+      { issue_id: PAYMENTS_ISSUE },
+      { BUGSINK_REDACT_KEYS: 'calculated_value' }
+    );
+
+    expect(text.split('## Latest event')[0]).not.toContain('Connection reset by peer');
+  });
+
+  it('embeds a single event for investigation', async () => {
+    const text = await prompt('investigate_event', { event_id: CHECKOUT_EVENT });
+
+    expect(text).toContain(`## Event\n\nEvent ${CHECKOUT_EVENT}`);
+    expect(text).toContain("Caused by: KeyError: 'TEE-42'");
+    expect(text).not.toContain('203.0.113.7');
+  });
+
+  it('splits the issues seen since a release into new and older ones', async () => {
+    const text = await prompt('release_health', { project_id: '1', version: 'storefront@2.4.0' });
+
+    expect(text).toContain('## Issues first seen since the release (1)');
+    expect(text).toContain('## Older issues still occurring since the release (0)\n\n(none)');
+    expect(text).toContain("Cannot read properties of undefined (reading 'price')");
+  });
+
+  it('rejects an unknown release', async () => {
+    harness = await connect();
+
+    await expect(
+      harness.client.getPrompt({
+        name: 'release_health',
+        arguments: { project_id: '1', version: 'storefront@9.9.9' },
+      })
+    ).rejects.toThrow(/Release "storefront@9\.9\.9" not found in project 1/);
+  });
+
+  it('reviews the last week of a project', async () => {
+    const text = await prompt('weekly_error_review', { project_id: String(CHECKOUT_API) });
+
+    expect(text).toContain('## New issues this week (2)');
+    expect(text).toContain('## Releases this week (1)\n\nRelease: api@1.8.0');
+  });
+
+  it('checks the project ID and the allowed projects', async () => {
+    harness = await connect({ BUGSINK_ALLOWED_PROJECTS: '1' });
+
+    await expect(
+      harness.client.getPrompt({ name: 'weekly_error_review', arguments: { project_id: 'two' } })
+    ).rejects.toThrow(/project_id must be a number/);
+    await expect(
+      harness.client.getPrompt({ name: 'triage_issue', arguments: { issue_id: CHECKOUT_ISSUE } })
+    ).rejects.toThrow(/project 2/i);
+  });
+});
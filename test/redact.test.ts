@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Redactor } from '../src/redact.js';
+
+const redactor = new Redactor({ enabled: true, keys: [], patterns: [] });
+
+describe('Redactor', () => {
+  it('masks every item of a two-item list', () => {
+    const { value, redacted } = redactor.redact({
+      recipients: ['alice@example.com', 'bob@example.com'],
+      logentry: { params: ['alice@example.com', 3] },
+    });
+
+    expect(value.recipients).toEqual(['[REDACTED:email]', '[REDACTED:email]']);
+    expect(value.logentry.params).toEqual(['[REDACTED:email]', 3]);
+    expect(redacted).toBe(3);
+  });
+
+  it('checks [name, value] header pairs against the header name', () => {
+    const { value } = redactor.redact({
+      headers: [
+        ['Authorization', 'Bearer abcdefghijkl'],
+        ['X-Forwarded-For', '203.0.113.7'],
+        ['Accept', 'text/html'],
+      ],
+    });
+
+    expect(value.headers).toEqual([
+      ['Authorization', '[REDACTED]'],
+      ['X-Forwarded-For', '[REDACTED:ip]'],
+      ['Accept', 'text/html'],
+    ]);
+  });
+
+  it('keeps four-part versions that look like IPv4 addresses', () => {
+    const { value, redacted } = redactor.redact({
+      tags: { browser: 'Chrome 120.0.0.0', release: 'app@1.2.3.4' },
+      contexts: { browser: { name: 'Chrome', version: '120.0.0.0' } },
+      headers: { 'User-Agent': 'Mozilla/5.0 Chrome/120.0.0.0 Safari/537.36' },
+      message: 'Deployed app@1.2.3.4',
+    });
+
+    expect(value).toEqual({
+      tags: { browser: 'Chrome 120.0.0.0', release: 'app@1.2.3.4' },
+      contexts: { browser: { name: 'Chrome', version: '120.0.0.0' } },
+      headers: { 'User-Agent': 'Mozilla/5.0 Chrome/120.0.0.0 Safari/537.36' },
+      message: 'Deployed app@1.2.3.4',
+    });
+    expect(redacted).toBe(0);
+  });
+
+  it('still masks IPv4 addresses elsewhere', () => {
+    const { value } = redactor.redact({
+      user: { ip_address: '203.0.113.7' },
+      message: 'Connection to 10.0.0.12 refused',
+      url: 'http://192.168.1.20/health',
+    });
+
+    expect(value.user.ip_address).toBe('[REDACTED:ip]');
+    expect(value.message).toBe('Connection to [REDACTED:ip] refused');
+    expect(value.url).toBe('http://[REDACTED:ip]/health');
+  });
+});
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { ReleaseReport } from '../src/release-report.js';
+import { CHECKOUT_API, CHECKOUT_ISSUE, connect, data, type Harness } from './helpers.js';
+
+let harness: Harness | undefined;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+async function report(args: Record<string, unknown>): Promise<ReleaseReport> {
+  harness ??= await connect();
+  return data<ReleaseReport>(await harness.call('release_report', args));
+}
+
+describe('release_report', () => {
+  it('compares a release with the previous one', async () => {
+    const result = await report({ project_id: 1, version: 'storefront@2.4.0' });
+
+    expect(result.compare_to?.version).toBe('storefront@2.3.0');
+    expect(result.new_issues.map((issue) => issue.project)).toEqual([1]);
+    expect(result.volume).toMatchObject({ before: 0, after: 2, truncated: false });
+    expect(result.truncated).toBe(false);
+  });
+
+  it('reports a truncated scan only when issues were left unscanned', async () => {
+    const args = { project_id: CHECKOUT_API, version: 'api@1.8.0' };
+
+    expect(await report({ ...args, max_scan: 1 })).toMatchObject({ scanned: 1, truncated: true });
+    // The listing ends exactly at max_scan
+    expect(await report({ ...args, max_scan: 2 })).toMatchObject({ scanned: 2, truncated: false });
+  });
+
+  it('counts at most max_events_per_issue events of an issue', async () => {
+    const args = { project_id: CHECKOUT_API, version: 'api@1.8.0' };
+
+    const capped = await report({ ...args, max_events_per_issue: 2 });
+    const checkout = await report({ ...args, max_events_per_issue: 3 });
+
+    expect(capped.volume.truncated).toBe(true);
+    expect(capped.volume.before + capped.volume.after).toBe(3);
+    expect(checkout.volume.truncated).toBe(false);
+    expect(checkout.volume.before + checkout.volume.after).toBe(4);
+    expect(checkout.new_issues.map((issue) => issue.id)).toContain(CHECKOUT_ISSUE);
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  CHECKOUT_API,
+  CHECKOUT_EVENT,
+  CHECKOUT_ISSUE,
+  connect,
+  PAYMENTS_ISSUE,
+  type Harness,
+} from './helpers.js';
+
+const STOREFRONT_RELEASE = 'e2f3a4b5-c6d7-4e8f-9a0b-1c2d3e4f5a22';
+
+let harness: Harness | undefined;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+async function read(uri: string, env: Record<string, string> = {}) {
+  harness ??= await connect(env);
+  const { contents } = await harness.client.readResource({ uri });
+  const [content] = contents as { uri: string; mimeType: string; text: string }[];
+  return content;
+}
+
+describe('resources', () => {
+  it('lists the projects and their most recently seen issues', async () => {
+    harness = await connect();
+
+    const { resources } = await harness.client.listResources();
+    const uris = resources.map((resource) => resource.uri);
+
+    expect(uris).toEqual(
+      expect.arrayContaining([
+        'bugsink://projects/1',
+        `bugsink://projects/${CHECKOUT_API}`,
+        `bugsink://issues/${CHECKOUT_ISSUE}`,
+        `bugsink://issues/${PAYMENTS_ISSUE}`,
+      ])
+    );
+    expect(resources.find((r) => r.uri === `bugsink://issues/${CHECKOUT_ISSUE}`)).toMatchObject({
+      name: '[CheckoutError] Cannot build order',
+      description: expect.stringMatching(/^Checkout API: last seen /),
+    });
+  });
+
+  it('lists only the allowed projects', async () => {
+    harness = await connect({ BUGSINK_ALLOWED_PROJECTS: '1' });
+
+    const { resources } = await harness.client.listResources();
+
+    expect(resources.map((resource) => resource.uri)).not.toContain(
+      `bugsink://issues/${CHECKOUT_ISSUE}`
+    );
+    expect(resources.map((resource) => resource.uri)).toContain('bugsink://projects/1');
+  });
+
+  it('serves an issue as Markdown, or as JSON with .json', async () => {
+    const markdown = await read(`bugsink://issues/${CHECKOUT_ISSUE}`);
+    const json = await read(`bugsink://issues/${CHECKOUT_ISSUE}.json`);
+
+    expect(markdown.mimeType).toBe('text/markdown');
+    expect(markdown.text).toMatch(new RegExp(`^# Issue ${CHECKOUT_ISSUE}\\n`));
+    expect(markdown.text).toContain('Cannot build order');
+    expect(json.mimeType).toBe('application/json');
+    expect(JSON.parse(json.text)).toMatchObject({ id: CHECKOUT_ISSUE, project: CHECKOUT_API });
+  });
+
+  it('redacts events and their stacktraces', async () => {
+    const event = await read(`bugsink://events/${CHECKOUT_EVENT}`);
+    const json = await read(`bugsink://events/${CHECKOUT_EVENT}.json`);
+    const stacktrace = await read(`bugsink://events/${CHECKOUT_EVENT}/stacktrace`);
+
+    expect(event.text).not.toContain('customer17@example.com');
+    expect(event.text).toMatch(/\d+ sensitive value\(s\) redacted\.\n$/);
+    expect(json.text).not.toContain('customer17@example.com');
+    expect(stacktrace.mimeType).toBe('text/markdown');
+    expect(stacktrace.text).toContain('build_order');
+  });
+
+  it('serves releases', async () => {
+    const release = await read(`bugsink://releases/${STOREFRONT_RELEASE}`);
+
+    expect(release.text).toMatch(/^# Release storefront@2\.4\.0\n/);
+  });
+
+  it('refuses objects of projects outside the allowed ones', async () => {
+    harness = await connect({ BUGSINK_ALLOWED_PROJECTS: '1' });
+
+    await expect(
+      harness.client.readResource({ uri: `bugsink://issues/${CHECKOUT_ISSUE}` })
+    ).rejects.toThrow(/project 2/i);
+    await expect(
+      harness.client.readResource({ uri: `bugsink://events/${CHECKOUT_EVENT}/stacktrace` })
+    ).rejects.toThrow(/project 2/i);
+  });
+});
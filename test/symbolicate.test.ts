@@ -0,0 +1,104 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SourceMapGenerator } from 'source-map-js';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Event } from '../src/bugsink-client.js';
+import type { SymbolicationReport } from '../src/symbolicate.js';
+import { connect, data, text, type Harness } from './helpers.js';
+
+const STOREFRONT = 1;
+const STOREFRONT_EVENT = '5e6f7a8b-9c0d-4e5f-9a6b-7c8d9e0f1a16';
+
+const SOURCE = [
+  "import { prices } from './prices';",
+  '',
+  'export function addToCart(slug: string) {',
+  '  const total = prices[slug].price;',
+  '  return total;',
+  '}',
+].join('\n');
+
+type SymbolicatedEvent = Event & { symbolication: SymbolicationReport };
+
+let harness: Harness | undefined;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+/**
+ * A build directory with a source map for the storefront's `main.9c1e.js`,
+ * mapping its minified frame (1:10423) to `addToCart` in src/cart.ts
+ */
+function buildDirectory(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'bugsink-maps-'));
+  const generator = new SourceMapGenerator({ file: 'main.9c1e.js' });
+  generator.addMapping({
+    generated: { line: 1, column: 10422 },
+    original: { line: 4, column: 16 },
+    source: 'src/cart.ts',
+    name: 'addToCart',
+  });
+  generator.setSourceContent('src/cart.ts', SOURCE);
+  mkdirSync(join(dir, 'static', 'js'), { recursive: true });
+  writeFileSync(join(dir, 'static', 'js', 'main.9c1e.js.map'), generator.toString());
+  return dir;
+}
+
+describe('symbolication', () => {
+  it('maps minified frames to the original source and reports the rest', async () => {
+    harness = await connect({ BUGSINK_SOURCE_MAPS: `${STOREFRONT}=${buildDirectory()}` });
+
+    const event = data<SymbolicatedEvent>(
+      await harness.call('get_event', { event_id: STOREFRONT_EVENT, detail: 'full' })
+    );
+    const [vendor, main] = event.data?.exception?.values?.[0].stacktrace?.frames ?? [];
+
+    expect(main).toMatchObject({
+      filename: 'src/cart.ts',
+      function: 'addToCart',
+      lineno: 4,
+      colno: 17,
+      context_line: '  const total = prices[slug].price;',
+      pre_context: SOURCE.split('\n').slice(0, 3),
+      post_context: SOURCE.split('\n').slice(4),
+    });
+    // The vendor frame has no column, so it stays as it is
+    expect(vendor.filename).toBe('https://shop.example.com/static/js/vendor.4f2a.js');
+    expect(event.symbolication).toMatchObject({
+      frames: 2,
+      mapped: 1,
+      unmapped: [{ filename: vendor.filename, reason: 'no column number' }],
+    });
+  });
+
+  it('explains frames without a source map', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bugsink-maps-'));
+    harness = await connect({ BUGSINK_SOURCE_MAPS: `${STOREFRONT}=${dir}` });
+
+    const event = data<SymbolicatedEvent>(
+      await harness.call('get_event', { event_id: STOREFRONT_EVENT })
+    );
+
+    expect(event.symbolication.mapped).toBe(0);
+    expect(event.symbolication.unmapped).toContainEqual(
+      expect.objectContaining({ reason: 'no source map for main.9c1e.js' })
+    );
+  });
+
+  it('leaves events alone unless requested or configured', async () => {
+    harness = await connect();
+
+    const plain = data(await harness.call('get_event', { event_id: STOREFRONT_EVENT }));
+    const requested = await harness.call('get_event', {
+      event_id: STOREFRONT_EVENT,
+      symbolicate: true,
+    });
+
+    expect(plain.symbolication).toBeUndefined();
+    expect(requested.isError).toBe(true);
+    expect(text(requested)).toContain('no source-map directory is configured for project 1');
+  });
+});
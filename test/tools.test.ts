@@ -0,0 +1,399 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { AuditEntry, UndoPayload } from '../src/audit.js';
+import type { Event, Issue, Project } from '../src/bugsink-client.js';
+import {
+  CHECKOUT_API,
+  CHECKOUT_EVENT,
+  CHECKOUT_ISSUE,
+  connect,
+  PAYMENTS_ISSUE,
+  data,
+  text,
+  type Harness,
+} from './helpers.js';
+
+type IssuePage = { issues: Issue[]; next_cursor: string | null };
+type AuditLogResult = { entries: (AuditEntry & { undo?: UndoPayload })[] };
+
+let harness: Harness | undefined;
+
+async function start(env: Record<string, string> = {}): Promise<Harness> {
+  harness = await connect(env);
+  return harness;
+}
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+describe('pagination', () => {
+  it('continues from the returned cursor', async () => {
+    const { call } = await start();
+
+    const first = data<IssuePage>(
+      await call('list_issues', { project_id: CHECKOUT_API, limit: 1 })
+    );
+    expect(first.issues).toHaveLength(1);
+    expect(first.next_cursor).toEqual(expect.any(String));
+
+    const second = data<IssuePage>(
+      await call('list_issues', { project_id: CHECKOUT_API, limit: 1, cursor: first.next_cursor })
+    );
+    expect(second.issues).toHaveLength(1);
+    expect(second.issues[0].id).not.toBe(first.issues[0].id);
+    expect(second.next_cursor).toBeNull();
+  });
+
+  it('follows every page with all_pages', async () => {
+    const { call } = await start();
+
+    const result = await call('list_issues', {
+      project_id: CHECKOUT_API,
+      limit: 1,
+      all_pages: true,
+    });
+
+    expect(data(result).issues).toHaveLength(2);
+    expect(data(result).next_cursor).toBeNull();
+    expect(text(result)).not.toContain('To continue');
+  });
+
+  it('stops at max_results and hands back the cursor', async () => {
+    const { call } = await start();
+
+    const result = await call('list_issues', {
+      project_id: CHECKOUT_API,
+      limit: 1,
+      all_pages: true,
+      max_results: 1,
+    });
+
+    expect(data(result).issues).toHaveLength(1);
+    expect(text(result)).toContain(`cursor: "${data(result).next_cursor}"`);
+  });
+
+  it('rejects a max_results that is not a positive integer', async () => {
+    const { call } = await start();
+
+    for (const max_results of [0, -1, 1.5]) {
+      const result = await call('list_issues', { project_id: CHECKOUT_API, max_results });
+      expect(result.isError).toBe(true);
+      expect(text(result)).toContain('max_results');
+    }
+  });
+});
+
+describe('response cache', () => {
+  it('serves repeated reads from the cache', async () => {
+    const { call } = await start();
+
+    await call('get_issue', { issue_id: CHECKOUT_ISSUE });
+    await call('get_issue', { issue_id: CHECKOUT_ISSUE });
+
+    const issues = data<{ resources: { resource: string }[] }>(
+      await call('get_cache_stats')
+    ).resources.find((r) => r.resource === 'issues');
+    expect(issues).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('drops cached issues and listings after a state change', async () => {
+    const { call } = await start();
+    expect(data(await call('get_issue', { issue_id: CHECKOUT_ISSUE })).is_resolved).toBe(false);
+    const listed = data(
+      await call('list_issues', { project_id: CHECKOUT_API, status: 'resolved' })
+    );
+    expect(listed.issues).toHaveLength(0);
+
+    data(await call('resolve_issue', { issue_id: CHECKOUT_ISSUE }));
+
+    expect(data(await call('get_issue', { issue_id: CHECKOUT_ISSUE })).is_resolved).toBe(true);
+    const relisted = data<IssuePage>(
+      await call('list_issues', { project_id: CHECKOUT_API, status: 'resolved' })
+    );
+    expect(relisted.issues.map((issue) => issue.id)).toEqual([CHECKOUT_ISSUE]);
+  });
+
+  it('drops a cached project after updating it', async () => {
+    const { call } = await start();
+    await call('get_project', { project_id: CHECKOUT_API });
+
+    await call('update_project', { project_id: CHECKOUT_API, name: 'Checkout' });
+
+    expect(data(await call('get_project', { project_id: CHECKOUT_API })).name).toBe('Checkout');
+  });
+});
+
+describe('permission policy', () => {
+  it('does not offer mutating tools in read-only mode', async () => {
+    const { client } = await start({ BUGSINK_READ_ONLY: 'true' });
+
+    const names = (await client.listTools()).tools.map((tool) => tool.name);
+
+    expect(names).toContain('get_issue');
+    expect(names).not.toContain('resolve_issue');
+    expect(names).not.toContain('bulk_update_issues');
+  });
+
+  it('does not offer denied tools', async () => {
+    const { client } = await start({ BUGSINK_DENY_TOOLS: 'mute_issue,get_event' });
+
+    const names = (await client.listTools()).tools.map((tool) => tool.name);
+
+    expect(names).not.toContain('mute_issue');
+    expect(names).not.toContain('get_event');
+    expect(names).toContain('unmute_issue');
+  });
+
+  it('denies changes to read-only projects and records the denial', async () => {
+    const { call } = await start({ BUGSINK_READ_ONLY_PROJECTS: String(CHECKOUT_API) });
+
+    const result = await call('resolve_issue', { issue_id: CHECKOUT_ISSUE });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain(`project ${CHECKOUT_API} is read-only`);
+    expect(data(await call('get_issue', { issue_id: CHECKOUT_ISSUE })).is_resolved).toBe(false);
+    const [entry] = data<AuditLogResult>(await call('get_audit_log')).entries;
+    expect(entry).toMatchObject({ tool: 'resolve_issue', outcome: 'denied', after: null });
+  });
+
+  it('hides projects outside the allowed ones', async () => {
+    const { call } = await start({ BUGSINK_ALLOWED_PROJECTS: '1' });
+
+    const { projects } = data<{ projects: Project[] }>(await call('list_projects'));
+    const denied = await call('get_issue', { issue_id: CHECKOUT_ISSUE });
+
+    expect(projects.map((project) => project.id)).toEqual([1]);
+    expect(denied.isError).toBe(true);
+    expect(text(denied)).toContain('Denied by policy');
+  });
+});
+
+describe('bulk_update_issues', () => {
+  const mute = { project_id: CHECKOUT_API, action: 'mute', status: 'unresolved' };
+
+  it('previews the change without applying it', async () => {
+    const { call } = await start();
+
+    const preview = data<{ issues: Issue[] }>(await call('bulk_update_issues', mute));
+
+    expect(preview).toMatchObject({ dry_run: true, stale_token: false, results: [] });
+    expect(preview.issues.map((issue) => issue.id)).toEqual([CHECKOUT_ISSUE]);
+    expect(data(await call('get_issue', { issue_id: CHECKOUT_ISSUE })).is_muted).toBe(false);
+  });
+
+  it('applies the change with the confirmation token from the preview', async () => {
+    const { call } = await start();
+    const { confirmation_token } = data(await call('bulk_update_issues', mute));
+
+    const applied = data(await call('bulk_update_issues', { ...mute, confirmation_token }));
+
+    expect(applied).toMatchObject({ dry_run: false, confirmation_token: null });
+    expect(applied.results).toMatchObject([{ issue_id: CHECKOUT_ISSUE, ok: true }]);
+    expect(data(await call('get_issue', { issue_id: CHECKOUT_ISSUE })).is_muted).toBe(true);
+  });
+
+  it('refuses a token whose selection has changed since the preview', async () => {
+    const { call } = await start();
+    const preview = data(await call('bulk_update_issues', mute));
+    await call('unmute_issue', { issue_id: PAYMENTS_ISSUE });
+
+    const result = data(
+      await call('bulk_update_issues', { ...mute, confirmation_token: preview.confirmation_token })
+    );
+
+    expect(result).toMatchObject({ dry_run: true, stale_token: true, results: [] });
+    expect(result.issues).toHaveLength(2);
+    expect(result.confirmation_token).not.toBe(preview.confirmation_token);
+    expect(data(await call('get_issue', { issue_id: CHECKOUT_ISSUE })).is_muted).toBe(false);
+  });
+});
+
+describe('redaction', () => {
+  it('masks personal data and secrets in events', async () => {
+    const { call } = await start();
+
+    const result = await call('get_event', { event_id: CHECKOUT_EVENT, detail: 'full' });
+    const event = data<Event & { redacted: number }>(result);
+    const serialized = JSON.stringify(result);
+
+    expect(event.redacted).toBeGreaterThan(0);
+    expect(serialized).not.toContain('customer17@example.com');
+    expect(serialized).not.toContain('203.0.113.7');
+    expect(serialized).not.toContain('sessionid=fixture');
+    // Versions look like IP addresses but are kept
+    expect(event.data?.release).toBe('api@1.8.0');
+  });
+
+  it('masks issue messages', async () => {
+    const { call } = await start({ BUGSINK_REDACT_KEYS: 'calculated_value' });
+
+    const results = await Promise.all([
+      call('get_issue', { issue_id: PAYMENTS_ISSUE }),
+      call('list_issues', { project_id: CHECKOUT_API }),
+      call('search_issues', { query: 'reset' }),
+    ]);
+
+    for (const result of results) {
+      expect(data(result).redacted).toBeGreaterThan(0);
+      expect(JSON.stringify(result)).not.toContain('Connection reset by peer');
+      expect(text(result)).toContain('sensitive value(s) redacted');
+    }
+  });
+
+  it('returns data unmasked when redaction is off', async () => {
+    const { call } = await start({ BUGSINK_REDACT: 'off' });
+
+    const result = await call('get_event', { event_id: CHECKOUT_EVENT, detail: 'full' });
+
+    expect(JSON.stringify(result)).toContain('customer17@example.com');
+  });
+});
+
+describe('audit log', () => {
+  it('records the state before and after a change, with an undo payload', async () => {
+    const { call } = await start();
+
+    data(await call('update_project', { project_id: CHECKOUT_API, name: 'Checkout' }));
+
+    const [entry] = data<AuditLogResult>(await call('get_audit_log', { undo: true })).entries;
+    expect(entry).toMatchObject({
+      tool: 'update_project',
+      outcome: 'success',
+      project_id: CHECKOUT_API,
+      before: { name: 'Checkout API' },
+      after: { name: 'Checkout' },
+      undo: {
+        tool: 'update_project',
+        arguments: { project_id: CHECKOUT_API, name: 'Checkout API' },
+      },
+    });
+  });
+
+  it('reads the state before a change past the response cache', async () => {
+    const { call, bugsink } = await start();
+    await call('get_project', { project_id: CHECKOUT_API });
+    // Renamed by someone else while the old name is cached
+    await bugsink('PATCH', `/projects/${CHECKOUT_API}/`, { name: 'Payments API' });
+
+    await call('update_project', { project_id: CHECKOUT_API, name: 'Checkout' });
+
+    const [entry] = data<AuditLogResult>(await call('get_audit_log', { undo: true })).entries;
+    expect(entry.before).toMatchObject({ name: 'Payments API' });
+    expect(entry.undo?.arguments).toEqual({
+      project_id: CHECKOUT_API,
+      name: 'Payments API',
+      instance: 'default',
+    });
+  });
+
+  it('records the issue state before a state change', async () => {
+    const { call } = await start();
+
+    await call('mute_issue', { issue_id: CHECKOUT_ISSUE });
+
+    const [entry] = data<AuditLogResult>(await call('get_audit_log')).entries;
+    expect(entry).toMatchObject({
+      tool: 'mute_issue',
+      project_id: CHECKOUT_API,
+      before: { id: CHECKOUT_ISSUE, is_muted: false },
+      after: { id: CHECKOUT_ISSUE, is_muted: true },
+    });
+  });
+});
+
+describe('get_stacktrace', () => {
+  it('renders the requested format', async () => {
+    const { call } = await start();
+    const args = { event_id: CHECKOUT_EVENT };
+
+    const plain = text(await call('get_stacktrace', { ...args, format: 'text' }));
+    const markdown = text(await call('get_stacktrace', { ...args, format: 'markdown' }));
+    const json = JSON.parse(text(await call('get_stacktrace', { ...args, format: 'json' })));
+
+    expect(plain).toMatch(/^## CheckoutError: Cannot build order/);
+    expect(markdown).toBe(`# Stacktrace of event ${CHECKOUT_EVENT}\n\n${plain}`);
+    expect(json.stacktrace).toBe(plain);
+  });
+});
+
+describe('output budget', () => {
+  it('keeps the text within max_chars, notes included', async () => {
+    const { call } = await start();
+    const calls: [string, Record<string, unknown>][] = [
+      ['get_event', { event_id: CHECKOUT_EVENT }],
+      ['get_event', { event_id: CHECKOUT_EVENT, section: 'breadcrumbs' }],
+      ['list_events', { issue_id: CHECKOUT_ISSUE }],
+      ['list_issues', { project_id: CHECKOUT_API }],
+      ['get_stacktrace', { event_id: CHECKOUT_EVENT }],
+      ['get_stacktrace', { event_id: CHECKOUT_EVENT, format: 'markdown' }],
+    ];
+
+    for (const [name, args] of calls) {
+      for (const max_chars of [200, 500, 900]) {
+        const result = text(await call(name, { ...args, max_chars }));
+        expect(result.length, `${name} at ${max_chars}`).toBeLessThanOrEqual(max_chars);
+      }
+    }
+  });
+
+  it('keeps the redaction note when the text is trimmed', async () => {
+    const { call } = await start();
+
+    const result = text(await call('list_events', { issue_id: CHECKOUT_ISSUE, max_chars: 900 }));
+
+    expect(result).toMatch(/more event\(s\) omitted to stay within max_chars \(900\)/);
+    expect(result).toMatch(/\d+ sensitive value\(s\) redacted\.$/);
+  });
+
+  it('trims JSON and Markdown output to max_chars as well', async () => {
+    const { call } = await start();
+    const calls: [string, Record<string, unknown>][] = [
+      ['get_event', { event_id: CHECKOUT_EVENT }],
+      ['list_events', { issue_id: CHECKOUT_ISSUE }],
+      ['list_issues', { project_id: CHECKOUT_API }],
+      ['get_stacktrace', { event_id: CHECKOUT_EVENT }],
+    ];
+
+    for (const [name, args] of calls) {
+      for (const format of ['json', 'markdown']) {
+        const result = text(await call(name, { ...args, format, max_chars: 2500 }));
+        expect(result.length, `${name} as ${format}`).toBeLessThanOrEqual(2500);
+      }
+    }
+  });
+
+  it('leaves event sections out of structured output with a note', async () => {
+    const { call } = await start();
+
+    const full = data(await call('get_event', { event_id: CHECKOUT_EVENT, format: 'json' }));
+    const trimmed = data<Event & { omitted: string }>(
+      await call('get_event', { event_id: CHECKOUT_EVENT, format: 'json', max_chars: 2500 })
+    );
+
+    expect(full).not.toHaveProperty('omitted');
+    expect(trimmed.omitted).toMatch(/omitted to stay within max_chars \(2500\)/);
+    expect(trimmed.omitted).toContain("'extra'");
+    expect(trimmed.data).not.toHaveProperty('extra');
+    expect(trimmed.data?.exception).toEqual(expect.anything());
+  });
+
+  it('applies the detail level to structured output', async () => {
+    const { call } = await start();
+
+    const brief = data(await call('get_event', { event_id: CHECKOUT_EVENT, detail: 'brief' }));
+
+    expect(brief.omitted).toContain("at detail 'brief'");
+    expect(brief.data).not.toHaveProperty('breadcrumbs');
+  });
+
+  it('returns only the listed items as structuredContent', async () => {
+    const { call } = await start();
+
+    const result = await call('list_events', { issue_id: CHECKOUT_ISSUE, max_chars: 900 });
+    const shown = text(result).split('\n---\n').length;
+
+    expect(data(result).events).toHaveLength(shown);
+    expect(data(result).omitted).toMatch(/more event\(s\) omitted/);
+  });
+});
@@ -0,0 +1,91 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Interaction } from '../src/cassette.js';
+import { loadConfig } from '../src/config.js';
+import { startFakeBugsink } from '../src/fake-bugsink.js';
+import { InstanceRegistry } from '../src/instances.js';
+import { IssueWatcher } from '../src/watch.js';
+import { CHECKOUT_API, PAYMENTS_ISSUE, TOKEN } from './helpers.js';
+
+let closeFake: (() => Promise<void>) | undefined;
+
+afterEach(async () => {
+  await closeFake?.();
+  closeFake = undefined;
+});
+
+function watcher(env: Record<string, string>): IssueWatcher {
+  const config = loadConfig([], {
+    BUGSINK_TOKEN: TOKEN,
+    BUGSINK_WATCH_PROJECTS: String(CHECKOUT_API),
+    ...env,
+  });
+  return new IssueWatcher(new InstanceRegistry(config), config.watch);
+}
+
+async function unmute(url: string, issueId: string): Promise<void> {
+  await fetch(`${url}/api/canonical/0/issues/${issueId}/`, {
+    method: 'PATCH',
+    headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ is_muted: false }),
+  });
+}
+
+const visible = () => true;
+
+describe('IssueWatcher', () => {
+  it('takes a baseline first and reports issues unmuted since', async () => {
+    const fake = await startFakeBugsink({ port: 0, token: TOKEN });
+    closeFake = fake.close;
+    const watch = watcher({ BUGSINK_URL: fake.url });
+
+    expect(await watch.poll()).toEqual([]);
+    await unmute(fake.url, PAYMENTS_ISSUE);
+    const changes = await watch.poll();
+
+    expect(changes).toMatchObject([
+      { kind: 'unmuted', project_id: CHECKOUT_API, issue: { id: PAYMENTS_ISSUE } },
+    ]);
+    expect(watch.changesSince('0', 10, visible).changes).toEqual(changes);
+    expect(await watch.poll()).toEqual([]);
+  });
+
+  it('stops watching a muted issue that was deleted', async () => {
+    // Record a baseline and a poll after the issue left the muted list...
+    const dir = mkdtempSync(join(tmpdir(), 'bugsink-watch-'));
+    const cassette = { BUGSINK_CASSETTE_MODE: 'record', BUGSINK_CASSETTE_DIR: dir };
+    const fake = await startFakeBugsink({ port: 0, token: TOKEN });
+    closeFake = fake.close;
+    const recording = watcher({ BUGSINK_URL: fake.url, ...cassette });
+    await recording.poll();
+    await unmute(fake.url, PAYMENTS_ISSUE);
+    await recording.poll();
+
+    // ...then replay it with the issue gone
+    const file = join(dir, 'default.jsonl');
+    const interactions = readFileSync(file, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as Interaction)
+      .map((interaction) =>
+        interaction.request.path.endsWith(`/issues/${PAYMENTS_ISSUE}/`)
+          ? { ...interaction, response: { ...interaction.response, status: 404, body: '{}' } }
+          : interaction
+      );
+    writeFileSync(file, interactions.map((i) => `${JSON.stringify(i)}\n`).join(''));
+    const watch = watcher({
+      BUGSINK_URL: 'http://bugsink.invalid',
+      ...cassette,
+      BUGSINK_CASSETTE_MODE: 'replay',
+    });
+
+    await watch.poll();
+    expect(await watch.poll()).toEqual([]);
+    await watch.poll();
+
+    const [watched] = watch.changesSince(undefined, 10, visible).watching;
+    expect(watched).toMatchObject({ project_id: CHECKOUT_API, error: null });
+  });
+});
@@ -0,0 +1,98 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { localPath, type LocalFrame } from '../src/workspace.js';
+import { CHECKOUT_API, CHECKOUT_EVENT, connect, data, text, type Harness } from './helpers.js';
+
+let harness: Harness | undefined;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+const filler = (count: number) => Array.from({ length: count }, (_, i) => `# line ${i + 1}`);
+
+/**
+ * A checkout of the checkout API: views.py as captured in the fixture events,
+ * orders.py with two lines inserted above the failing line since
+ */
+function checkout(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'bugsink-workspace-'));
+  mkdirSync(join(dir, 'checkout'));
+  const views = [
+    ...filler(45),
+    '    cart = Cart.for_user(request.user)',
+    '    try:',
+    '        order = build_order(cart)',
+    '    except KeyError as error:',
+    '        raise CheckoutError("Cannot build order") from error',
+  ];
+  const orders = [
+    ...filler(21),
+    'def build_order(cart):',
+    '    lines = []',
+    '    prices = {line.sku: PRICES[line.sku] for line in cart.lines}',
+    '    return Order(cart, prices)',
+  ];
+  writeFileSync(join(dir, 'checkout', 'views.py'), `${views.join('\n')}\n`);
+  writeFileSync(join(dir, 'checkout', 'orders.py'), `${orders.join('\n')}\n`);
+  return dir;
+}
+
+describe('localPath', () => {
+  const rules = [{ from: '/app/', to: '/home/me/shop' }];
+
+  it('rewrites the prefix of a matching rule', () => {
+    expect(localPath('/app/checkout/views.py', rules)).toBe('/home/me/shop/checkout/views.py');
+    expect(localPath('/srv/other.py', rules)).toBeNull();
+  });
+
+  it('refuses paths that escape the rule directory', () => {
+    expect(localPath('/app/../../etc/passwd', rules)).toBeNull();
+    expect(localPath('/app/checkout/../../secrets.py', rules)).toBeNull();
+    expect(localPath('/app/checkout/../views.py', rules)).toBe('/home/me/shop/views.py');
+  });
+});
+
+describe('get_local_source', () => {
+  it('flags frames whose code changed since the event, and where it moved', async () => {
+    harness = await connect({
+      BUGSINK_PATH_REWRITES: `${CHECKOUT_API}:checkout/=${checkout()}/checkout/`,
+    });
+
+    const { frames } = data<{ frames: LocalFrame[] }>(
+      await harness.call('get_local_source', { event_id: CHECKOUT_EVENT })
+    );
+    const frame = (filename: string) => frames.find((f) => f.filename === filename);
+
+    expect(frames.map((f) => f.filename)).not.toContain('django/core/handlers/base.py');
+    expect(frame('checkout/views.py')).toMatchObject({ status: 'unchanged', moved_to: null });
+    expect(frame('checkout/views.py')?.lines).toContainEqual({
+      lineno: 48,
+      text: '        order = build_order(cart)',
+    });
+    expect(frame('checkout/orders.py')).toMatchObject({ status: 'changed', moved_to: 24 });
+  });
+
+  it('reports files missing from the checkout', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bugsink-workspace-'));
+    harness = await connect({ BUGSINK_PATH_REWRITES: `${CHECKOUT_API}:checkout/=${dir}/` });
+
+    const { frames } = data<{ frames: LocalFrame[] }>(
+      await harness.call('get_local_source', { event_id: CHECKOUT_EVENT })
+    );
+
+    expect(frames.map((f) => f.status)).toEqual(['missing', 'missing']);
+  });
+
+  it('requires path rewrite rules for the project', async () => {
+    harness = await connect();
+
+    const result = await harness.call('get_local_source', { event_id: CHECKOUT_EVENT });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('no path rewrite rules are configured for project 2');
+  });
+});